@@ -1,5 +1,5 @@
 // Fix: Implement the main App component, which was missing. This component orchestrates the entire application flow, from file upload to data extraction and display.
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import FileUpload from './components/FileUpload';
 import PageSelection from './components/PageSelection';
 import ExtractionOptions, { getDefaultPrompt } from './components/ExtractionOptions';
@@ -7,12 +7,70 @@ import ResultsView from './components/ResultsView';
 import ProcessingView from './components/ProcessingView';
 import HelpModal from './components/HelpModal';
 import ApiKeyModal from './components/ApiKeyModal';
+import JobsModal from './components/JobsModal';
+import SourceReviewPanel from './components/SourceReviewPanel';
+import SchemaEditorModal from './components/SchemaEditorModal';
 import LanguageSwitcher from './components/LanguageSwitcher';
-import { GithubIcon, SettingsIcon } from './components/icons';
-import { ApiKeyConfig, ProductData, ProcessingStatus, ProcessingProgress } from './types';
+import { GithubIcon, SettingsIcon, HistoryIcon } from './components/icons';
+import { ApiKeyConfig, ProductData, ProcessingStatus, ProcessingProgress, ExtractionJob, PageOutcome, TextSpan, ImageProcessingOptions } from './types';
 import { useTranslation } from './hooks/useTranslation';
-import { loadPdfDocument, renderSinglePage, renderHighQualityCrop, extractBestImageForBox } from './utils/pageParser';
-import { extractProductDataFromPage } from './services/geminiService';
+import { useHistory } from './hooks/useHistory';
+import { PageRenderer, openPageRenderer, postProcessCrop } from './utils/renderClient';
+import { OCR_SCALE, hasTextLayer, recognizePage, terminateOcr } from './utils/ocr';
+import { createExtractionProvider, extractProductDataFromPage, getErrorOutcomeKind } from './services/extractionService';
+import { ExtractionProvider, PRODUCT_FIELDS, ProductFieldDefinition } from './services/extractionProvider';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './services/openaiService';
+import { PauseGate, createPauseGate, createRateLimiter, isAbortError, runWithConcurrency, withRetry } from './utils/scheduler';
+import { createJob, updateJob, saveJobPage, saveJobResults, getJob, getJobPages, getJobFiles } from './utils/jobStore';
+import { getImageBlob, getLoadedImage, releaseAllImages, releaseImages } from './utils/imageStore';
+import { BUILTIN_SCHEMA_PRESETS, DEFAULT_SCHEMA_PRESET_ID, SchemaPreset, getSchemaPreset, parseSchemaPresets } from './utils/extractionSchema';
+import { buildPageContext, stitchPageStart } from './utils/stitching';
+import { parseImageProcessingOptions } from './utils/imageCleanup';
+
+const DEFAULT_API_KEY_CONFIG: ApiKeyConfig = {
+  mode: 'default',
+  customKey: '',
+  provider: 'gemini',
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  openaiModel: DEFAULT_OPENAI_MODEL,
+  openaiKey: '',
+  mockRecordings: '',
+  maxConcurrency: 3,
+  requestsPerMinute: 10,
+};
+
+// The job whose results are shown, restored after a reload
+const ACTIVE_JOB_KEY = 'activeJobId';
+
+// Extraction schema presets saved by the user, and the one in use
+const SCHEMA_PRESETS_KEY = 'schemaPresets';
+const SCHEMA_PRESET_ID_KEY = 'schemaPresetId';
+
+// Post-processing of the crops (background, square padding, size, format)
+const IMAGE_PROCESSING_KEY = 'imageProcessing';
+
+const setActiveJobId = (jobId: string | null) => {
+  if (jobId) {
+    localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+  } else {
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+  }
+};
+
+const getPageKey = (fileName: string, page: number) => `${fileName}#${page}`;
+
+// Backoff on QUOTA_ERROR: 2s, 4s, 8s, 16s, 32s (plus jitter)
+const MAX_QUOTA_RETRIES = 5;
+const QUOTA_BACKOFF_BASE_MS = 2000;
+
+/**
+ * Orders products by source file (job order) and page, keeping in-page order.
+ */
+const sortByOrigin = (products: ProductData[], fileNames: string[]): ProductData[] => {
+  return [...products].sort((a, b) =>
+    (fileNames.indexOf(a.origem.source_pdf) - fileNames.indexOf(b.origem.source_pdf)) || (a.origem.page - b.origem.page)
+  );
+};
 
 const App: React.FC = () => {
   const { t, language } = useTranslation();
@@ -20,33 +78,81 @@ const App: React.FC = () => {
   // UI State
   const [isHelpVisible, setHelpVisible] = useState(false);
   const [isApiKeyModalVisible, setApiKeyModalVisible] = useState(false);
+  const [isJobsModalVisible, setJobsModalVisible] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const [isSchemaEditorVisible, setSchemaEditorVisible] = useState(false);
   
   // App Data State
   const [files, setFiles] = useState<File[]>([]);
   const [selectedPages, setSelectedPages] = useState<Map<string, Set<number>>>(new Map<string, Set<number>>());
   const [prompt, setPrompt] = useState('');
   const [extractImages, setExtractImages] = useState(false); // New State for Image Extraction
+  const [stitchPages, setStitchPages] = useState(false);
+  const [ocrScannedPages, setOcrScannedPages] = useState(true);
+  const [imageProcessing, setImageProcessing] = useState<ImageProcessingOptions>(() => parseImageProcessingOptions(localStorage.getItem(IMAGE_PROCESSING_KEY)));
   const [results, setResults] = useState<ProductData[]>([]);
+  const resultsHistory = useHistory(results, setResults);
+
+  // Extraction schema: the selected preset drives new jobs, resultFields the results shown
+  const [schemaPresets, setSchemaPresets] = useState<SchemaPreset[]>(() => parseSchemaPresets(localStorage.getItem(SCHEMA_PRESETS_KEY)));
+  const [schemaPresetId, setSchemaPresetId] = useState(() => localStorage.getItem(SCHEMA_PRESET_ID_KEY) || DEFAULT_SCHEMA_PRESET_ID);
+  const [resultFields, setResultFields] = useState<ProductFieldDefinition[]>(PRODUCT_FIELDS);
+  const activeSchemaPreset = getSchemaPreset(schemaPresets, schemaPresetId);
 
   // API Key State
-  const [apiKeyConfig, setApiKeyConfig] = useState<ApiKeyConfig>({ mode: 'default', customKey: '' });
+  const [apiKeyConfig, setApiKeyConfig] = useState<ApiKeyConfig>(DEFAULT_API_KEY_CONFIG);
 
   // Processing State
   const [status, setStatus] = useState<ProcessingStatus>('idle');
   const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [pageOutcomes, setPageOutcomes] = useState<PageOutcome[]>([]);
+  const [isReportVisible, setReportVisible] = useState(false);
+
+  // Last run, so failed pages can be re-queued with the same prompt and options
+  const lastRunRef = useRef<{ job: ExtractionJob; files: File[] } | null>(null);
+
+  // Controls of the running job: cancel aborts its renders and model calls, pause holds its page queue
+  const runControlRef = useRef<{ abort: AbortController; gate: PauseGate } | null>(null);
+  const [isPaused, setPaused] = useState(false);
 
   // Load API key config and prompt from localStorage on initial render
   useEffect(() => {
     const savedKeyConfig = localStorage.getItem('apiKeyConfig');
     if (savedKeyConfig) {
-      setApiKeyConfig(JSON.parse(savedKeyConfig));
+      // Merge with defaults so configs saved before provider selection still load
+      setApiKeyConfig({ ...DEFAULT_API_KEY_CONFIG, ...JSON.parse(savedKeyConfig) });
     }
     const savedPrompt = localStorage.getItem('prompt');
     // Set default prompt based on language if nothing is saved
     setPrompt(savedPrompt || getDefaultPrompt(language));
   }, [language]);
 
+  // Restore the results of the last job so they survive a reload.
+  // If it didn't finish, offer to resume it.
+  useEffect(() => {
+    const restoreActiveJob = async () => {
+      const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+      if (!jobId) return;
+      try {
+        const job = await getJob(jobId);
+        if (!job) {
+          setActiveJobId(null);
+          return;
+        }
+        const pages = await getJobPages(job);
+        setResults(pages.flatMap(p => p.products));
+        setResultFields(job.fields || PRODUCT_FIELDS);
+        if (job.status !== 'completed') {
+          setJobsModalVisible(true);
+        }
+      } catch (err) {
+        console.warn('Could not restore the last job:', err);
+      }
+    };
+    restoreActiveJob();
+  }, []);
+
   // Update prompt when language changes if it's still the default
   useEffect(() => {
       const defaultEn = getDefaultPrompt('en');
@@ -67,11 +173,42 @@ const App: React.FC = () => {
     localStorage.setItem('prompt', newPrompt);
   };
 
+  const handleImageProcessingChange = (options: ImageProcessingOptions) => {
+    setImageProcessing(options);
+    localStorage.setItem(IMAGE_PROCESSING_KEY, JSON.stringify(options));
+  };
+
+  const handleSchemaPresetChange = (presetId: string) => {
+    setSchemaPresetId(presetId);
+    localStorage.setItem(SCHEMA_PRESET_ID_KEY, presetId);
+  };
+
+  const saveSchemaPresets = (presets: SchemaPreset[]) => {
+    setSchemaPresets(presets);
+    localStorage.setItem(SCHEMA_PRESETS_KEY, JSON.stringify(presets));
+  };
+
+  const handleSaveSchemaPreset = (preset: SchemaPreset) => {
+    const exists = schemaPresets.some(p => p.id === preset.id);
+    saveSchemaPresets(exists ? schemaPresets.map(p => p.id === preset.id ? preset : p) : [...schemaPresets, preset]);
+    handleSchemaPresetChange(preset.id);
+    setSchemaEditorVisible(false);
+  };
+
+  const handleDeleteSchemaPreset = (presetId: string) => {
+    saveSchemaPresets(schemaPresets.filter(p => p.id !== presetId));
+    handleSchemaPresetChange(DEFAULT_SCHEMA_PRESET_ID);
+    setSchemaEditorVisible(false);
+  };
+
   const handleFilesSelected = (selectedFiles: File[]) => {
     setFiles(selectedFiles);
     // Reset selections if files change
     setSelectedPages(new Map<string, Set<number>>());
     setResults([]);
+    resultsHistory.clear();
+    releaseAllImages();
+    setActiveJobId(null);
   };
 
   const handlePageSelectionChange = useCallback((fileName: string, pageNumber: number, isSelected: boolean) => {
@@ -109,19 +246,398 @@ const App: React.FC = () => {
     setFiles([]);
     setSelectedPages(new Map<string, Set<number>>());
     setResults([]);
+    resultsHistory.clear();
+    releaseAllImages();
     setStatus('idle');
     setProgress(null);
     setError(null);
+    setPageOutcomes([]);
+    setReportVisible(false);
+    setActiveJobId(null);
+  };
+
+  /**
+   * Saves manual edits to the active job, so they also survive a reload.
+   */
+  const persistResults = (data: ProductData[]) => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId) return;
+    saveJobResults(jobId, data, getLoadedImage).catch(err => console.warn('Could not save edited results:', err));
   };
 
+  const handleResultsEdit = (data: ProductData[]) => {
+    resultsHistory.commit(data);
+    persistResults(data);
+  };
+
+  const handleUndo = () => {
+    const data = resultsHistory.undo();
+    if (data) persistResults(data);
+  };
+
+  const handleRedo = () => {
+    const data = resultsHistory.redo();
+    if (data) persistResults(data);
+  };
+
+  /**
+   * Finds a source PDF for the review panel: uploaded files first, then the files stored with the active job.
+   */
+  const getSourceFile = useCallback(async (fileName: string): Promise<File | null> => {
+    const uploaded = files.find(f => f.name === fileName);
+    if (uploaded) return uploaded;
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    const job = jobId ? await getJob(jobId) : undefined;
+    if (!job) return null;
+    const jobFiles = await getJobFiles(job);
+    return jobFiles.find(f => f.name === fileName) || null;
+  }, [files]);
+
   const handleClearResults = () => {
       setResults([]);
+      releaseAllImages();
+      resultsHistory.clear();
       setStatus('idle');
+      setActiveJobId(null);
   }
 
+  /**
+   * Resolves the configured extraction provider, or reports why it can't be used.
+   */
+  const resolveProvider = (): ExtractionProvider | null => {
+    const apiKey = apiKeyConfig.mode === 'custom' ? apiKeyConfig.customKey : process.env.API_KEY || '';
+    // OpenAI-compatible local servers (Ollama, vLLM) don't require a key
+    if (apiKeyConfig.provider === 'gemini' && !apiKey) {
+      setError(t('apiKeyMissingError'));
+      setApiKeyModalVisible(true);
+      return null;
+    }
+    try {
+      return createExtractionProvider(apiKeyConfig, apiKey);
+    } catch (err: any) {
+      setError(err.message);
+      setApiKeyModalVisible(true);
+      return null;
+    }
+  };
+
+  /**
+   * Persists a processed page so the job can be resumed from here.
+   * Storage failures (e.g. quota) must never stop the extraction itself.
+   */
+  const checkpointPage = async (job: ExtractionJob, fileName: string, page: number, products: ProductData[], ocrText?: TextSpan[]) => {
+    try {
+      await saveJobPage({
+        jobId: job.id,
+        fileName,
+        page,
+        products,
+        ...(ocrText ? { ocrText } : {}),
+        completedAt: Date.now(),
+      }, getLoadedImage);
+      await updateJob(job);
+    } catch (err) {
+      console.warn(`Could not checkpoint page ${page} of ${fileName}:`, err);
+    }
+  };
+
+  /**
+   * Records (or replaces, when a page is retried) the outcome of a page.
+   */
+  const recordOutcome = (outcome: PageOutcome, fileNames: string[]) => {
+    setPageOutcomes(prev => [
+        ...prev.filter(o => !(o.fileName === outcome.fileName && o.page === outcome.page)),
+        outcome
+    ].sort((a, b) => (fileNames.indexOf(a.fileName) - fileNames.indexOf(b.fileName)) || (a.page - b.page)));
+  };
+
+  /**
+   * Runs (or resumes) a job, skipping pages already in donePages.
+   * Pages are processed by a bounded worker pool; model calls go through
+   * the rate limiter and are retried with exponential backoff on QUOTA_ERROR.
+   * With stitching, each page waits for the previous page of its file, so
+   * products continued across pages are read in context and merged.
+   * Cancelling keeps every page finished so far and marks the job as partial.
+   */
+  const runJob = async (job: ExtractionJob, jobFiles: File[], donePages: Set<string>, provider: ExtractionProvider) => {
+    setStatus('processing');
+    setReportVisible(false);
+    // Edits made before this run can't be undone across new results
+    resultsHistory.clear();
+
+    let currentJob: ExtractionJob = { ...job, status: 'running', updatedAt: Date.now() };
+
+    // Page queue counters shown in ProcessingView
+    const counters = { inFlight: 0, done: currentJob.completedPages, retrying: 0, failed: 0 };
+    let currentLabel = t('processingPreparing');
+    const reportProgress = (label?: string) => {
+        if (label) currentLabel = label;
+        setProgress({
+            current: counters.done + counters.failed,
+            total: currentJob.totalPages,
+            filename: currentLabel,
+            ...counters,
+        });
+    };
+    reportProgress();
+
+    const tasks = jobFiles.flatMap(file =>
+        (currentJob.selectedPages[file.name] || [])
+            .filter(page => !donePages.has(getPageKey(file.name, page)))
+            .map(page => ({ file, page }))
+    );
+
+    // Cancels the renders and model calls in flight when the run fails or is stopped
+    const control = { abort: new AbortController(), gate: createPauseGate() };
+    const { signal } = control.abort;
+    runControlRef.current = control;
+    setPaused(false);
+
+    // 1. Open each PDF once in the render worker, and release it when its last page settles
+    const renderers = new Map<string, Promise<PageRenderer>>();
+    const remainingPages = new Map<string, number>();
+    tasks.forEach(({ file }) => remainingPages.set(file.name, (remainingPages.get(file.name) || 0) + 1));
+
+    const getRenderer = (file: File) => {
+        if (!renderers.has(file.name)) {
+            renderers.set(file.name, openPageRenderer(file, signal));
+        }
+        return renderers.get(file.name)!;
+    };
+
+    const releaseRenderer = async (file: File) => {
+        const left = (remainingPages.get(file.name) || 1) - 1;
+        remainingPages.set(file.name, left);
+        if (left === 0 && renderers.has(file.name)) {
+            const renderer = renderers.get(file.name)!;
+            renderers.delete(file.name);
+            try {
+                await (await renderer).destroy();
+            } catch {
+                // The document failed to load; nothing to release
+            }
+        }
+    };
+
+    const rateLimiter = createRateLimiter(apiKeyConfig.requestsPerMinute);
+    const fields = currentJob.fields || PRODUCT_FIELDS;
+
+    // Stitching: products each page ends with, resolved once the page settles (empty if it failed),
+    // and the checkpointed products of this run's pages, updated when a page's product is continued
+    const pageEnds = new Map<string, { promise: Promise<ProductData[]>; resolve: (products: ProductData[]) => void }>();
+    const runPages = new Map<string, ProductData[]>();
+    const runPagesOcr = new Map<string, TextSpan[]>();
+    tasks.forEach(({ file, page }) => {
+        let resolve: (products: ProductData[]) => void = () => {};
+        const promise = new Promise<ProductData[]>(r => { resolve = r; });
+        pageEnds.set(getPageKey(file.name, page), { promise, resolve });
+    });
+
+    // Use standard scale for analysis to save tokens/bandwidth
+    const analysisScale = 1.5;
+
+    try {
+        // 2. Process pages in parallel (Render -> Extract -> Native Extraction -> Release Memory)
+        await runWithConcurrency(tasks, apiKeyConfig.maxConcurrency, async ({ file, page: pageNum }) => {
+            const pageLabel = `${file.name} (p. ${pageNum})`;
+            const pageKey = getPageKey(file.name, pageNum);
+            let isRetrying = false;
+            let stage: 'render' | 'extract' = 'render';
+            let pageEnd: ProductData[] = [];
+            let pageImageId: string | null = null;
+
+            // Pages of a file are queued in order, so the previous one is already in flight
+            const previous = currentJob.stitchPages ? await pageEnds.get(getPageKey(file.name, pageNum - 1))?.promise : undefined;
+            const previousPage = previous ? buildPageContext(previous, fields) || undefined : undefined;
+            counters.inFlight++;
+            reportProgress(pageLabel);
+
+            try {
+                const renderer = await getRenderer(file);
+
+                // A. Render single page (Lightweight) for AI analysis
+                const imageInfo = await renderer.renderPage(pageNum, file.name, analysisScale, signal);
+                pageImageId = imageInfo.imageId;
+                // The exact text of vector pages grounds the codes read from the render
+                const textLayer = await renderer.getPageText(pageNum, signal).catch((err: any): TextSpan[] => {
+                    console.warn(`Could not read the text layer of page ${pageNum} of ${file.name}:`, err);
+                    return [];
+                });
+                // Scanned pages have none: OCR a sharper render instead
+                let ocrText: TextSpan[] | undefined;
+                if (currentJob.ocr && !hasTextLayer(textLayer)) {
+                    reportProgress(`${pageLabel} - ${t('processingOcr')}`);
+                    ocrText = await renderer.renderPage(pageNum, file.name, OCR_SCALE, signal)
+                        .then(async render => {
+                            const image = await getImageBlob(render.imageId);
+                            releaseImages([render.imageId]);
+                            return image ? recognizePage(image, signal) : [];
+                        })
+                        .catch((err: any): TextSpan[] => {
+                            if (isAbortError(err)) throw err;
+                            console.warn(`Could not OCR page ${pageNum} of ${file.name}:`, err);
+                            return [];
+                        });
+                }
+                stage = 'extract';
+                
+                // B. Extract data with AI (rate limited, backing off on quota errors)
+                const products = await withRetry(async () => {
+                    await rateLimiter.acquire(signal);
+                    return extractProductDataFromPage(imageInfo, currentJob.prompt, provider, currentJob.extractImages, fields, { previousPage, textLayer, ocrText }, signal);
+                }, {
+                    signal,
+                    maxRetries: MAX_QUOTA_RETRIES,
+                    baseDelayMs: QUOTA_BACKOFF_BASE_MS,
+                    shouldRetry: (err) => !!err?.message?.includes('QUOTA_ERROR'),
+                    onRetry: (_err, attempt, delayMs) => {
+                        if (!isRetrying) {
+                            isRetrying = true;
+                            counters.retrying++;
+                        }
+                        reportProgress(`${pageLabel} - ${t('processingRetrying', { attempt, seconds: Math.ceil(delayMs / 1000) })}`);
+                    },
+                });
+                
+                // C. High Quality Image Extraction (Native Object or Vector Re-rendering)
+                if (currentJob.extractImages && products.length > 0) {
+                    reportProgress(`${pageLabel} - ${t('processingExtractingImages')}`);
+
+                    for (const product of products) {
+                        if (product.box_2d) {
+                            let finalImage: string | null = null; // Crop ID in the image store
+
+                            // 1. Try Native Extraction (God Mode) first
+                            // This attempts to get the raw bitmap from the PDF
+                            finalImage = await renderer.extractImage(pageNum, product.box_2d, signal);
+
+                            // 2. Fallback to High Quality Vector Render if Native fails
+                            // (Safeguarded with max canvas size checks)
+                            if (!finalImage) {
+                                finalImage = await renderer.renderCrop(
+                                    pageNum, 
+                                    product.box_2d, 
+                                    4.0, // High Quality Scale (Limited by MAX_DIM inside function)
+                                    signal
+                                );
+                            }
+
+                            // 3. Marketplace cleanup: background, square padding, size and format
+                            if (finalImage) {
+                                Object.assign(product, await postProcessCrop(finalImage, currentJob.imageProcessing, signal));
+                            }
+                        }
+                    }
+                }
+
+                // D. Stitching: fragments at the top of the page continue the previous page's last product
+                let pageProducts = products;
+                const tail = previous?.[previous.length - 1] || null;
+                const { merged, rest } = currentJob.stitchPages ? stitchPageStart(tail, products, fields) : { merged: null, rest: products };
+                if (tail && merged) {
+                    // The merged product belongs to the page of its crop (see mergeProducts)
+                    const tailKey = getPageKey(tail.origem.source_pdf, tail.origem.page);
+                    const keptOnTailPage = getPageKey(merged.origem.source_pdf, merged.origem.page) === tailKey;
+                    pageProducts = keptOnTailPage ? rest : [merged, ...rest];
+                    setResults(prev => prev.flatMap(p => p === tail ? (keptOnTailPage ? [merged] : []) : [p]));
+
+                    const tailPage = runPages.get(tailKey);
+                    if (tailPage) {
+                        const updated = tailPage.flatMap(p => p === tail ? (keptOnTailPage ? [merged] : []) : [p]);
+                        runPages.set(tailKey, updated);
+                        await checkpointPage(currentJob, tail.origem.source_pdf, tail.origem.page, updated, runPagesOcr.get(tailKey));
+                    }
+                }
+
+                // Update results immediately, keeping file/page order despite parallelism
+                setResults(prev => sortByOrigin([...prev, ...pageProducts], currentJob.fileNames));
+
+                // E. Checkpoint, so a reload or failure can resume after this page
+                currentJob = { ...currentJob, completedPages: currentJob.completedPages + 1, updatedAt: Date.now() };
+                runPages.set(pageKey, pageProducts);
+                if (ocrText) runPagesOcr.set(pageKey, ocrText);
+                await checkpointPage(currentJob, file.name, pageNum, pageProducts, ocrText);
+                counters.done++;
+                recordOutcome({ fileName: file.name, page: pageNum, kind: 'success', productCount: pageProducts.length }, currentJob.fileNames);
+                // A page that only continued the previous one still ends with that product
+                pageEnd = pageProducts.length > 0 ? pageProducts : merged ? [merged] : [];
+            } catch (pageError: any) {
+                console.error(`Failed to process page ${pageNum} of ${file.name}:`, pageError);
+                
+                // CRITICAL: Circuit Breaker for Auth Errors
+                if (pageError.message && pageError.message.includes('AUTH_ERROR')) {
+                    control.abort.abort();
+                    throw new Error(t('apiKeyMissingError'));
+                }
+                // Stopped by the user: not a failure, and left for a resume to redo
+                if (signal.aborted) return;
+                // For other errors (like a blurry page), we report and continue.
+                // The page is not checkpointed, so resuming the job retries it.
+                counters.failed++;
+                recordOutcome({
+                    fileName: file.name,
+                    page: pageNum,
+                    kind: stage === 'render' ? 'render_error' : getErrorOutcomeKind(pageError),
+                    productCount: 0,
+                    message: pageError?.message || String(pageError),
+                }, currentJob.fileNames);
+            } finally {
+                // The page render was only needed by the model; crops are kept
+                if (pageImageId) releaseImages([pageImageId]);
+                pageEnds.get(pageKey)?.resolve(pageEnd);
+                counters.inFlight--;
+                if (isRetrying) counters.retrying--;
+                reportProgress();
+                await releaseRenderer(file);
+            }
+        }, { gate: control.gate, signal });
+
+        currentJob = {
+            ...currentJob,
+            status: currentJob.completedPages >= currentJob.totalPages ? 'completed' : signal.aborted ? 'partial' : 'interrupted',
+            updatedAt: Date.now()
+        };
+        setStatus('success');
+        // Keep the report open when some pages produced nothing
+        setReportVisible(counters.failed > 0);
+    } catch (err: any) {
+        console.error("Batch processing fatal error:", err);
+        currentJob = { ...currentJob, status: 'interrupted', updatedAt: Date.now() };
+        setError(err.message || 'An unknown error occurred.');
+        setStatus('error');
+    } finally {
+        runControlRef.current = null;
+        setPaused(false);
+        await terminateOcr();
+    }
+
+    lastRunRef.current = { job: currentJob, files: jobFiles };
+    updateJob(currentJob).catch(err => console.warn('Could not save job status:', err));
+  };
+
+  const handlePauseProcessing = () => {
+    runControlRef.current?.gate.pause();
+    setPaused(true);
+  };
+
+  const handleResumeProcessing = () => {
+    runControlRef.current?.gate.resume();
+    setPaused(false);
+  };
+
+  const handleCancelProcessing = () => {
+    const control = runControlRef.current;
+    if (!control) return;
+    // Lanes held by the pause wake up on the abort and stop taking pages
+    control.abort.abort();
+    setPaused(false);
+  };
+
   const handleStartProcessing = async () => {
     setError(null);
     setResults([]);
+    releaseAllImages();
+    setPageOutcomes([]);
     
     // Filter files that actually have pages selected
     const filesToProcess = files.filter(file => {
@@ -134,120 +650,127 @@ const App: React.FC = () => {
         return;
     }
 
-    const apiKey = apiKeyConfig.mode === 'custom' ? apiKeyConfig.customKey : process.env.API_KEY || '';
-    if (!apiKey) {
-      setError(t('apiKeyMissingError'));
-      setApiKeyModalVisible(true);
-      return;
-    }
+    const provider = resolveProvider();
+    if (!provider) return;
 
-    setStatus('processing'); 
-    
-    // Calculate total pages for progress bar
-    let totalPagesToProcess = 0;
+    const jobPages: Record<string, number[]> = {};
     filesToProcess.forEach(file => {
-        totalPagesToProcess += Number(selectedPages.get(file.name)?.size || 0);
+        jobPages[file.name] = (Array.from(selectedPages.get(file.name) || []) as number[]).sort((a, b) => a - b);
     });
 
-    let processedCount = 0;
+    const job: ExtractionJob = {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        status: 'running',
+        fileNames: filesToProcess.map(file => file.name),
+        selectedPages: jobPages,
+        prompt,
+        extractImages,
+        stitchPages,
+        ocr: ocrScannedPages,
+        imageProcessing: extractImages ? imageProcessing : undefined,
+        fields: activeSchemaPreset.fields,
+        // Calculate total pages for progress bar
+        totalPages: Object.values(jobPages).reduce((sum, pages) => sum + pages.length, 0),
+        completedPages: 0,
+    };
+
+    setResultFields(activeSchemaPreset.fields);
 
     try {
-        for (const file of filesToProcess) {
-            const pages = selectedPages.get(file.name);
-            if (!pages) continue;
-
-            // 1. Load PDF Document once per file
-            setProgress({ 
-                current: processedCount, 
-                total: totalPagesToProcess, 
-                filename: `${t('processingPreparing')} ${file.name}` 
-            });
-
-            const pdfDoc = await loadPdfDocument(file);
-            const sortedPages = (Array.from(pages) as number[]).sort((a, b) => a - b);
-
-            // Use standard scale for analysis to save tokens/bandwidth
-            const analysisScale = 1.5;
-
-            // 2. Process page by page (Render -> Extract -> Native Extraction -> Release Memory)
-            for (const pageNum of sortedPages) {
-                processedCount++;
-                setProgress({ 
-                    current: processedCount, 
-                    total: totalPagesToProcess, 
-                    filename: `${file.name} (p. ${pageNum})` 
-                });
+        await createJob(job, filesToProcess);
+        setActiveJobId(job.id);
+    } catch (err) {
+        console.warn('Could not persist job, it will not be resumable:', err);
+    }
 
-                try {
-                    // A. Render single page (Lightweight) for Gemini analysis
-                    const imageInfo = await renderSinglePage(pdfDoc, pageNum, file.name, analysisScale);
-                    
-                    // B. Extract data with AI
-                    const products = await extractProductDataFromPage(imageInfo, prompt, apiKey, extractImages);
-                    
-                    // C. High Quality Image Extraction (Native Object or Vector Re-rendering)
-                    if (extractImages && products.length > 0) {
-                        setProgress({ 
-                            current: processedCount, 
-                            total: totalPagesToProcess, 
-                            filename: `${file.name} (p. ${pageNum}) - Extracting Images...` 
-                        });
+    await runJob(job, filesToProcess, new Set<string>(), provider);
+  };
 
-                        for (const product of products) {
-                            if (product.box_2d) {
-                                let finalImage: string | null = null;
-
-                                // 1. Try Native Extraction (God Mode) first
-                                // This attempts to get the raw bitmap from the PDF
-                                finalImage = await extractBestImageForBox(pdfDoc, pageNum, product.box_2d);
-
-                                // 2. Fallback to High Quality Vector Render if Native fails
-                                // (Safeguarded with max canvas size checks)
-                                if (!finalImage) {
-                                    // console.log("Native extraction failed, falling back to render");
-                                    finalImage = await renderHighQualityCrop(
-                                        pdfDoc, 
-                                        pageNum, 
-                                        product.box_2d, 
-                                        4.0 // High Quality Scale (Limited by MAX_DIM inside function)
-                                    );
-                                }
-
-                                if (finalImage) {
-                                    product.imagem_produto_base64 = finalImage;
-                                }
-                            }
-                        }
-                    }
+  const handleResumeJob = async (job: ExtractionJob) => {
+    setJobsModalVisible(false);
+    setError(null);
 
-                    // Update results immediately
-                    setResults(prev => [...prev, ...products]);
-                    
-                    // Explicitly clear imageInfo to help GC
-                    imageInfo.base64 = ''; 
-                } catch (pageError: any) {
-                    console.error(`Failed to process page ${pageNum} of ${file.name}:`, pageError);
-                    
-                    // CRITICAL: Circuit Breaker for Auth Errors
-                    if (pageError.message && pageError.message.includes('AUTH_ERROR')) {
-                        throw new Error(t('apiKeyMissingError'));
-                    }
-                    // For other errors (like a blurry page), we just log and continue
-                }
-            }
-            
-            // Cleanup PDF Document
-            pdfDoc.destroy(); 
-        }
+    const provider = resolveProvider();
+    if (!provider) return;
 
-        setStatus('success');
+    try {
+        const jobFiles = await getJobFiles(job);
+        if (jobFiles.length === 0) {
+            setError(t('jobsFilesMissingError'));
+            setStatus('error');
+            return;
+        }
+        const pages = await getJobPages(job);
+
+        // Restore the job's inputs so the UI reflects what is being processed
+        setFiles(jobFiles);
+        setSelectedPages(new Map<string, Set<number>>(
+            Object.entries(job.selectedPages).map(([name, nums]) => [name, new Set<number>(nums)])
+        ));
+        setPrompt(job.prompt);
+        setExtractImages(job.extractImages);
+        setStitchPages(!!job.stitchPages);
+        setOcrScannedPages(!!job.ocr);
+        if (job.imageProcessing) setImageProcessing(job.imageProcessing);
+        // Saved crops are loaded back from the job on demand
+        releaseAllImages();
+        setResults(pages.flatMap(p => p.products));
+        setResultFields(job.fields || PRODUCT_FIELDS);
+        setPageOutcomes([]);
+        setActiveJobId(job.id);
+
+        const donePages = new Set<string>(pages.map(p => getPageKey(p.fileName, p.page)));
+        await runJob({ ...job, completedPages: pages.length }, jobFiles, donePages, provider);
     } catch (err: any) {
-        console.error("Batch processing fatal error:", err);
+        console.error('Failed to resume job:', err);
         setError(err.message || 'An unknown error occurred.');
         setStatus('error');
     }
   };
 
+  /**
+   * Re-queues only the pages that failed in the last run, with the same prompt and options.
+   */
+  const handleRetryFailedPages = async () => {
+    const lastRun = lastRunRef.current;
+    if (!lastRun) return;
+
+    const failedKeys = new Set<string>(
+        pageOutcomes.filter(o => o.kind !== 'success').map(o => getPageKey(o.fileName, o.page))
+    );
+    if (failedKeys.size === 0) return;
+
+    const provider = resolveProvider();
+    if (!provider) return;
+    setError(null);
+
+    const donePages = new Set<string>();
+    lastRun.job.fileNames.forEach(fileName => {
+        (lastRun.job.selectedPages[fileName] || []).forEach(page => {
+            const key = getPageKey(fileName, page);
+            if (!failedKeys.has(key)) donePages.add(key);
+        });
+    });
+
+    await runJob(lastRun.job, lastRun.files, donePages, provider);
+  };
+
+  const handleLoadJobResults = async (job: ExtractionJob) => {
+    setJobsModalVisible(false);
+    try {
+        const pages = await getJobPages(job);
+        releaseAllImages();
+        setResults(pages.flatMap(p => p.products));
+        setResultFields(job.fields || PRODUCT_FIELDS);
+        resultsHistory.clear();
+        setActiveJobId(job.id);
+    } catch (err) {
+        console.error('Failed to load job results:', err);
+    }
+  };
+
   const totalSelectedPages = useMemo(() => {
     return Array.from(selectedPages.values()).reduce((sum: number, pages: Set<number>) => sum + pages.size, 0);
   }, [selectedPages]);
@@ -263,6 +786,7 @@ const App: React.FC = () => {
           <div className="flex items-center space-x-4">
             <LanguageSwitcher />
             <button onClick={() => setHelpVisible(true)} className="text-gray-400 hover:text-white transition-colors">{t('helpButton')}</button>
+            <button onClick={() => setJobsModalVisible(true)} disabled={isProcessing} className="text-gray-400 hover:text-white disabled:opacity-50 transition-colors" title={t('jobsModalTitle')}><HistoryIcon /></button>
             <button onClick={() => setApiKeyModalVisible(true)} className="text-gray-400 hover:text-white transition-colors"><SettingsIcon /></button>
             <a href="https://github.com/google/aistudio-apps/tree/main/demos/catalog-gleaner" target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white transition-colors"><GithubIcon /></a>
           </div>
@@ -271,7 +795,7 @@ const App: React.FC = () => {
 
       <main className="container mx-auto p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="flex flex-col space-y-4">
-          <FileUpload onFilesSelected={handleFilesSelected} disabled={isProcessing} />
+          <FileUpload files={files} onFilesSelected={handleFilesSelected} disabled={isProcessing} />
           <PageSelection
             files={files}
             selectedPages={selectedPages}
@@ -285,6 +809,16 @@ const App: React.FC = () => {
             onPromptChange={handlePromptChange} 
             extractImages={extractImages}
             onExtractImagesChange={setExtractImages}
+            stitchPages={stitchPages}
+            onStitchPagesChange={setStitchPages}
+            ocrScannedPages={ocrScannedPages}
+            onOcrScannedPagesChange={setOcrScannedPages}
+            imageProcessing={imageProcessing}
+            onImageProcessingChange={handleImageProcessingChange}
+            schemaPresets={[...BUILTIN_SCHEMA_PRESETS, ...schemaPresets]}
+            schemaPresetId={activeSchemaPreset.id}
+            onSchemaPresetChange={handleSchemaPresetChange}
+            onEditSchema={() => setSchemaEditorVisible(true)}
             disabled={isProcessing} 
           />
           <div className="bg-gray-800/50 rounded-lg p-4">
@@ -298,12 +832,55 @@ const App: React.FC = () => {
           </div>
         </div>
         <div>
-          <ResultsView data={results} status={status} onClear={handleClearResults} />
+          <ResultsView
+            data={results}
+            status={status}
+            onClear={handleClearResults}
+            onDataChange={handleResultsEdit}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            canUndo={resultsHistory.canUndo}
+            canRedo={resultsHistory.canRedo}
+            onReviewSource={setReviewIndex}
+            fields={resultFields}
+          />
         </div>
       </main>
 
-      <ProcessingView status={status} progress={progress} error={error} onReset={handleReset} />
+      <ProcessingView
+        status={status}
+        progress={progress}
+        error={error}
+        outcomes={pageOutcomes}
+        showReport={isReportVisible}
+        onRetryFailed={handleRetryFailedPages}
+        onCloseReport={() => setReportVisible(false)}
+        onReset={handleReset}
+        isPaused={isPaused}
+        onPause={handlePauseProcessing}
+        onResume={handleResumeProcessing}
+        onCancel={handleCancelProcessing}
+      />
       <HelpModal isVisible={isHelpVisible} onClose={() => setHelpVisible(false)} />
+      <JobsModal isVisible={isJobsModalVisible} onClose={() => setJobsModalVisible(false)} onResume={handleResumeJob} onLoadResults={handleLoadJobResults} />
+      {reviewIndex !== null && results[reviewIndex] && (
+        <SourceReviewPanel
+          data={results}
+          productIndex={reviewIndex}
+          readOnly={isProcessing}
+          getSourceFile={getSourceFile}
+          imageProcessing={imageProcessing}
+          onDataChange={handleResultsEdit}
+          onClose={() => setReviewIndex(null)}
+        />
+      )}
+      <SchemaEditorModal
+        isVisible={isSchemaEditorVisible}
+        preset={activeSchemaPreset}
+        onSave={handleSaveSchemaPreset}
+        onDelete={handleDeleteSchemaPreset}
+        onClose={() => setSchemaEditorVisible(false)}
+      />
       <ApiKeyModal isVisible={isApiKeyModalVisible} onClose={() => setApiKeyModalVisible(false)} onSave={handleSaveApiKey} currentConfig={apiKeyConfig} />
     </div>
   );
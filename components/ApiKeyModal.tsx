@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { XIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
-import { ApiKeyConfig } from '../types';
+import { ApiKeyConfig, ProviderType } from '../types';
 
 interface ApiKeyModalProps {
   isVisible: boolean;
@@ -14,16 +14,34 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isVisible, onClose, onSave, c
   const { t } = useTranslation();
   const [mode, setMode] = useState(currentConfig.mode);
   const [customKey, setCustomKey] = useState(currentConfig.customKey);
+  const [provider, setProvider] = useState(currentConfig.provider);
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState(currentConfig.openaiBaseUrl);
+  const [openaiModel, setOpenaiModel] = useState(currentConfig.openaiModel);
+  const [openaiKey, setOpenaiKey] = useState(currentConfig.openaiKey);
+  const [mockRecordings, setMockRecordings] = useState(currentConfig.mockRecordings);
+  const [maxConcurrency, setMaxConcurrency] = useState(currentConfig.maxConcurrency);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(currentConfig.requestsPerMinute);
 
   useEffect(() => {
     setMode(currentConfig.mode);
     setCustomKey(currentConfig.customKey);
+    setProvider(currentConfig.provider);
+    setOpenaiBaseUrl(currentConfig.openaiBaseUrl);
+    setOpenaiModel(currentConfig.openaiModel);
+    setOpenaiKey(currentConfig.openaiKey);
+    setMockRecordings(currentConfig.mockRecordings);
+    setMaxConcurrency(currentConfig.maxConcurrency);
+    setRequestsPerMinute(currentConfig.requestsPerMinute);
   }, [currentConfig]);
 
   if (!isVisible) return null;
 
   const handleSave = () => {
-    onSave({ mode, customKey });
+    onSave({
+      mode, customKey, provider, openaiBaseUrl, openaiModel, openaiKey, mockRecordings,
+      maxConcurrency: Math.max(1, Math.floor(maxConcurrency) || 1),
+      requestsPerMinute: Math.max(0, Math.floor(requestsPerMinute) || 0),
+    });
   };
 
   return (
@@ -42,6 +60,24 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isVisible, onClose, onSave, c
         <h2 className="text-xl font-bold text-sky-400 mb-4">{t('apiKeyModalTitle')}</h2>
         
         <div className="space-y-4 text-gray-300">
+          <div>
+            <label htmlFor="provider-select" className="block text-sm font-medium text-gray-400 mb-1">
+              {t('apiKeyModalProviderLabel')}
+            </label>
+            <select
+              id="provider-select"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as ProviderType)}
+              className="w-full bg-gray-900 p-2 rounded-md text-sm border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+            >
+              <option value="gemini">{t('apiKeyModalProviderGemini')}</option>
+              <option value="openai">{t('apiKeyModalProviderOpenAI')}</option>
+              <option value="mock">{t('apiKeyModalProviderMock')}</option>
+            </select>
+          </div>
+
+          {provider === 'gemini' ? (
+          <>
           <p className="text-sm">{t('apiKeyModalDescription')}</p>
           
           <div className="space-y-2">
@@ -84,6 +120,93 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isVisible, onClose, onSave, c
               />
             </div>
           )}
+          </>
+          ) : provider === 'mock' ? (
+            <div className="space-y-3 animate-fade-in-fast">
+              <p className="text-sm">{t('apiKeyModalMockDescription')}</p>
+              <textarea
+                value={mockRecordings}
+                onChange={(e) => setMockRecordings(e.target.value)}
+                rows={8}
+                placeholder={'{\n  "catalog.pdf-1": "[{\\"nome\\": \\"...\\"}]"\n}'}
+                className="w-full bg-gray-900 p-2 rounded-md text-xs font-mono border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+              />
+            </div>
+          ) : (
+            <div className="space-y-3 animate-fade-in-fast">
+              <p className="text-sm">{t('apiKeyModalOpenAIDescription')}</p>
+              <div>
+                <label htmlFor="openai-base-url-input" className="block text-sm font-medium text-gray-400 mb-1">
+                  {t('apiKeyModalBaseUrlLabel')}
+                </label>
+                <input
+                  id="openai-base-url-input"
+                  type="url"
+                  value={openaiBaseUrl}
+                  onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full bg-gray-900 p-2 rounded-md text-sm border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+                />
+              </div>
+              <div>
+                <label htmlFor="openai-model-input" className="block text-sm font-medium text-gray-400 mb-1">
+                  {t('apiKeyModalModelLabel')}
+                </label>
+                <input
+                  id="openai-model-input"
+                  type="text"
+                  value={openaiModel}
+                  onChange={(e) => setOpenaiModel(e.target.value)}
+                  placeholder="gpt-4o-mini"
+                  className="w-full bg-gray-900 p-2 rounded-md text-sm border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+                />
+              </div>
+              <div>
+                <label htmlFor="openai-key-input" className="block text-sm font-medium text-gray-400 mb-1">
+                  {t('apiKeyModalOpenAIKeyLabel')}
+                </label>
+                <input
+                  id="openai-key-input"
+                  type="password"
+                  value={openaiKey}
+                  onChange={(e) => setOpenaiKey(e.target.value)}
+                  placeholder={t('apiKeyModalCustomKeyPlaceholder')}
+                  className="w-full bg-gray-900 p-2 rounded-md text-sm border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 pt-2 border-t border-gray-700">
+            <div>
+              <label htmlFor="concurrency-input" className="block text-sm font-medium text-gray-400 mb-1">
+                {t('apiKeyModalConcurrencyLabel')}
+              </label>
+              <input
+                id="concurrency-input"
+                type="number"
+                min={1}
+                max={16}
+                value={maxConcurrency}
+                onChange={(e) => setMaxConcurrency(Number(e.target.value))}
+                className="w-full bg-gray-900 p-2 rounded-md text-sm border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+              />
+            </div>
+            <div>
+              <label htmlFor="rpm-input" className="block text-sm font-medium text-gray-400 mb-1">
+                {t('apiKeyModalRpmLabel')}
+              </label>
+              <input
+                id="rpm-input"
+                type="number"
+                min={0}
+                value={requestsPerMinute}
+                onChange={(e) => setRequestsPerMinute(Number(e.target.value))}
+                className="w-full bg-gray-900 p-2 rounded-md text-sm border border-gray-600 focus:ring-sky-500 focus:border-sky-500 transition-colors"
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">{t('apiKeyModalThroughputHint')}</p>
+          </div>
 
           <div className="flex justify-end pt-4">
             <button
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { XIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { ProductData } from '../types';
+import { MergeDecision, applyMerges, proposeMerges } from '../utils/dedupUtils';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { getFieldLabel } from '../utils/extractionSchema';
+
+interface DuplicatesModalProps {
+  isVisible: boolean;
+  data: ProductData[];
+  fields: ProductFieldDefinition[]; // Extraction schema of the results
+  onApply: (data: ProductData[]) => void;
+  onClose: () => void;
+}
+
+const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ isVisible, data, fields, onApply, onClose }) => {
+  const { t } = useTranslation();
+  const proposals = useMemo(() => isVisible ? proposeMerges(data, fields) : [], [isVisible, data, fields]);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  // Picked value per proposal and conflicting field; defaults to the first value
+  const [choices, setChoices] = useState<Record<number, Record<string, string>>>({});
+
+  useEffect(() => {
+    setAccepted(new Set(proposals.map((_, i) => i)));
+    setChoices({});
+  }, [proposals]);
+
+  if (!isVisible) return null;
+
+  const getConflictLabel = (name: string) => {
+    const field = fields.find(f => f.name === name);
+    return field ? getFieldLabel(field, t) : name;
+  };
+
+  const toggleProposal = (index: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const pickValue = (proposalIndex: number, field: string, value: string) => {
+    setChoices(prev => ({ ...prev, [proposalIndex]: { ...prev[proposalIndex], [field]: value } }));
+  };
+
+  const handleApply = () => {
+    const decisions: MergeDecision[] = proposals
+      .map((proposal, i) => ({ proposal, i }))
+      .filter(({ i }) => accepted.has(i))
+      .map(({ proposal, i }) => {
+        const picked: Record<string, string> = {};
+        proposal.conflicts.forEach(conflict => {
+          picked[conflict.field] = choices[i]?.[conflict.field] ?? conflict.values[0];
+        });
+        return { indices: proposal.indices, choices: picked };
+      });
+    onApply(applyMerges(data, decisions, fields));
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto relative border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <XIcon />
+        </button>
+
+        <h2 className="text-xl font-bold text-sky-400 mb-4">{t('duplicatesModalTitle')}</h2>
+        <p className="text-sm text-gray-300 mb-4">{t('duplicatesModalDescription')}</p>
+
+        {proposals.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">{t('duplicatesEmpty')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {proposals.map((proposal, i) => {
+              const isAccepted = accepted.has(i);
+              return (
+                <li key={proposal.indices.join('-')} className={`bg-gray-900/50 rounded-md border p-3 ${isAccepted ? 'border-sky-700' : 'border-gray-700 opacity-60'}`}>
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isAccepted}
+                      onChange={() => toggleProposal(i)}
+                      className="mt-1 h-4 w-4"
+                    />
+                    <div className="min-w-0 flex-grow">
+                      <div className="flex justify-between items-start gap-2">
+                        <p className="text-sm font-semibold text-gray-200">
+                          {t('duplicatesGroupSize', { count: proposal.indices.length })}
+                        </p>
+                        <span className="text-xs px-2 py-0.5 rounded-full border flex-shrink-0 bg-gray-800 text-gray-400 border-gray-600">
+                          {proposal.reason === 'code' ? t('duplicatesReasonCode') : t('duplicatesReasonName')}
+                        </span>
+                      </div>
+                      <ul className="text-xs text-gray-400 mt-1 space-y-0.5">
+                        {proposal.indices.map(index => {
+                          const product = data[index];
+                          return (
+                            <li key={index} className="truncate">
+                              {product.nome || t('resultsUnknownProduct')}
+                              <span className="text-gray-500"> · {product.sku || product.codigo || '—'} · {product.origem.source_pdf} (p. {product.origem.page})</span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  </label>
+
+                  {/* Field-level conflict resolution */}
+                  {isAccepted && proposal.conflicts.length > 0 && (
+                    <div className="mt-3 ml-7 space-y-2">
+                      {proposal.conflicts.map(conflict => {
+                        const picked = choices[i]?.[conflict.field] ?? conflict.values[0];
+                        return (
+                          <fieldset key={conflict.field}>
+                            <legend className="text-[10px] uppercase tracking-wider text-amber-400 font-semibold">
+                              {getConflictLabel(conflict.field)}
+                            </legend>
+                            {conflict.values.map(value => (
+                              <label key={value} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                <input
+                                  type="radio"
+                                  name={`merge-${i}-${conflict.field}`}
+                                  checked={picked === value}
+                                  onChange={() => pickValue(i, conflict.field, value)}
+                                  className="h-3 w-3"
+                                />
+                                <span className="truncate" title={value}>{value}</span>
+                              </label>
+                            ))}
+                          </fieldset>
+                        );
+                      })}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+          >
+            {t('modalCancel')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={accepted.size === 0}
+            className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded transition-colors"
+          >
+            {t('duplicatesApply', { count: accepted.size })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesModal;
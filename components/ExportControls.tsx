@@ -1,49 +1,311 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { ProductData } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
 import { DownloadIcon, CopyIcon } from './icons';
-import { exportToJSON, exportToCSV } from '../utils/exportUtils';
+import { exportToJSON, exportToCSV, exportToXLSX, exportWithAdapter, getExportContext } from '../utils/exportUtils';
+import { EXPORT_ADAPTERS, getExportAdapter } from '../utils/exportTargets';
+import { MissingAttributes } from '../utils/googleFeed';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { DEFAULT_SPECIFICATION_EXPORT, SpecificationExportOptions, collectSpecificationKeys } from '../utils/specifications';
+import { DEFAULT_PRICE_RULE, PriceRule, PriceRuleMode, applyPriceRule, applyPriceRuleToPrice, formatPrice, getProductPrice, isPriceRuleActive } from '../utils/pricing';
+import MissingAttributesModal from './MissingAttributesModal';
+import NuvemshopExportModal from './NuvemshopExportModal';
 
 interface ExportControlsProps {
   data: ProductData[];
+  fields: ProductFieldDefinition[]; // Columns of the CSV and XLSX exports
+  disabled?: boolean; // Export blocked by validation errors
 }
 
-const ExportControls: React.FC<ExportControlsProps> = ({ data }) => {
+const TARGET_KEY = 'exportTarget';
+const IMAGE_BASE_URL_KEY = 'exportImageBaseUrl';
+const STORE_URL_KEY = 'exportStoreUrl';
+const BRAND_KEY = 'exportBrand';
+const SPEC_EXPORT_KEY = 'specificationExport';
+const PRICE_RULE_KEY = 'priceRule';
+
+const PRICE_RULE_MODES: PriceRuleMode[] = ['none', 'markup', 'discount'];
+
+// Targets whose columns are built from the schema, so specs can be added to them
+const SPEC_TARGETS = ['csv', 'xlsx'];
+
+const loadSpecExport = (): SpecificationExportOptions => {
+  const saved = localStorage.getItem(SPEC_EXPORT_KEY);
+  return saved ? { ...DEFAULT_SPECIFICATION_EXPORT, ...JSON.parse(saved) } : DEFAULT_SPECIFICATION_EXPORT;
+};
+
+const loadPriceRule = (): PriceRule => {
+  const saved = localStorage.getItem(PRICE_RULE_KEY);
+  return saved ? { ...DEFAULT_PRICE_RULE, ...JSON.parse(saved) } : DEFAULT_PRICE_RULE;
+};
+
+// Targets that aren't marketplace adapters
+const BUILTIN_TARGETS = [
+  { id: 'json', label: 'JSON' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel (XLSX)' },
+  { id: 'nuvemshop', label: 'Nuvemshop' },
+];
+
+const ExportControls: React.FC<ExportControlsProps> = ({ data, fields, disabled = false }) => {
     const { t } = useTranslation();
     const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
+    const [isNuvemshopVisible, setNuvemshopVisible] = useState(false);
+    const [target, setTarget] = useState(() => localStorage.getItem(TARGET_KEY) || 'json');
+    const [imageBaseUrl, setImageBaseUrl] = useState(() => localStorage.getItem(IMAGE_BASE_URL_KEY) || '');
+    const [storeUrl, setStoreUrl] = useState(() => localStorage.getItem(STORE_URL_KEY) || '');
+    const [brand, setBrand] = useState(() => localStorage.getItem(BRAND_KEY) || '');
+    const [missingReport, setMissingReport] = useState<MissingAttributes[] | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [specExport, setSpecExport] = useState<SpecificationExportOptions>(loadSpecExport);
+    const specKeys = useMemo(() => collectSpecificationKeys(data), [data]);
+    const [priceRule, setPriceRule] = useState<PriceRule>(loadPriceRule);
+
+    // Every export gets the prices with the rule applied; the results keep the catalog prices
+    const exportData = useMemo(() => applyPriceRule(data, priceRule), [data, priceRule]);
+    const samplePrice = useMemo(() => data.map(getProductPrice).find(price => price !== null) ?? null, [data]);
+    const hasPrices = samplePrice !== null || data.some(p => p.faixas_preco?.length);
+
+    const adapter = getExportAdapter(target);
+    const hasImages = data.some(p => !!p.imagem_produto_id);
+
+    const handleTargetChange = (value: string) => {
+        setTarget(value);
+        localStorage.setItem(TARGET_KEY, value);
+    };
+
+    const handleImageBaseUrlChange = (value: string) => {
+        setImageBaseUrl(value);
+        localStorage.setItem(IMAGE_BASE_URL_KEY, value);
+    };
+
+    const handleStoreUrlChange = (value: string) => {
+        setStoreUrl(value);
+        localStorage.setItem(STORE_URL_KEY, value);
+    };
+
+    const handleBrandChange = (value: string) => {
+        setBrand(value);
+        localStorage.setItem(BRAND_KEY, value);
+    };
+
+    const updateSpecExport = (options: SpecificationExportOptions) => {
+        setSpecExport(options);
+        localStorage.setItem(SPEC_EXPORT_KEY, JSON.stringify(options));
+    };
+
+    const toggleSpecKey = (key: string) => {
+        const keys = specExport.keys.includes(key) ? specExport.keys.filter(k => k !== key) : [...specExport.keys, key];
+        // Keep the columns in the same order as the key list
+        updateSpecExport({ ...specExport, keys: specKeys.map(k => k.key).filter(k => keys.includes(k)) });
+    };
+
+    const updatePriceRule = (changes: Partial<PriceRule>) => {
+        const rule = { ...priceRule, ...changes };
+        setPriceRule(rule);
+        localStorage.setItem(PRICE_RULE_KEY, JSON.stringify(rule));
+    };
+
+    // Keys chosen for earlier results may not exist in these
+    const getSpecExport = (): SpecificationExportOptions => ({
+        ...specExport,
+        keys: specExport.keys.filter(key => specKeys.some(k => k.key === key)),
+    });
+
+    // Loading or encoding the images can fail halfway; say so instead of leaving the user without a file
+    const runExport = async (exportFile: () => Promise<void>) => {
+        setExportError(null);
+        try {
+            await exportFile();
+        } catch (err: any) {
+            console.error('Export failed:', err);
+            setExportError(err?.message || String(err));
+        }
+    };
+
+    const runAdapterExport = async () => {
+        setMissingReport(null);
+        if (adapter) await runExport(() => exportWithAdapter(exportData, adapter, { imageBaseUrl, storeUrl, brand }));
+    };
+
+    const handleExport = async () => {
+        if (adapter) {
+            // Show what the platform would reject before downloading
+            const report = adapter.findMissingAttributes?.(exportData, getExportContext(exportData, { imageBaseUrl, storeUrl, brand })) || [];
+            if (report.length > 0) {
+                setMissingReport(report);
+            } else {
+                await runAdapterExport();
+            }
+        } else if (target === 'nuvemshop') {
+            setNuvemshopVisible(true);
+        } else if (target === 'xlsx') {
+            await runExport(() => exportToXLSX(exportData, fields, getSpecExport()));
+        } else if (target === 'csv') {
+            await runExport(() => exportToCSV(exportData, fields, getSpecExport()));
+        } else {
+            await runExport(() => exportToJSON(exportData));
+        }
+    };
 
     const handleCopy = () => {
-        navigator.clipboard.writeText(JSON.stringify(data, null, 2)).then(() => {
+        navigator.clipboard.writeText(JSON.stringify(exportData, null, 2)).then(() => {
             setCopyStatus('copied');
             setTimeout(() => setCopyStatus('idle'), 2000);
         });
     };
 
     return (
-        <div className="flex space-x-2">
-            <button 
-                onClick={() => exportToJSON(data)} 
-                className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs font-bold py-2 px-3 rounded-lg transition-colors"
-            >
-                <DownloadIcon />
-                <span>JSON</span>
-            </button>
-            <button 
-                onClick={() => exportToCSV(data)} 
-                className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs font-bold py-2 px-3 rounded-lg transition-colors"
-            >
-                <DownloadIcon />
-                <span>CSV</span>
-            </button>
-            <button 
-                onClick={handleCopy} 
-                className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs font-bold py-2 px-3 rounded-lg transition-colors"
-            >
-                <CopyIcon />
-                <span>{copyStatus === 'copied' ? t('resultsCopied') : t('resultsCopyAll')}</span>
-            </button>
+        <div className="flex flex-col items-end gap-2">
+            <div className="flex space-x-2">
+                <select
+                    value={target}
+                    onChange={(e) => handleTargetChange(e.target.value)}
+                    aria-label={t('exportTarget')}
+                    className="bg-gray-900 text-gray-300 text-xs font-bold py-2 px-2 rounded-lg border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                >
+                    {[...BUILTIN_TARGETS, ...EXPORT_ADAPTERS].map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleExport}
+                    disabled={disabled}
+                    title={disabled ? t('validationExportBlocked') : undefined}
+                    className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-xs font-bold py-2 px-3 rounded-lg transition-colors"
+                >
+                    <DownloadIcon />
+                    <span>{t('exportDownload')}</span>
+                </button>
+                <button
+                    onClick={handleCopy}
+                    className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs font-bold py-2 px-3 rounded-lg transition-colors"
+                >
+                    <CopyIcon />
+                    <span>{copyStatus === 'copied' ? t('resultsCopied') : t('resultsCopyAll')}</span>
+                </button>
+            </div>
+            {exportError && (
+                <p className="w-72 text-xs text-red-400 text-right">{t('exportFailed', { error: exportError })}</p>
+            )}
+            {adapter?.usesStoreUrl && (
+                <input
+                    type="url"
+                    value={storeUrl}
+                    onChange={(e) => handleStoreUrlChange(e.target.value)}
+                    placeholder={t('exportStoreUrlPlaceholder')}
+                    title={t('exportStoreUrlHelp')}
+                    className="w-72 bg-gray-900 text-gray-300 text-xs py-1.5 px-2 rounded-lg border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                />
+            )}
+            {adapter?.usesBrand && (
+                <input
+                    type="text"
+                    value={brand}
+                    onChange={(e) => handleBrandChange(e.target.value)}
+                    placeholder={t('exportBrandPlaceholder')}
+                    title={t('exportBrandHelp')}
+                    className="w-72 bg-gray-900 text-gray-300 text-xs py-1.5 px-2 rounded-lg border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                />
+            )}
+            {adapter && hasImages && (
+                <input
+                    type="url"
+                    value={imageBaseUrl}
+                    onChange={(e) => handleImageBaseUrlChange(e.target.value)}
+                    placeholder={t('exportImageBaseUrlPlaceholder')}
+                    title={t('exportImageBaseUrlHelp')}
+                    className="w-72 bg-gray-900 text-gray-300 text-xs py-1.5 px-2 rounded-lg border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                />
+            )}
+            {specKeys.length > 0 && SPEC_TARGETS.includes(target) && (
+                <div className="w-72 bg-gray-900 text-gray-300 text-xs p-2 rounded-lg border border-gray-600">
+                    <p className="font-semibold mb-1">{t('specExportTitle')}</p>
+                    <div className="flex gap-3 mb-1">
+                        {(['json', 'columns'] as const).map(mode => (
+                            <label key={mode} className="flex items-center gap-1 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="specExportMode"
+                                    checked={specExport.mode === mode}
+                                    onChange={() => updateSpecExport({ ...specExport, mode })}
+                                />
+                                <span>{mode === 'json' ? t('specExportJson') : t('specExportColumns')}</span>
+                            </label>
+                        ))}
+                    </div>
+                    {specExport.mode === 'columns' && (
+                        <div className="max-h-32 overflow-y-auto space-y-0.5 border-t border-gray-700 pt-1">
+                            {specKeys.map(({ key, count }) => (
+                                <label key={key} className="flex items-center gap-1.5 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={specExport.keys.includes(key)}
+                                        onChange={() => toggleSpecKey(key)}
+                                        className="h-3.5 w-3.5"
+                                    />
+                                    <span className="truncate">{key}</span>
+                                    <span className="ml-auto text-gray-500">{count}</span>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            {hasPrices && (
+                <div className="w-72 bg-gray-900 text-gray-300 text-xs p-2 rounded-lg border border-gray-600">
+                    <p className="font-semibold mb-1">{t('priceRuleTitle')}</p>
+                    <div className="flex items-center gap-2 mb-1">
+                        <select
+                            value={priceRule.mode}
+                            onChange={(e) => updatePriceRule({ mode: e.target.value as PriceRuleMode })}
+                            aria-label={t('priceRuleTitle')}
+                            className="flex-grow bg-gray-800 py-1 px-1.5 rounded border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                        >
+                            {PRICE_RULE_MODES.map(mode => <option key={mode} value={mode}>{t(`priceRule_${mode}`)}</option>)}
+                        </select>
+                        {priceRule.mode !== 'none' && (
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={priceRule.mode === 'discount' ? 100 : undefined}
+                                    step="any"
+                                    value={priceRule.percent}
+                                    onChange={(e) => updatePriceRule({ percent: Number(e.target.value) || 0 })}
+                                    className="w-16 bg-gray-800 py-1 px-1.5 rounded border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                                />
+                                <span>%</span>
+                            </label>
+                        )}
+                    </div>
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={priceRule.endWith90}
+                            onChange={(e) => updatePriceRule({ endWith90: e.target.checked })}
+                            className="h-3.5 w-3.5"
+                        />
+                        <span>{t('priceRuleEndWith90')}</span>
+                    </label>
+                    {samplePrice !== null && isPriceRuleActive(priceRule) && (
+                        <p className="text-gray-500 mt-1">
+                            {t('priceRuleExample', { before: formatPrice(samplePrice), after: formatPrice(applyPriceRuleToPrice(samplePrice, priceRule)) })}
+                        </p>
+                    )}
+                </div>
+            )}
+            {missingReport && (
+                <MissingAttributesModal
+                    report={missingReport}
+                    totalItems={data.length}
+                    onExportAnyway={runAdapterExport}
+                    onClose={() => setMissingReport(null)}
+                />
+            )}
+            <NuvemshopExportModal isVisible={isNuvemshopVisible} data={exportData} onClose={() => setNuvemshopVisible(false)} />
         </div>
     );
 };
 
-export default ExportControls;
\ No newline at end of file
+export default ExportControls;
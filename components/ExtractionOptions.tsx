@@ -1,12 +1,25 @@
 import React, { useState } from 'react';
 import { useTranslation } from '../hooks/useTranslation';
 import { EditIcon, CheckCircleIcon, ChevronDownIcon, ChevronUpIcon, WarningIcon } from './icons';
+import { SchemaPreset } from '../utils/extractionSchema';
+import { IMAGE_SIZES } from '../utils/imageCleanup';
+import { ImageProcessingOptions } from '../types';
 
 interface ExtractionOptionsProps {
   prompt: string;
   onPromptChange: (prompt: string) => void;
   extractImages: boolean;
   onExtractImagesChange: (enabled: boolean) => void;
+  stitchPages: boolean; // Merge products continued across consecutive pages
+  onStitchPagesChange: (enabled: boolean) => void;
+  ocrScannedPages: boolean; // OCR pages without a text layer
+  onOcrScannedPagesChange: (enabled: boolean) => void;
+  imageProcessing: ImageProcessingOptions; // Post-processing of the extracted crops
+  onImageProcessingChange: (options: ImageProcessingOptions) => void;
+  schemaPresets: SchemaPreset[]; // Built-in and saved presets
+  schemaPresetId: string;
+  onSchemaPresetChange: (presetId: string) => void;
+  onEditSchema: () => void;
   disabled: boolean;
 }
 
@@ -54,17 +67,24 @@ export const getDefaultPrompt = (language: 'en' | 'pt') => {
     return language === 'pt' ? DEFAULT_PROMPT_PT : DEFAULT_PROMPT_EN;
 }
 
-const ExtractionOptions: React.FC<ExtractionOptionsProps> = ({ prompt, onPromptChange, extractImages, onExtractImagesChange, disabled }) => {
+const ExtractionOptions: React.FC<ExtractionOptionsProps> = ({ prompt, onPromptChange, extractImages, onExtractImagesChange, stitchPages, onStitchPagesChange, ocrScannedPages, onOcrScannedPagesChange, imageProcessing, onImageProcessingChange, schemaPresets, schemaPresetId, onSchemaPresetChange, onEditSchema, disabled }) => {
   const { t, language } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(false);
   
   const defaultPrompt = getDefaultPrompt(language);
+  const activePreset = schemaPresets.find(preset => preset.id === schemaPresetId);
   const isDefault = prompt === defaultPrompt;
 
   const handleReset = () => {
     onPromptChange(defaultPrompt);
   };
 
+  const updateImageProcessing = (changes: Partial<ImageProcessingOptions>) => {
+    onImageProcessingChange({ ...imageProcessing, ...changes });
+  };
+
+  const selectClassName = "w-full bg-gray-900 text-gray-300 text-xs py-1.5 px-2 rounded-md border border-gray-600 focus:ring-sky-500 focus:border-sky-500";
+
   return (
     <div className={`bg-gray-800/50 rounded-lg transition-all duration-300 border border-gray-700/50 ${isExpanded ? 'p-4' : 'p-3'}`}>
       
@@ -128,6 +148,191 @@ const ExtractionOptions: React.FC<ExtractionOptionsProps> = ({ prompt, onPromptC
                 </label>
             </div>
 
+            {/* Image Post-Processing, for the extracted crops */}
+            {extractImages && (
+                <div className="mb-4 p-3 bg-gray-900/50 rounded-md border border-gray-700">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h4 className="text-sm font-bold text-sky-400">{t('imageProcessingTitle')}</h4>
+                            <p className="text-xs text-gray-400 mt-1">{t('imageProcessingDescription')}</p>
+                        </div>
+                        <label className="relative inline-flex items-center cursor-pointer">
+                            <input
+                                type="checkbox"
+                                className="sr-only peer"
+                                checked={imageProcessing.enabled}
+                                onChange={(e) => updateImageProcessing({ enabled: e.target.checked })}
+                                disabled={disabled}
+                            />
+                            <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-sky-500 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-sky-600"></div>
+                        </label>
+                    </div>
+
+                    {imageProcessing.enabled && (
+                        <div className="mt-3 grid grid-cols-2 gap-3 text-xs text-gray-300">
+                            <label className="space-y-1">
+                                <span className="block text-gray-400">{t('imageProcessingBackground')}</span>
+                                <select
+                                    value={imageProcessing.background}
+                                    onChange={(e) => updateImageProcessing({ background: e.target.value as ImageProcessingOptions['background'] })}
+                                    disabled={disabled}
+                                    className={selectClassName}
+                                >
+                                    <option value="keep">{t('imageProcessingBackgroundKeep')}</option>
+                                    <option value="white">{t('imageProcessingBackgroundWhite')}</option>
+                                    <option value="transparent">{t('imageProcessingBackgroundTransparent')}</option>
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className="block text-gray-400">{t('imageProcessingTolerance', { value: imageProcessing.tolerance })}</span>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={96}
+                                    value={imageProcessing.tolerance}
+                                    onChange={(e) => updateImageProcessing({ tolerance: Number(e.target.value) })}
+                                    disabled={disabled || imageProcessing.background === 'keep'}
+                                    className="w-full accent-sky-500"
+                                />
+                            </label>
+                            <label className="space-y-1">
+                                <span className="block text-gray-400">{t('imageProcessingSize')}</span>
+                                <select
+                                    value={imageProcessing.size}
+                                    onChange={(e) => updateImageProcessing({ size: Number(e.target.value) })}
+                                    disabled={disabled}
+                                    className={selectClassName}
+                                >
+                                    {IMAGE_SIZES.map(size => (
+                                        <option key={size} value={size}>
+                                            {size > 0 ? `${size} px` : t('imageProcessingSizeOriginal')}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className="block text-gray-400">{t('imageProcessingFormat')}</span>
+                                <select
+                                    value={imageProcessing.format}
+                                    onChange={(e) => updateImageProcessing({ format: e.target.value as ImageProcessingOptions['format'] })}
+                                    disabled={disabled}
+                                    className={selectClassName}
+                                >
+                                    <option value="image/jpeg">JPEG</option>
+                                    <option value="image/webp">WebP</option>
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className="block text-gray-400">{t('imageProcessingQuality', { value: Math.round(imageProcessing.quality * 100) })}</span>
+                                <input
+                                    type="range"
+                                    min={50}
+                                    max={100}
+                                    value={Math.round(imageProcessing.quality * 100)}
+                                    onChange={(e) => updateImageProcessing({ quality: Number(e.target.value) / 100 })}
+                                    disabled={disabled}
+                                    className="w-full accent-sky-500"
+                                />
+                            </label>
+                            <div className="space-y-1">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={imageProcessing.trim}
+                                        onChange={(e) => updateImageProcessing({ trim: e.target.checked })}
+                                        disabled={disabled}
+                                        className="accent-sky-500"
+                                    />
+                                    <span>{t('imageProcessingTrim')}</span>
+                                </label>
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={imageProcessing.square}
+                                        onChange={(e) => updateImageProcessing({ square: e.target.checked })}
+                                        disabled={disabled}
+                                        className="accent-sky-500"
+                                    />
+                                    <span>{t('imageProcessingSquare')}</span>
+                                </label>
+                            </div>
+                            {imageProcessing.background === 'transparent' && imageProcessing.format === 'image/jpeg' && (
+                                <p className="col-span-2 text-amber-400">{t('imageProcessingJpegNoAlpha')}</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Page Stitching Toggle */}
+            <div className="mb-4 p-3 bg-gray-900/50 rounded-md border border-gray-700 flex items-center justify-between">
+                <div>
+                    <h4 className="text-sm font-bold text-sky-400">{t('stitchPagesTitle')}</h4>
+                    <p className="text-xs text-gray-400 mt-1">{t('stitchPagesDescription')}</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                        type="checkbox"
+                        className="sr-only peer"
+                        checked={stitchPages}
+                        onChange={(e) => onStitchPagesChange(e.target.checked)}
+                        disabled={disabled}
+                    />
+                    <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-sky-500 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-sky-600"></div>
+                </label>
+            </div>
+
+            {/* Scanned Page OCR Toggle */}
+            <div className="mb-4 p-3 bg-gray-900/50 rounded-md border border-gray-700 flex items-center justify-between">
+                <div>
+                    <h4 className="text-sm font-bold text-sky-400">{t('ocrScannedPagesTitle')}</h4>
+                    <p className="text-xs text-gray-400 mt-1">{t('ocrScannedPagesDescription')}</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                        type="checkbox"
+                        className="sr-only peer"
+                        checked={ocrScannedPages}
+                        onChange={(e) => onOcrScannedPagesChange(e.target.checked)}
+                        disabled={disabled}
+                    />
+                    <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-sky-500 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-sky-600"></div>
+                </label>
+            </div>
+
+            {/* Extraction Schema */}
+            <div className="mb-4 p-3 bg-gray-900/50 rounded-md border border-gray-700">
+                <h4 className="text-sm font-bold text-sky-400">{t('extractionSchemaTitle')}</h4>
+                <p className="text-xs text-gray-400 mt-1 mb-2">{t('extractionSchemaDescription')}</p>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={schemaPresetId}
+                        onChange={(e) => onSchemaPresetChange(e.target.value)}
+                        disabled={disabled}
+                        aria-label={t('extractionSchemaTitle')}
+                        className="flex-grow bg-gray-900 text-gray-300 text-xs py-1.5 px-2 rounded-md border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+                    >
+                        {schemaPresets.map(preset => (
+                            <option key={preset.id} value={preset.id}>
+                                {preset.name} ({t('extractionSchemaFieldCount', { count: preset.fields.length })})
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={onEditSchema}
+                        disabled={disabled}
+                        className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white px-3 py-1.5 rounded transition-colors"
+                    >
+                        {t('extractionSchemaEdit')}
+                    </button>
+                </div>
+                {activePreset && (
+                    <p className="text-[11px] text-gray-500 mt-2 font-mono truncate" title={activePreset.fields.map(f => f.name).join(', ')}>
+                        {activePreset.fields.map(f => f.name).join(', ')}
+                    </p>
+                )}
+            </div>
+
             <div className="flex justify-between items-end mb-2">
                  <p className="text-xs text-gray-400 max-w-[80%]">{t('extractionOptionsDescription')}</p>
                  {!isDefault && !disabled && (
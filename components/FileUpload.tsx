@@ -1,20 +1,19 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { UploadCloudIcon, FileIcon, XIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
 
 interface FileUploadProps {
+  files: File[];
   onFilesSelected: (files: File[]) => void;
   disabled: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, disabled }) => {
-  const [files, setFiles] = useState<File[]>([]);
+const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesSelected, disabled }) => {
   const { t } = useTranslation();
   
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const newFiles = [...files, ...acceptedFiles];
-    setFiles(newFiles);
     onFilesSelected(newFiles);
   }, [files, onFilesSelected]);
 
@@ -26,12 +25,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, disabled }) =>
 
   const removeFile = (fileName: string) => {
     const newFiles = files.filter(file => file.name !== fileName);
-    setFiles(newFiles);
     onFilesSelected(newFiles);
   };
   
   const clearFiles = () => {
-    setFiles([]);
     onFilesSelected([]);
   }
 
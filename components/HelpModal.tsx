@@ -51,6 +51,11 @@ const HelpModal: React.FC<HelpModalProps> = ({ isVisible, onClose }) => {
     "codigo": "string | null",
     "categoria": "string | null",
     "descricao": "string | null",
+    "preco": "number | null",
+    "moeda": "string | null",
+    "faixas_preco": [
+      { "min_quantity": number, "price": number }
+    ],
     "especificacoes": [
       { 
         "key": "Chave Original do PDF",
@@ -63,7 +68,7 @@ const HelpModal: React.FC<HelpModalProps> = ({ isVisible, onClose }) => {
         "filename": "string",
         "page": number,
         "hash": "string",
-        "base64": "string" // base64 of the rendered page image
+        "imageId": "string" // ID of the rendered page image
       }
     ],
     "origem": {
@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { XIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { ExtractionJob } from '../types';
+import { listJobs, deleteJob } from '../utils/jobStore';
+
+interface JobsModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onResume: (job: ExtractionJob) => void;
+  onLoadResults: (job: ExtractionJob) => void;
+}
+
+const JobsModal: React.FC<JobsModalProps> = ({ isVisible, onClose, onResume, onLoadResults }) => {
+  const { t, language } = useTranslation();
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setJobs(await listJobs());
+    } catch (err) {
+      console.error('Failed to list saved jobs:', err);
+      setJobs([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isVisible) refreshJobs();
+  }, [isVisible, refreshJobs]);
+
+  if (!isVisible) return null;
+
+  const handleDelete = async (jobId: string) => {
+    await deleteJob(jobId);
+    refreshJobs();
+  };
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={onClose}
+    >
+      <div 
+        className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto relative border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <XIcon />
+        </button>
+
+        <h2 className="text-xl font-bold text-sky-400 mb-4">{t('jobsModalTitle')}</h2>
+        <p className="text-sm text-gray-300 mb-4">{t('jobsModalDescription')}</p>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-6">{t('jobsLoading')}</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">{t('jobsEmpty')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {jobs.map(job => {
+              const isDone = job.status === 'completed';
+              const percentage = job.totalPages > 0 ? Math.round((job.completedPages / job.totalPages) * 100) : 0;
+
+              return (
+                <li key={job.id} className="bg-gray-900/50 rounded-md border border-gray-700 p-3">
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-gray-200 truncate" title={job.fileNames.join(', ')}>
+                        {job.fileNames.join(', ')}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {new Date(job.updatedAt).toLocaleString(language === 'pt' ? 'pt-BR' : 'en-US')}
+                        {' · '}
+                        {t('jobsPagesDone', { done: job.completedPages, total: job.totalPages })}
+                      </p>
+                    </div>
+                    <span className={`text-xs px-2 py-0.5 rounded-full border flex-shrink-0 ${isDone ? 'bg-green-900/30 text-green-400 border-green-900/50' : 'bg-amber-900/30 text-amber-400 border-amber-900/50'}`}>
+                      {isDone ? t('jobsStatusCompleted') : job.status === 'partial' ? t('jobsStatusPartial') : t('jobsStatusUnfinished')}
+                    </span>
+                  </div>
+
+                  <div className="w-full bg-gray-700 rounded-full h-1.5 mt-2">
+                    <div className="bg-sky-600 h-1.5 rounded-full" style={{ width: `${percentage}%` }}></div>
+                  </div>
+
+                  <div className="flex justify-end space-x-2 mt-3 text-xs">
+                    <button onClick={() => handleDelete(job.id)} className="text-red-400 hover:text-red-300 px-2 py-1 transition-colors">
+                      {t('jobsDelete')}
+                    </button>
+                    <button onClick={() => onLoadResults(job)} className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded transition-colors">
+                      {t('jobsLoadResults')}
+                    </button>
+                    {!isDone && (
+                      <button onClick={() => onResume(job)} className="bg-sky-600 hover:bg-sky-700 text-white font-bold px-3 py-1 rounded transition-colors">
+                        {t('jobsResume')}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobsModal;
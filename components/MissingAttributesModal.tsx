@@ -0,0 +1,75 @@
+import React from 'react';
+import { XIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { MissingAttributes } from '../utils/googleFeed';
+
+interface MissingAttributesModalProps {
+  report: MissingAttributes[];
+  totalItems: number;
+  onExportAnyway: () => void;
+  onClose: () => void;
+}
+
+const MissingAttributesModal: React.FC<MissingAttributesModalProps> = ({ report, totalItems, onExportAnyway, onClose }) => {
+  const { t } = useTranslation();
+
+  // How many items lack each attribute, most common first
+  const counts = new Map<string, number>();
+  report.forEach(item => item.missing.forEach(attribute => counts.set(attribute, (counts.get(attribute) || 0) + 1)));
+  const summary = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto relative border border-gray-700 text-left"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <XIcon />
+        </button>
+
+        <h2 className="text-xl font-bold text-sky-400 mb-4">{t('missingAttributesTitle')}</h2>
+        <p className="text-sm text-gray-300 mb-4">
+          {t('missingAttributesDescription', { count: report.length, total: totalItems })}
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {summary.map(([attribute, count]) => (
+            <span key={attribute} className="text-xs px-2 py-0.5 rounded-full border bg-amber-900/30 text-amber-400 border-amber-900/50">
+              {attribute}: {count}
+            </span>
+          ))}
+        </div>
+
+        <ul className="max-h-64 overflow-y-auto text-xs space-y-1 pr-1">
+          {report.map(item => (
+            <li key={item.index} className="flex justify-between gap-2 bg-gray-900/50 rounded px-2 py-1">
+              <span className="text-gray-300 truncate" title={item.title}>{item.id} · {item.title || t('resultsUnknownProduct')}</span>
+              <span className="flex-shrink-0 text-amber-400">{item.missing.join(', ')}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-6 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+          >
+            {t('modalCancel')}
+          </button>
+          <button
+            onClick={onExportAnyway}
+            className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded transition-colors"
+          >
+            {t('missingAttributesExportAnyway')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MissingAttributesModal;
@@ -0,0 +1,156 @@
+import React, { useState, useMemo } from 'react';
+import { XIcon, DownloadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { ProductData } from '../types';
+import { DEFAULT_NUVEMSHOP_OPTIONS, NUVEMSHOP_HEADERS, NuvemshopExportOptions, buildNuvemshopRows } from '../utils/nuvemshopExport';
+import { exportToNuvemshopCSV } from '../utils/exportUtils';
+
+interface NuvemshopExportModalProps {
+  isVisible: boolean;
+  data: ProductData[];
+  onClose: () => void;
+}
+
+const OPTIONS_KEY = 'nuvemshopExportOptions';
+const PREVIEW_ROWS = 50;
+
+const loadOptions = (): NuvemshopExportOptions => {
+  const saved = localStorage.getItem(OPTIONS_KEY);
+  return saved ? { ...DEFAULT_NUVEMSHOP_OPTIONS, ...JSON.parse(saved) } : DEFAULT_NUVEMSHOP_OPTIONS;
+};
+
+const NuvemshopExportModal: React.FC<NuvemshopExportModalProps> = ({ isVisible, data, onClose }) => {
+  const { t } = useTranslation();
+  const [options, setOptions] = useState<NuvemshopExportOptions>(loadOptions);
+
+  const rows = useMemo(() => isVisible ? buildNuvemshopRows(data, options) : [], [isVisible, data, options]);
+  // Only preview the columns that have a value somewhere
+  const visibleColumns = useMemo(
+    () => NUVEMSHOP_HEADERS.map((_, i) => i).filter(i => rows.some(row => row[i] !== '')),
+    [rows]
+  );
+
+  if (!isVisible) return null;
+
+  const updateOption = <K extends keyof NuvemshopExportOptions>(key: K, value: NuvemshopExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleDownload = () => {
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+    exportToNuvemshopCSV(data, options);
+    onClose();
+  };
+
+  const productCount = rows.filter(row => row[1] !== '').length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col relative border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <XIcon />
+        </button>
+
+        <h2 className="text-xl font-bold text-sky-400 mb-4">{t('nuvemshopModalTitle')}</h2>
+        <p className="text-sm text-gray-300 mb-4">{t('nuvemshopModalDescription')}</p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4 text-sm">
+          <div>
+            <label htmlFor="nuvemshopVariant" className="block text-xs font-medium text-gray-400 mb-1">{t('nuvemshopVariantProperty')}</label>
+            <input
+              id="nuvemshopVariant"
+              type="text"
+              value={options.variantProperty}
+              onChange={(e) => updateOption('variantProperty', e.target.value)}
+              className="w-full bg-gray-900 p-2 rounded-md border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="nuvemshopPrice" className="block text-xs font-medium text-gray-400 mb-1">{t('nuvemshopPrice')}</label>
+            <input
+              id="nuvemshopPrice"
+              type="text"
+              inputMode="decimal"
+              value={options.price}
+              onChange={(e) => updateOption('price', e.target.value)}
+              placeholder={t('nuvemshopPriceFromCatalog')}
+              className="w-full bg-gray-900 p-2 rounded-md border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="nuvemshopStock" className="block text-xs font-medium text-gray-400 mb-1">{t('nuvemshopStock')}</label>
+            <input
+              id="nuvemshopStock"
+              type="text"
+              inputMode="numeric"
+              value={options.stock}
+              onChange={(e) => updateOption('stock', e.target.value)}
+              placeholder={t('nuvemshopStockUnlimited')}
+              className="w-full bg-gray-900 p-2 rounded-md border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-gray-300 cursor-pointer self-end pb-2">
+            <input
+              type="checkbox"
+              checked={options.showInStore}
+              onChange={(e) => updateOption('showInStore', e.target.checked)}
+              className="h-4 w-4"
+            />
+            <span>{t('nuvemshopShowInStore')}</span>
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-2">
+          {t('nuvemshopPreviewCount', { products: productCount, rows: rows.length })}
+        </p>
+        <div className="flex-grow min-h-0 overflow-auto border border-gray-700 rounded-lg">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-800 text-gray-400 sticky top-0">
+              <tr>
+                {visibleColumns.map(i => (
+                  <th key={i} className="px-2 py-2 text-left font-semibold whitespace-nowrap">{NUVEMSHOP_HEADERS[i]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                <tr key={r} className={`border-t border-gray-700/60 ${row[1] ? '' : 'text-gray-400 bg-gray-900/40'}`}>
+                  {visibleColumns.map(i => (
+                    <td key={i} className="px-2 py-1 whitespace-nowrap max-w-[16rem] truncate" title={row[i]}>{row[i]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {rows.length > PREVIEW_ROWS && (
+          <p className="text-xs text-gray-500 mt-2">{t('nuvemshopPreviewTruncated', { count: PREVIEW_ROWS })}</p>
+        )}
+
+        <div className="mt-4 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+          >
+            {t('modalCancel')}
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center space-x-2 bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded transition-colors"
+          >
+            <DownloadIcon />
+            <span>{t('nuvemshopDownload')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NuvemshopExportModal;
@@ -1,18 +1,38 @@
 import React from 'react';
-import { ProcessingStatus, ProcessingProgress } from '../types';
+import { ProcessingStatus, ProcessingProgress, PageOutcome, PageOutcomeKind } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
 
 interface ProcessingViewProps {
   status: ProcessingStatus;
   progress: ProcessingProgress | null;
   error: string | null;
+  outcomes: PageOutcome[];
+  showReport: boolean;
+  onRetryFailed: () => void;
+  onCloseReport: () => void;
   onReset: () => void;
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
 }
 
-const ProcessingView: React.FC<ProcessingViewProps> = ({ status, progress, error, onReset }) => {
+const OUTCOME_STYLES: Record<PageOutcomeKind, string> = {
+  success: 'text-green-400',
+  empty: 'text-amber-400',
+  parse_error: 'text-amber-400',
+  quota_error: 'text-red-400',
+  render_error: 'text-red-400',
+  error: 'text-red-400',
+};
+
+const ProcessingView: React.FC<ProcessingViewProps> = ({ status, progress, error, outcomes, showReport, onRetryFailed, onCloseReport, onReset, isPaused, onPause, onResume, onCancel }) => {
   const { t } = useTranslation();
 
-  if (status === 'idle' || status === 'success') return null;
+  if (status === 'idle' || (status === 'success' && !showReport)) return null;
+
+  const isRunning = status === 'rendering' || status === 'processing';
+  const failedOutcomes = outcomes.filter(o => o.kind !== 'success');
 
   const getStatusMessage = () => {
     if (status === 'error') {
@@ -22,20 +42,30 @@ const ProcessingView: React.FC<ProcessingViewProps> = ({ status, progress, error
       return t('processingRenderingTitle');
     }
     if (status === 'processing') {
-      return t('processingExtractingTitle');
+      return isPaused ? t('processingPausedTitle') : t('processingExtractingTitle');
+    }
+    if (status === 'success') {
+      return t('processingReportTitle');
     }
     return '';
   };
-  
+
   const percentage = progress && progress.total > 0
     ? Math.round((progress.current / progress.total) * 100)
     : 0;
 
+  const describeOutcome = (outcome: PageOutcome) => {
+    if (outcome.kind === 'success') {
+      return t('outcome_success', { count: outcome.productCount });
+    }
+    return t(`outcome_${outcome.kind}`);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in">
       <div className="bg-gray-800 rounded-lg shadow-2xl p-8 w-full max-w-lg border border-gray-700">
         <h2 className="text-xl font-bold text-sky-400 mb-4">{getStatusMessage()}</h2>
-        
+
         {error ? (
           <div className="bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-md">
             <p className="font-semibold">{t('processingErrorEncountered')}</p>
@@ -43,21 +73,100 @@ const ProcessingView: React.FC<ProcessingViewProps> = ({ status, progress, error
           </div>
         ) : (
           <div>
-            <div className="flex justify-between items-center mb-2 text-sm text-gray-400">
-                <span>
-                    {progress?.filename ? `${t('processingCurrentFile')}: ${progress.filename}` : t('processingPreparing')}
-                </span>
-                <span>{progress ? `${progress.current} / ${progress.total}` : ''}</span>
-            </div>
+            {isRunning && (
+              <div className="flex justify-between items-center mb-2 text-sm text-gray-400">
+                  <span>
+                      {progress?.filename ? `${t('processingCurrentFile')}: ${progress.filename}` : t('processingPreparing')}
+                  </span>
+                  <span>{progress ? `${progress.current} / ${progress.total}` : ''}</span>
+              </div>
+            )}
             <div className="w-full bg-gray-700 rounded-full h-2.5">
               <div
                 className="bg-sky-600 h-2.5 rounded-full transition-all duration-300 ease-in-out"
                 style={{ width: `${percentage}%` }}
               ></div>
             </div>
+            {progress && (
+              <div className="grid grid-cols-4 gap-2 mt-4 text-center text-xs">
+                <div className="bg-gray-900/50 rounded p-2 border border-gray-700">
+                  <p className="text-lg font-bold text-sky-400">{progress.inFlight}</p>
+                  <p className="text-gray-400">{t('processingInFlight')}</p>
+                </div>
+                <div className="bg-gray-900/50 rounded p-2 border border-gray-700">
+                  <p className="text-lg font-bold text-green-400">{progress.done}</p>
+                  <p className="text-gray-400">{t('processingDone')}</p>
+                </div>
+                <div className="bg-gray-900/50 rounded p-2 border border-gray-700">
+                  <p className="text-lg font-bold text-amber-400">{progress.retrying}</p>
+                  <p className="text-gray-400">{t('processingRetryingCount')}</p>
+                </div>
+                <div className="bg-gray-900/50 rounded p-2 border border-gray-700">
+                  <p className="text-lg font-bold text-red-400">{progress.failed}</p>
+                  <p className="text-gray-400">{t('processingFailed')}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Per-page report */}
+        {outcomes.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">
+              {t('processingReportPages', { failed: failedOutcomes.length, total: outcomes.length })}
+            </h3>
+            <ul className="max-h-48 overflow-y-auto text-xs space-y-1 pr-1">
+              {outcomes.map(outcome => (
+                <li
+                  key={`${outcome.fileName}-${outcome.page}`}
+                  className="flex justify-between gap-2 bg-gray-900/50 rounded px-2 py-1"
+                  title={outcome.message}
+                >
+                  <span className="text-gray-300 truncate">{outcome.fileName} (p. {outcome.page})</span>
+                  <span className={`flex-shrink-0 font-semibold ${OUTCOME_STYLES[outcome.kind]}`}>{describeOutcome(outcome)}</span>
+                </li>
+              ))}
+            </ul>
           </div>
         )}
 
+        {isRunning && !error && (
+            <div className="mt-6 flex justify-end space-x-2">
+                <button
+                onClick={onCancel}
+                className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                {t('processingCancel')}
+                </button>
+                <button
+                onClick={isPaused ? onResume : onPause}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                {isPaused ? t('processingResume') : t('processingPause')}
+                </button>
+            </div>
+        )}
+
+        {status === 'success' && (
+            <div className="mt-6 flex justify-end space-x-2">
+                <button
+                onClick={onCloseReport}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                {t('processingErrorReset')}
+                </button>
+                {failedOutcomes.length > 0 && (
+                    <button
+                    onClick={onRetryFailed}
+                    className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded transition-colors"
+                    >
+                    {t('processingRetryFailed', { count: failedOutcomes.length })}
+                    </button>
+                )}
+            </div>
+        )}
+
         {error && (
             <div className="mt-6 flex justify-end">
                 <button
@@ -0,0 +1,251 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ProductData } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { getFieldLabel } from '../utils/extractionSchema';
+import { GridRow, SortState, filterRows, getCellValue, sortRows, updateProductField } from '../utils/gridUtils';
+import { ValidationIssue } from '../utils/validation';
+import { ChevronDownIcon, ChevronUpIcon, XIcon } from './icons';
+
+interface ResultsGridProps {
+  data: ProductData[];
+  readOnly: boolean;
+  onDataChange: (data: ProductData[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  issues: ValidationIssue[][]; // Same index as data
+  fields: ProductFieldDefinition[]; // Columns, from the extraction schema
+}
+
+// A cell that switches to a text input on click; Enter/blur saves, Escape cancels
+const EditableCell: React.FC<{
+  value: string | null;
+  readOnly: boolean;
+  onCommit: (value: string) => void;
+}> = ({ value, readOnly, onCommit }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value || '');
+
+  const startEditing = () => {
+    if (readOnly) return;
+    setDraft(value || '');
+    setIsEditing(true);
+  };
+
+  const finishEditing = () => {
+    setIsEditing(false);
+    if (draft.trim() !== (value || '')) {
+      onCommit(draft);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={finishEditing}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') finishEditing();
+          if (e.key === 'Escape') setIsEditing(false);
+        }}
+        className="w-full min-w-[8rem] bg-gray-900 px-1 py-0.5 rounded text-xs border border-sky-500 focus:outline-none"
+      />
+    );
+  }
+
+  return (
+    <div
+      onClick={startEditing}
+      className={`truncate max-w-[16rem] min-h-[1.25rem] px-1 py-0.5 rounded ${readOnly ? '' : 'cursor-text hover:bg-gray-700/60'} ${value ? 'text-gray-200' : 'text-gray-600'}`}
+      title={value || ''}
+    >
+      {value || '—'}
+    </div>
+  );
+};
+
+const ResultsGrid: React.FC<ResultsGridProps> = ({ data, readOnly, onDataChange, onUndo, onRedo, canUndo, canRedo, issues, fields }) => {
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // Row indices change whenever the data is replaced (delete, undo, new results)
+  useEffect(() => {
+    setSelected(new Set());
+  }, [data.length]);
+
+  const rows = useMemo(() => {
+    const allRows: GridRow[] = data.map((product, index) => ({ index, product }));
+    const searchableFields = [...fields.map(f => f.name), 'page'];
+    return sortRows(filterRows(allRows, searchableFields, filter), sort);
+  }, [data, fields, filter, sort]);
+
+  // Keyboard shortcuts, unless the user is typing in a field
+  useEffect(() => {
+    if (readOnly) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [readOnly, onUndo, onRedo]);
+
+  const toggleSort = (field: string) => {
+    setSort(prev => {
+      if (!prev || prev.field !== field) return { field, direction: 'asc' };
+      if (prev.direction === 'asc') return { field, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const allVisibleSelected = rows.length > 0 && rows.every(row => selected.has(row.index));
+  const toggleAllVisible = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(rows.map(row => row.index)));
+  };
+
+  const handleDeleteSelected = () => {
+    onDataChange(data.filter((_, index) => !selected.has(index)));
+  };
+
+  const renderHeader = (field: string, label: string) => (
+    <th key={field} className="px-2 py-2 text-left font-semibold whitespace-nowrap">
+      <button onClick={() => toggleSort(field)} className="flex items-center gap-1 hover:text-white uppercase tracking-wider">
+        <span>{label}</span>
+        {sort?.field === field && (sort.direction === 'asc' ? <ChevronUpIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={t('gridFilterPlaceholder')}
+          className="flex-grow min-w-[10rem] bg-gray-900 px-2 py-1.5 rounded-md text-xs border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+        />
+        <button
+          onClick={onUndo}
+          disabled={readOnly || !canUndo}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-xs font-bold py-1.5 px-3 rounded-lg transition-colors"
+          title="Ctrl+Z"
+        >
+          {t('gridUndo')}
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={readOnly || !canRedo}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-xs font-bold py-1.5 px-3 rounded-lg transition-colors"
+          title="Ctrl+Y"
+        >
+          {t('gridRedo')}
+        </button>
+        {selected.size > 0 && !readOnly && (
+          <button
+            onClick={handleDeleteSelected}
+            className="text-xs text-red-400 hover:text-red-300 flex items-center space-x-1 bg-red-900/20 px-2 py-1.5 rounded border border-red-900/50 hover:border-red-800 transition-colors"
+          >
+            <XIcon />
+            <span>{t('gridDeleteSelected', { count: selected.size })}</span>
+          </button>
+        )}
+      </div>
+
+      {filter && (
+        <p className="text-xs text-gray-500 mb-2">{t('gridFilteredCount', { shown: rows.length, total: data.length })}</p>
+      )}
+
+      <div className="max-h-[calc(100vh-22rem)] overflow-auto border border-gray-700 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-800 text-gray-400 sticky top-0 z-[1]">
+            <tr>
+              <th className="px-2 py-2">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleAllVisible}
+                  aria-label={t('gridSelectAll')}
+                  className="h-3.5 w-3.5"
+                />
+              </th>
+              {renderHeader('page', t('gridPage'))}
+              {fields.map(field => renderHeader(field.name, getFieldLabel(field, t)))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ index, product }) => (
+              <tr
+                key={index}
+                className={`border-t border-gray-700/60 ${selected.has(index) ? 'bg-sky-900/30' : 'hover:bg-gray-800/60'}`}
+              >
+                <td className="px-2 py-1 text-center">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggleRow(index)}
+                    className="h-3.5 w-3.5"
+                  />
+                </td>
+                <td className="px-2 py-1 text-gray-500 whitespace-nowrap" title={product.origem.source_pdf}>
+                  {product.origem.page}
+                </td>
+                {fields.map(({ name: field, type }) => {
+                  const issue = issues[index]?.find(i => i.field === field);
+                  return (
+                    <td
+                      key={field}
+                      className={`px-1 py-1 ${issue ? (issue.severity === 'error' ? 'bg-red-900/30' : 'bg-amber-900/20') : ''}`}
+                      title={issue ? t(`issue_${issue.code}`, { value: issue.value, suggestion: issue.suggestion || '' }) : undefined}
+                    >
+                      <EditableCell
+                        value={getCellValue(product, field)}
+                        readOnly={readOnly}
+                        onCommit={(value) => onDataChange(updateProductField(data, index, field, value, type))}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="text-center text-gray-500 py-6 text-sm">{t('gridNoMatches')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultsGrid;
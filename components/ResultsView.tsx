@@ -1,7 +1,17 @@
-import React, { useState } from 'react';
-import { ProductData, ProcessingStatus } from '../types';
+import React, { useState, useMemo } from 'react';
+import { FieldConfidence, FieldEvidence, ProductData, ProcessingStatus } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
 import ExportControls from './ExportControls';
+import ResultsGrid from './ResultsGrid';
+import DuplicatesModal from './DuplicatesModal';
+import ReviewQueueModal from './ReviewQueueModal';
+import StoredImage from './StoredImage';
+import { ValidationIssue, hasBlockingIssues, normalizeProduct, validateProducts } from '../utils/validation';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { getFieldLabel } from '../utils/extractionSchema';
+import { getCellValue } from '../utils/gridUtils';
+import { formatPrice } from '../utils/pricing';
+import { LOW_CONFIDENCE_THRESHOLD, buildReviewQueue, getFieldConfidence } from '../utils/confidence';
 import { CopyIcon, XIcon, DownloadIcon } from './icons';
 
 // Props for ResultsView
@@ -9,14 +19,33 @@ interface ResultsViewProps {
   data: ProductData[];
   status: ProcessingStatus;
   onClear?: () => void;
+  onDataChange: (data: ProductData[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onReviewSource?: (index: number) => void;
+  fields: ProductFieldDefinition[]; // Extraction schema of the results
 }
 
-// A component for a single copyable field row
-const CopyableField: React.FC<{ label: string; value: string | null }> = ({ label, value }) => {
+type ResultsLayout = 'cards' | 'table';
+
+interface CopyableFieldProps {
+    label: string;
+    value: string | null;
+    evidence?: FieldEvidence;
+    confidence?: number | null; // Combined confidence (see utils/confidence.ts)
+    reported?: FieldConfidence; // What the model said about the value
+}
+
+// A component for a single copyable field row, marked when the value was found in the PDF text or has low confidence
+const CopyableField: React.FC<CopyableFieldProps> = ({ label, value, evidence, confidence, reported }) => {
     const [copied, setCopied] = useState(false);
     const { t } = useTranslation();
 
     if (!value) return null;
+    const isVerified = !!evidence?.matched && evidence.value === value;
+    const isLowConfidence = confidence !== undefined && confidence !== null && confidence < LOW_CONFIDENCE_THRESHOLD;
 
     const handleCopy = () => {
         navigator.clipboard.writeText(value).then(() => {
@@ -26,9 +55,22 @@ const CopyableField: React.FC<{ label: string; value: string | null }> = ({ labe
     };
 
     return (
-        <div className="flex items-center justify-between bg-gray-800/80 p-2 rounded mb-1 border border-gray-700 hover:border-sky-600/50 transition-colors group">
+        <div className={`flex items-center justify-between bg-gray-800/80 p-2 rounded mb-1 border hover:border-sky-600/50 transition-colors group ${isLowConfidence ? 'border-amber-600/60' : 'border-gray-700'}`}>
             <div className="flex flex-col min-w-0 mr-2">
-                <span className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">{label}</span>
+                <span className="text-[10px] uppercase tracking-wider text-gray-500 font-semibold">
+                    {label}
+                    {isVerified && (
+                        <span className="ml-1.5 normal-case tracking-normal text-green-400" title={t('resultsTextVerified', { text: evidence!.text || '' })}>✓ PDF</span>
+                    )}
+                    {isLowConfidence && (
+                        <span
+                            className="ml-1.5 normal-case tracking-normal text-amber-400"
+                            title={t('resultsLowConfidence', { score: Math.round(confidence! * 100), text: reported?.snippet || '—' })}
+                        >
+                            {Math.round(confidence! * 100)}%
+                        </span>
+                    )}
+                </span>
                 <span className="text-sm text-gray-200 truncate font-medium" title={value}>{value}</span>
             </div>
             <button 
@@ -43,18 +85,92 @@ const CopyableField: React.FC<{ label: string; value: string | null }> = ({ labe
     );
 };
 
+const BLOCK_EXPORT_KEY = 'blockExportOnErrors';
+
+// Layout of the card sections, by field group; ungrouped fields use OTHER_SECTION
+const CARD_SECTIONS: Record<string, { className: string; gridClassName: string }> = {
+    identification: { className: 'space-y-1', gridClassName: 'space-y-1' },
+    dimensions: { className: 'space-y-1', gridClassName: 'grid grid-cols-2 gap-2' },
+    pricing: { className: 'space-y-1', gridClassName: 'grid grid-cols-2 gap-2' },
+    marketing: { className: 'space-y-1 sm:col-span-2', gridClassName: 'grid grid-cols-1 sm:grid-cols-3 gap-2' },
+};
+const OTHER_SECTION = { className: 'space-y-1 sm:col-span-2', gridClassName: 'grid grid-cols-1 sm:grid-cols-2 gap-2' };
+
+// Issues found in one product, shown under its header
+const IssueList: React.FC<{ issues: ValidationIssue[] }> = ({ issues }) => {
+    const { t } = useTranslation();
+    if (issues.length === 0) return null;
+
+    return (
+        <ul className="mb-4 space-y-1 text-xs">
+            {issues.map(issue => (
+                <li
+                    key={`${issue.field}-${issue.code}`}
+                    className={`px-2 py-1 rounded border ${issue.severity === 'error' ? 'bg-red-900/20 border-red-900/50 text-red-300' : 'bg-amber-900/20 border-amber-900/50 text-amber-300'}`}
+                >
+                    <span className="font-semibold">{t(`field_${issue.field}`)}:</span>{' '}
+                    {t(`issue_${issue.code}`, { value: issue.value, suggestion: issue.suggestion || '' })}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
 // Main component
-const ResultsView: React.FC<ResultsViewProps> = ({ data, status, onClear }) => {
+const ResultsView: React.FC<ResultsViewProps> = ({ data, status, onClear, onDataChange, onUndo, onRedo, canUndo, canRedo, onReviewSource, fields }) => {
   const { t } = useTranslation();
-  const hasImages = data.some(p => !!p.imagem_produto_base64);
+  const [layout, setLayout] = useState<ResultsLayout>('cards');
+  const [isDuplicatesVisible, setDuplicatesVisible] = useState(false);
+  const [isReviewQueueVisible, setReviewQueueVisible] = useState(false);
+  // Post-processed crops shown as extracted (the "before" of the preview), by original image id
+  const [originalsShown, setOriginalsShown] = useState<Set<string>>(new Set());
+  const [blockExportOnErrors, setBlockExportOnErrors] = useState(() => localStorage.getItem(BLOCK_EXPORT_KEY) === 'true');
+  const isProcessing = status === 'rendering' || status === 'processing';
+  const issues = useMemo(() => validateProducts(data), [data]);
+  const errorCount = issues.reduce((sum, list) => sum + list.filter(i => i.severity === 'error').length, 0);
+  const fixableCount = issues.reduce((sum, list) => sum + list.filter(i => i.suggestion !== undefined).length, 0);
+  const warningCount = issues.reduce((sum, list) => sum + list.length, 0) - errorCount;
+  const isExportBlocked = blockExportOnErrors && issues.some(hasBlockingIssues);
+  const lowConfidenceCount = useMemo(() => buildReviewQueue(data, fields, issues).length, [data, fields, issues]);
+
+  const toggleBlockExport = (checked: boolean) => {
+      setBlockExportOnErrors(checked);
+      localStorage.setItem(BLOCK_EXPORT_KEY, String(checked));
+  };
+
+  const handleNormalizeAll = () => {
+      onDataChange(data.map(normalizeProduct));
+  };
+  const hasImages = data.some(p => !!p.imagem_produto_id);
+
+  // Card sections in schema order: main fields sit next to the image, ungrouped ones go last
+  const mainFields = fields.filter(f => f.group === 'main');
+  const sections = useMemo(() => {
+      const groups = new Map<string, ProductFieldDefinition[]>();
+      fields.filter(f => f.group !== 'main').forEach(field => {
+          const group = field.group || '';
+          groups.set(group, [...(groups.get(group) || []), field]);
+      });
+      return Array.from(groups.entries()).sort(([a], [b]) => Number(!a) - Number(!b));
+  }, [fields]);
 
-  const downloadSingleImage = (base64: string, name: string) => {
+  const downloadSingleImage = (url: string, name: string, extension: string = 'jpg') => {
       const link = document.createElement('a');
-      link.href = base64;
-      link.download = `${name || 'product'}.jpg`;
+      link.href = url;
+      link.download = `${name || 'product'}.${extension}`;
       link.click();
   }
 
+  const showsOriginal = (product: ProductData) => !!product.imagem_original_id && originalsShown.has(product.imagem_original_id);
+
+  const setOriginalShown = (originalId: string, shown: boolean) => {
+      setOriginalsShown(prev => {
+          const next = new Set(prev);
+          if (shown) next.add(originalId); else next.delete(originalId);
+          return next;
+      });
+  };
+
   if (status !== 'success' && data.length === 0) {
     return (
       <div className="bg-gray-800/50 rounded-lg p-4 h-full flex items-center justify-center">
@@ -81,17 +197,86 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, status, onClear }) => {
                     <span>{t('resultsClear')}</span>
                 </button>
             )}
+            {data.length > 1 && (
+                <button
+                    onClick={() => setDuplicatesVisible(true)}
+                    disabled={isProcessing}
+                    className="text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed px-2 py-1 rounded border border-gray-600 transition-colors"
+                >
+                    {t('resultsFindDuplicates')}
+                </button>
+            )}
+            {lowConfidenceCount > 0 && (
+                <button
+                    onClick={() => setReviewQueueVisible(true)}
+                    disabled={isProcessing}
+                    className="text-xs text-amber-300 hover:text-amber-200 bg-amber-900/20 hover:bg-amber-900/40 disabled:opacity-40 disabled:cursor-not-allowed px-2 py-1 rounded border border-amber-900/50 transition-colors"
+                >
+                    {t('resultsReviewLowConfidence', { count: lowConfidenceCount })}
+                </button>
+            )}
         </div>
-        {data.length > 0 && <ExportControls data={data} />}
+        {data.length > 0 && <ExportControls data={data} fields={fields} disabled={isExportBlocked} />}
       </div>
 
+      {data.length > 0 && (
+        <div className="flex mb-4 text-xs bg-gray-900/50 rounded-lg p-1 w-fit border border-gray-700">
+            {(['cards', 'table'] as ResultsLayout[]).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setLayout(option)}
+                    className={`px-3 py-1 rounded-md font-semibold transition-colors ${layout === option ? 'bg-sky-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                    {option === 'cards' ? t('resultsLayoutCards') : t('resultsLayoutTable')}
+                </button>
+            ))}
+        </div>
+      )}
+
+      {(errorCount > 0 || warningCount > 0) && (
+        <div className="mb-4 p-2 bg-gray-900/50 border border-gray-700 rounded text-xs flex flex-wrap items-center gap-3">
+            <span className="text-red-400 font-semibold">{t('validationErrorCount', { count: errorCount })}</span>
+            <span className="text-amber-400 font-semibold">{t('validationWarningCount', { count: warningCount })}</span>
+            {fixableCount > 0 && (
+                <button
+                    onClick={handleNormalizeAll}
+                    disabled={isProcessing}
+                    className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 px-2 py-1 rounded transition-colors"
+                >
+                    {t('validationNormalize', { count: fixableCount })}
+                </button>
+            )}
+            <label className="flex items-center gap-1.5 text-gray-400 ml-auto cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={blockExportOnErrors}
+                    onChange={(e) => toggleBlockExport(e.target.checked)}
+                    className="h-3.5 w-3.5"
+                />
+                <span>{t('validationBlockExport')}</span>
+            </label>
+        </div>
+      )}
+
       {hasImages && (
         <div className="mb-4 p-2 bg-sky-900/20 border border-sky-500/30 rounded text-xs text-sky-300 text-center">
              As imagens foram extraídas. O botão de download baixará um arquivo ZIP contendo planilha e imagens.
         </div>
       )}
       
-      {data.length > 0 ? (
+      {data.length > 0 && layout === 'table' ? (
+        <ResultsGrid
+          data={data}
+          readOnly={isProcessing}
+          onDataChange={onDataChange}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          issues={issues}
+          fields={fields}
+        />
+      ) : data.length > 0 ? (
         <div className="space-y-6 max-h-[calc(100vh-20rem)] overflow-y-auto pr-2">
           {data.map((product, index) => (
             <div key={`${product.origem.source_pdf}-${product.origem.page}-${index}`} className="bg-gray-900/80 rounded-lg p-4 border border-gray-600 shadow-lg animate-fade-in">
@@ -101,81 +286,149 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, status, onClear }) => {
                 
                 {/* Prioritize Cropped Image, fallback to Page Image */}
                 <div className="flex-shrink-0 sm:w-32 self-start">
-                    {product.imagem_produto_base64 ? (
-                        <div className="bg-black/30 rounded p-1 border border-sky-500/50 relative group">
-                             <img 
-                                src={product.imagem_produto_base64} 
-                                alt={product.nome || 'Product Cropped'} 
-                                className="rounded w-full object-contain mb-1"
-                                loading="lazy"
-                            />
-                            <button 
-                                onClick={() => downloadSingleImage(product.imagem_produto_base64!, product.sku || product.nome || 'image')}
-                                className="absolute top-2 right-2 bg-gray-900/90 text-white p-1.5 rounded-full shadow-lg hover:bg-sky-600 transition-colors border border-gray-600"
-                                title="Baixar Imagem"
-                            >
-                                <DownloadIcon />
-                            </button>
-                            <p className="text-[9px] text-center text-sky-400 uppercase font-bold">Recorte</p>
-                        </div>
+                    {product.imagem_produto_id ? (
+                        <StoredImage imageId={showsOriginal(product) ? product.imagem_original_id : product.imagem_produto_id} render={url => (
+                            <div className="bg-black/30 rounded p-1 border border-sky-500/50 relative group">
+                                 <img 
+                                    src={url} 
+                                    alt={product.nome || 'Product Cropped'} 
+                                    className="rounded w-full object-contain mb-1"
+                                    loading="lazy"
+                                />
+                                <button 
+                                    onClick={() => downloadSingleImage(url, product.sku || product.nome || 'image', !showsOriginal(product) && product.imagem_produto_tipo === 'image/webp' ? 'webp' : 'jpg')}
+                                    className="absolute top-2 right-2 bg-gray-900/90 text-white p-1.5 rounded-full shadow-lg hover:bg-sky-600 transition-colors border border-gray-600"
+                                    title="Baixar Imagem"
+                                >
+                                    <DownloadIcon />
+                                </button>
+                                <p className="text-[9px] text-center text-sky-400 uppercase font-bold">Recorte</p>
+                                {/* Before/after preview of the post-processing */}
+                                {product.imagem_original_id && (
+                                    <div className="mt-1 grid grid-cols-2 gap-0.5 text-[9px] uppercase font-bold">
+                                        <button
+                                            onClick={() => setOriginalShown(product.imagem_original_id!, true)}
+                                            className={`py-0.5 rounded-l ${showsOriginal(product) ? 'bg-sky-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t('resultsImageBefore')}
+                                        </button>
+                                        <button
+                                            onClick={() => setOriginalShown(product.imagem_original_id!, false)}
+                                            className={`py-0.5 rounded-r ${!showsOriginal(product) ? 'bg-sky-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t('resultsImageAfter')}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )} />
                     ) : (
-                        product.imagens[0]?.base64 && (
+                        // Page renders are released once the page is processed
+                        <StoredImage imageId={product.imagens[0]?.imageId} render={url => (
                             <div className="bg-white/5 rounded p-1">
                                 <img 
-                                src={product.imagens[0].base64} 
+                                src={url} 
                                 alt={product.nome || 'Product Page'} 
                                 className="rounded w-full object-contain"
                                 loading="lazy"
                                 />
                                 <p className="text-[10px] text-center text-gray-500 mt-1 truncate">Página {product.origem.page}</p>
                             </div>
-                        )
+                        )} />
+                    )}
+                    {onReviewSource && (
+                        <button
+                            onClick={() => onReviewSource(index)}
+                            className="mt-1 w-full text-[10px] uppercase font-bold text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded py-1 transition-colors"
+                        >
+                            {t('resultsReviewSource')}
+                        </button>
                     )}
                 </div>
                 
                 <div className="flex-grow space-y-1">
                      <h4 className="text-md font-bold text-sky-400 mb-2">{product.nome || t('resultsUnknownProduct')}</h4>
-                     <CopyableField label={t('field_nome')} value={product.nome} />
-                     <CopyableField label={t('field_descricao')} value={product.descricao} />
+                     {product.origens && product.origens.length > 1 && (
+                         <p className="text-[10px] text-gray-500 mb-1">
+                             {t('resultsFoundOnPages', { pages: product.origens.map(o => o.page).join(', ') })}
+                         </p>
+                     )}
+                     {mainFields.map(field => (
+                         <CopyableField
+                             key={field.name}
+                             label={getFieldLabel(field, t)}
+                             value={getCellValue(product, field.name)}
+                             evidence={product.evidencias?.[field.name]}
+                             confidence={getFieldConfidence(product, field.name, issues[index] || [])}
+                             reported={product.confianca?.[field.name]}
+                         />
+                     ))}
                 </div>
               </div>
 
-              {/* Nuvemshop / Grid Fields */}
+              <IssueList issues={issues[index] || []} />
+
+              {/* Schema fields, by group */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                
-                {/* Identifiers */}
-                <div className="space-y-1">
-                     <h5 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">Identificação</h5>
-                     <CopyableField label={t('field_codigo')} value={product.codigo} />
-                     <CopyableField label={t('field_modelo')} value={product.modelo} />
-                     <CopyableField label={t('field_sku')} value={product.sku} />
-                     <CopyableField label={t('field_codigo_barras')} value={product.codigo_barras} />
-                     <CopyableField label={t('field_ncm')} value={product.ncm} />
-                     <CopyableField label={t('field_categoria')} value={product.categoria} />
-                </div>
+                {sections.map(([group, groupFields]) => {
+                    const section = CARD_SECTIONS[group] || OTHER_SECTION;
+                    return (
+                        <div key={group} className={section.className}>
+                            <h5 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">
+                                {group ? t(`resultsGroup_${group}`) : t('resultsGroupOther')}
+                            </h5>
+                            <div className={section.gridClassName}>
+                                {groupFields.map(field => (
+                                    <CopyableField
+                                        key={field.name}
+                                        label={getFieldLabel(field, t)}
+                                        value={getCellValue(product, field.name)}
+                                        evidence={product.evidencias?.[field.name]}
+                                        confidence={getFieldConfidence(product, field.name, issues[index] || [])}
+                                        reported={product.confianca?.[field.name]}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+              </div>
 
-                {/* Dimensions */}
-                <div className="space-y-1">
-                     <h5 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">Dimensões & Peso</h5>
-                     <div className="grid grid-cols-2 gap-2">
-                        <CopyableField label={t('field_peso_kg')} value={product.peso_kg} />
-                        <CopyableField label={t('field_altura_cm')} value={product.altura_cm} />
-                        <CopyableField label={t('field_largura_cm')} value={product.largura_cm} />
-                        <CopyableField label={t('field_comprimento_cm')} value={product.comprimento_cm} />
-                     </div>
-                </div>
-                
-                {/* Marketing / Google Shopping */}
-                <div className="space-y-1 sm:col-span-2">
-                     <h5 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">Google Shopping / Instagram</h5>
-                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-                        <CopyableField label={t('field_mpn')} value={product.mpn} />
-                        <CopyableField label={t('field_sexo')} value={product.sexo} />
-                        <CopyableField label={t('field_faixa_etaria')} value={product.faixa_etaria} />
-                     </div>
+              {/* Quantity breaks */}
+              {product.faixas_preco && product.faixas_preco.length > 0 && (
+                <div className="mt-2">
+                    <h5 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">{t('resultsPriceTiers')}</h5>
+                    <table className="w-full text-xs">
+                        <tbody>
+                            {product.faixas_preco.map(tier => (
+                                <tr key={tier.min_quantity} className="border-b border-gray-800 last:border-0">
+                                    <th scope="row" className="text-left font-semibold text-gray-400 py-1 pr-3 w-1/3 align-top">
+                                        {tier.min_quantity}+ {product.unidade_venda || ''}
+                                    </th>
+                                    <td className="text-gray-200 py-1">{formatPrice(tier.price)} {product.moeda || ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
                 </div>
+              )}
 
-              </div>
+              {/* Spec table */}
+              {product.especificacoes && product.especificacoes.length > 0 && (
+                <div className="mt-2">
+                    <h5 className="text-xs font-bold text-gray-400 mb-1 uppercase border-b border-gray-700 pb-1">{t('resultsSpecifications')}</h5>
+                    <table className="w-full text-xs">
+                        <tbody>
+                            {product.especificacoes.map(spec => (
+                                <tr key={spec.key} className="border-b border-gray-800 last:border-0">
+                                    <th scope="row" className="text-left font-semibold text-gray-400 py-1 pr-3 w-1/3 align-top">{spec.key}</th>
+                                    <td className="text-gray-200 py-1">{spec.value}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -184,6 +437,22 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, status, onClear }) => {
             <p>{t('resultsNoProducts')}</p>
         </div>
       )}
+
+      <DuplicatesModal
+        isVisible={isDuplicatesVisible}
+        data={data}
+        fields={fields}
+        onApply={onDataChange}
+        onClose={() => setDuplicatesVisible(false)}
+      />
+      <ReviewQueueModal
+        isVisible={isReviewQueueVisible}
+        data={data}
+        fields={fields}
+        onDataChange={onDataChange}
+        onReviewSource={onReviewSource}
+        onClose={() => setReviewQueueVisible(false)}
+      />
     </div>
   );
 };
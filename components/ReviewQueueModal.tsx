@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { XIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { ProductData } from '../types';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { ReviewItem, buildReviewQueue, confirmField } from '../utils/confidence';
+import { validateProduct, validateProducts } from '../utils/validation';
+import { getFieldLabel } from '../utils/extractionSchema';
+import { getCellValue } from '../utils/gridUtils';
+
+interface ReviewQueueModalProps {
+  isVisible: boolean;
+  data: ProductData[];
+  fields: ProductFieldDefinition[];
+  onDataChange: (data: ProductData[]) => void;
+  onReviewSource?: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Walks the reviewer through the low-confidence fields, product by product.
+ * The queue is fixed when the modal opens, so confirmed fields don't shift the position.
+ */
+const ReviewQueueModal: React.FC<ReviewQueueModalProps> = ({ isVisible, data, fields, onDataChange, onReviewSource, onClose }) => {
+  const { t } = useTranslation();
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setQueue(buildReviewQueue(data, fields, validateProducts(data)));
+    setPosition(0);
+    // Only when opened: edits made here must not rebuild the queue
+  }, [isVisible]);
+
+  const item = queue[position];
+  const product = item ? data[item.productIndex] : undefined;
+
+  useEffect(() => {
+    setDraft(item && product ? getCellValue(product, item.field) || '' : '');
+  }, [item]);
+
+  if (!isVisible) return null;
+
+  const field = item ? fields.find(f => f.name === item.field) : undefined;
+  const reported = item && product ? product.confianca?.[item.field] : undefined;
+  const evidence = item && product ? product.evidencias?.[item.field] : undefined;
+  const fieldIssues = item && product ? validateProduct(product).filter(issue => issue.field === item.field) : [];
+
+  const handleConfirm = () => {
+    if (!item) return;
+    onDataChange(data.map((p, i) => i === item.productIndex ? confirmField(p, item.field, draft) : p));
+    setPosition(position + 1);
+  };
+
+  const handleViewSource = () => {
+    if (!item || !onReviewSource) return;
+    onReviewSource(item.productIndex);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-xl max-h-[90vh] overflow-y-auto relative border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <XIcon />
+        </button>
+
+        <h2 className="text-xl font-bold text-sky-400 mb-4">{t('reviewQueueTitle')}</h2>
+
+        {queue.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">{t('reviewQueueEmpty')}</p>
+        ) : !item || !product || !field ? (
+          <p className="text-center text-green-400 py-6">{t('reviewQueueDone', { count: queue.length })}</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex justify-between items-start gap-2 text-xs text-gray-400">
+              <p className="truncate">
+                <span className="font-semibold text-gray-200">{product.nome || t('resultsUnknownProduct')}</span>
+                <span className="text-gray-500"> · {product.origem.source_pdf} (p. {product.origem.page})</span>
+              </p>
+              <span className="flex-shrink-0">{t('reviewQueuePosition', { current: position + 1, total: queue.length })}</span>
+            </div>
+
+            <div className="bg-gray-900/50 rounded-md border border-amber-900/50 p-3 space-y-2">
+              <div className="flex justify-between items-center">
+                <label htmlFor="review-queue-value" className="text-[10px] uppercase tracking-wider text-amber-400 font-semibold">
+                  {getFieldLabel(field, t)}
+                </label>
+                <span className="text-xs text-amber-300">{t('reviewQueueScore', { score: Math.round(item.score * 100) })}</span>
+              </div>
+              <input
+                id="review-queue-value"
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleConfirm(); }}
+                autoFocus
+                className="w-full bg-gray-900 text-gray-200 text-sm py-1.5 px-2 rounded-md border border-gray-600 focus:ring-sky-500 focus:border-sky-500"
+              />
+              {reported?.snippet && (
+                <p className="text-xs text-gray-400">{t('reviewQueueSnippet', { text: reported.snippet })}</p>
+              )}
+              {evidence?.suggestion !== undefined && (
+                <button
+                  onClick={() => setDraft(evidence.suggestion!)}
+                  className="text-xs text-sky-400 hover:text-sky-300 underline"
+                >
+                  {t('reviewQueueUseText', { text: evidence.suggestion })}
+                </button>
+              )}
+              {fieldIssues.map(issue => (
+                <p key={issue.code} className={`text-xs ${issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+                  {t(`issue_${issue.code}`, { value: issue.value, suggestion: issue.suggestion || '' })}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-between items-center gap-2">
+          <div>
+            {item && onReviewSource && (
+              <button
+                onClick={handleViewSource}
+                className="text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded transition-colors"
+              >
+                {t('resultsReviewSource')}
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            {item ? (
+              <>
+                <button
+                  onClick={() => setPosition(position - 1)}
+                  disabled={position === 0}
+                  className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                  {t('reviewQueuePrevious')}
+                </button>
+                <button
+                  onClick={() => setPosition(position + 1)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                  {t('reviewQueueSkip')}
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded transition-colors"
+                >
+                  {t('reviewQueueConfirm')}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={onClose}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+              >
+                {t('reviewQueueClose')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewQueueModal;
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { XIcon, ChevronUpIcon, ChevronDownIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { ProductFieldDefinition, ProductFieldType } from '../services/extractionProvider';
+import { SchemaPreset, cleanSchemaField, validateSchemaFields } from '../utils/extractionSchema';
+
+interface SchemaEditorModalProps {
+  isVisible: boolean;
+  preset: SchemaPreset; // Preset being edited
+  onSave: (preset: SchemaPreset) => void;
+  onDelete: (presetId: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_TYPES: ProductFieldType[] = ['string', 'number', 'integer', 'boolean'];
+
+const EMPTY_FIELD: ProductFieldDefinition = { name: '', type: 'string', description: '' };
+
+const inputClassName = 'bg-gray-900 px-2 py-1.5 rounded-md text-xs border border-gray-600 focus:ring-sky-500 focus:border-sky-500';
+
+const SchemaEditorModal: React.FC<SchemaEditorModalProps> = ({ isVisible, preset, onSave, onDelete, onClose }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState(preset.name);
+  const [fields, setFields] = useState<ProductFieldDefinition[]>(preset.fields);
+
+  // Start from the preset every time the editor opens
+  useEffect(() => {
+    if (isVisible) {
+      setName(preset.name);
+      setFields(preset.fields);
+    }
+  }, [isVisible, preset]);
+
+  if (!isVisible) return null;
+
+  const errors = validateSchemaFields(fields);
+  const canSave = errors.length === 0 && name.trim() !== '';
+
+  const updateField = (index: number, changes: Partial<ProductFieldDefinition>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setFields(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    onSave({
+      // Built-in presets are never overwritten; saving one creates a copy
+      id: preset.builtIn ? crypto.randomUUID() : preset.id,
+      name: name.trim(),
+      fields: fields.map(cleanSchemaField),
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in-fast"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col relative border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white">
+          <XIcon />
+        </button>
+
+        <h2 className="text-xl font-bold text-sky-400 mb-2">{t('schemaEditorTitle')}</h2>
+        <p className="text-xs text-gray-400 mb-4">{t('schemaEditorDescription')}</p>
+
+        <label className="block text-xs font-semibold text-gray-300 mb-1">{t('schemaEditorPresetName')}</label>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`${inputClassName} w-full mb-1`}
+        />
+        {preset.builtIn && <p className="text-[11px] text-amber-400 mb-3">{t('schemaEditorBuiltInNote')}</p>}
+
+        <div className="flex-grow overflow-y-auto space-y-2 my-3 pr-1">
+          {fields.map((field, index) => {
+            const fieldErrors = errors.filter(e => e.index === index);
+            return (
+              <div key={index} className={`bg-gray-900/60 rounded-md p-2 border ${fieldErrors.length > 0 ? 'border-red-900/70' : 'border-gray-700'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={field.name}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    placeholder={t('schemaEditorFieldName')}
+                    aria-label={t('schemaEditorFieldName')}
+                    className={`${inputClassName} w-40 font-mono`}
+                  />
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(index, { type: e.target.value as ProductFieldType })}
+                    aria-label={t('schemaEditorFieldType')}
+                    className={inputClassName}
+                  >
+                    {FIELD_TYPES.map(type => <option key={type} value={type}>{t(`schemaType_${type}`)}</option>)}
+                  </select>
+                  <label className="flex items-center gap-1 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!field.required}
+                      onChange={(e) => updateField(index, { required: e.target.checked })}
+                      className="h-3.5 w-3.5"
+                    />
+                    <span>{t('schemaEditorFieldRequired')}</span>
+                  </label>
+                  <div className="ml-auto flex items-center gap-1 text-gray-400">
+                    <button onClick={() => moveField(index, -1)} disabled={index === 0} className="p-1 hover:text-white disabled:opacity-30" title={t('schemaEditorMoveUp')}>
+                      <ChevronUpIcon />
+                    </button>
+                    <button onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} className="p-1 hover:text-white disabled:opacity-30" title={t('schemaEditorMoveDown')}>
+                      <ChevronDownIcon />
+                    </button>
+                    <button onClick={() => setFields(prev => prev.filter((_, i) => i !== index))} className="p-1 hover:text-red-400" title={t('schemaEditorRemoveField')}>
+                      <XIcon />
+                    </button>
+                  </div>
+                </div>
+                <input
+                  value={field.description}
+                  onChange={(e) => updateField(index, { description: e.target.value })}
+                  placeholder={t('schemaEditorFieldDescription')}
+                  aria-label={t('schemaEditorFieldDescription')}
+                  className={`${inputClassName} w-full mt-2`}
+                />
+                {field.type === 'string' && (
+                  <input
+                    // Split without trimming, so typing "a, b" round-trips; values are trimmed on save
+                    value={(field.enumValues || []).join(',')}
+                    onChange={(e) => updateField(index, { enumValues: e.target.value ? e.target.value.split(',') : [] })}
+                    placeholder={t('schemaEditorFieldEnum')}
+                    aria-label={t('schemaEditorFieldEnum')}
+                    className={`${inputClassName} w-full mt-2`}
+                  />
+                )}
+                {fieldErrors.map(error => (
+                  <p key={error.code} className="text-[11px] text-red-400 mt-1">{t(`schemaError_${error.code}`)}</p>
+                ))}
+              </div>
+            );
+          })}
+          {errors.some(e => e.index === -1) && (
+            <p className="text-xs text-red-400">{t('schemaError_fields_empty')}</p>
+          )}
+        </div>
+
+        <button
+          onClick={() => setFields(prev => [...prev, EMPTY_FIELD])}
+          className="self-start text-xs text-sky-400 hover:text-sky-300 transition-colors mb-4"
+        >
+          + {t('schemaEditorAddField')}
+        </button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            {!preset.builtIn && (
+              <button
+                onClick={() => onDelete(preset.id)}
+                className="text-xs text-red-400 hover:text-red-300 bg-red-900/20 px-3 py-2 rounded border border-red-900/50 hover:border-red-800 transition-colors"
+              >
+                {t('schemaEditorDelete')}
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded transition-colors"
+            >
+              {t('modalCancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded transition-colors"
+            >
+              {preset.builtIn ? t('schemaEditorSaveAsNew') : t('schemaEditorSave')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaEditorModal;
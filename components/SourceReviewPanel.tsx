@@ -0,0 +1,368 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ImageProcessingOptions, ProductData } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { XIcon } from './icons';
+import { PageRenderer, openPageRenderer, postProcessCrop } from '../utils/renderClient';
+import { getImageUrl, releaseImages } from '../utils/imageStore';
+import StoredImage from './StoredImage';
+import { adjustBox, BoxHandle } from '../utils/boxGeometry';
+
+interface SourceReviewPanelProps {
+  data: ProductData[];
+  productIndex: number;
+  readOnly: boolean;
+  getSourceFile: (fileName: string) => Promise<File | null>;
+  imageProcessing?: ImageProcessingOptions; // Applied to new crops, as during extraction
+  onDataChange: (data: ProductData[]) => void;
+  onClose: () => void;
+}
+
+type Box = [number, number, number, number];
+
+// Higher than the 1.5 analysis scale so small print is readable
+const REVIEW_SCALE = 2.5;
+
+// Box used when a product has no location yet
+const DEFAULT_BOX: Box = [400, 400, 600, 600];
+
+interface DragState {
+  index: number;
+  handle: BoxHandle;
+  startX: number;
+  startY: number;
+  startBox: Box;
+}
+
+const SourceReviewPanel: React.FC<SourceReviewPanelProps> = ({ data, productIndex, readOnly, getSourceFile, imageProcessing, onDataChange, onClose }) => {
+  const { t } = useTranslation();
+  const [focusedIndex, setFocusedIndex] = useState(productIndex);
+  const [pageImage, setPageImage] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [draftBoxes, setDraftBoxes] = useState<Map<number, Box>>(new Map());
+  const [isCropping, setIsCropping] = useState(false);
+  const [cropError, setCropError] = useState<string | null>(null);
+
+  const rendererRef = useRef<PageRenderer | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<Map<number, HTMLLIElement>>(new Map());
+  const dragRef = useRef<DragState | null>(null);
+
+  const focusedProduct = data[focusedIndex];
+  const sourcePdf = focusedProduct?.origem.source_pdf;
+  const pageNumber = focusedProduct?.origem.page;
+
+  // Products found on the same page, with their index in the full result set
+  const pageProducts = useMemo(() => {
+    return data
+      .map((product, index) => ({ product, index }))
+      .filter(({ product }) => product.origem.source_pdf === sourcePdf && product.origem.page === pageNumber);
+  }, [data, sourcePdf, pageNumber]);
+
+  // Pages that have results, for prev/next navigation
+  const pages = useMemo(() => {
+    const seen = new Map<string, number>();
+    data.forEach((product, index) => {
+      const key = `${product.origem.source_pdf}#${product.origem.page}`;
+      if (!seen.has(key)) seen.set(key, index);
+    });
+    return Array.from(seen.values());
+  }, [data]);
+  const currentPagePosition = pages.findIndex(index =>
+    data[index].origem.source_pdf === sourcePdf && data[index].origem.page === pageNumber
+  );
+
+  // Render the source page whenever the reviewed page changes
+  useEffect(() => {
+    if (!sourcePdf || !pageNumber) return;
+    let isMounted = true;
+    // Leaving the page stops its render
+    const abort = new AbortController();
+    // The page render is dropped from the image store when leaving the page
+    let renderId: string | null = null;
+    setPageImage(null);
+    setLoadError(null);
+    setDraftBoxes(new Map());
+
+    const renderPage = async () => {
+      try {
+        const file = await getSourceFile(sourcePdf);
+        if (!file) {
+          if (isMounted) setLoadError(t('reviewSourceMissing'));
+          return;
+        }
+        const renderer = await openPageRenderer(file, abort.signal);
+        if (!isMounted) {
+          renderer.destroy();
+          return;
+        }
+        rendererRef.current?.destroy();
+        rendererRef.current = renderer;
+        const imageInfo = await renderer.renderPage(pageNumber, file.name, REVIEW_SCALE, abort.signal);
+        if (!isMounted) {
+          releaseImages([imageInfo.imageId]);
+          return;
+        }
+        renderId = imageInfo.imageId;
+        const url = await getImageUrl(renderId);
+        if (isMounted) setPageImage(url);
+      } catch (err: any) {
+        if (err?.name === 'AbortError') return;
+        console.error('Failed to render source page for review:', err);
+        if (isMounted) setLoadError(t('reviewRenderError'));
+      }
+    };
+    renderPage();
+    return () => {
+      isMounted = false;
+      abort.abort();
+      if (renderId) releaseImages([renderId]);
+    };
+  }, [sourcePdf, pageNumber, getSourceFile, t]);
+
+  // Release the PDF when the panel closes
+  useEffect(() => {
+    return () => {
+      rendererRef.current?.destroy();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  const getBox = (index: number): Box | null => {
+    return draftBoxes.get(index) || data[index]?.box_2d || null;
+  };
+
+  const focusProduct = (index: number) => {
+    setFocusedIndex(index);
+    setCropError(null);
+    cardRefs.current.get(index)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Drag & resize, tracked on the window so the pointer can leave the box
+  useEffect(() => {
+    const handlePointerMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      const overlay = overlayRef.current;
+      if (!drag || !overlay) return;
+      const rect = overlay.getBoundingClientRect();
+      const dx = ((e.clientX - drag.startX) / rect.width) * 1000;
+      const dy = ((e.clientY - drag.startY) / rect.height) * 1000;
+      setDraftBoxes(prev => new Map(prev).set(drag.index, adjustBox(drag.startBox, drag.handle, dy, dx)));
+    };
+    const handlePointerUp = () => {
+      dragRef.current = null;
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, []);
+
+  const startDrag = (e: React.PointerEvent, index: number, handle: BoxHandle) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusProduct(index);
+    const box = getBox(index);
+    if (readOnly || !box) return;
+    dragRef.current = { index, handle, startX: e.clientX, startY: e.clientY, startBox: box };
+  };
+
+  const handleAddBox = () => {
+    setDraftBoxes(prev => new Map(prev).set(focusedIndex, DEFAULT_BOX));
+  };
+
+  const handleResetBox = () => {
+    setDraftBoxes(prev => {
+      const next = new Map(prev);
+      next.delete(focusedIndex);
+      return next;
+    });
+  };
+
+  const handleRecrop = async (method: 'render' | 'native') => {
+    const box = getBox(focusedIndex);
+    const renderer = rendererRef.current;
+    if (!box || !renderer || !pageNumber) return;
+
+    setIsCropping(true);
+    setCropError(null);
+    try {
+      const image = method === 'native'
+        ? await renderer.extractImage(pageNumber, box)
+        : await renderer.renderCrop(pageNumber, box, 4.0);
+
+      if (!image) {
+        setCropError(method === 'native' ? t('reviewNoEmbeddedImage') : t('reviewCropFailed'));
+        return;
+      }
+
+      const imageFields = await postProcessCrop(image, imageProcessing);
+      onDataChange(data.map((product, index) =>
+        index === focusedIndex ? { ...product, box_2d: box, ...imageFields } : product
+      ));
+      handleResetBox();
+    } finally {
+      setIsCropping(false);
+    }
+  };
+
+  const focusedBox = getBox(focusedIndex);
+  const hasDraft = draftBoxes.has(focusedIndex);
+
+  const goToPage = (position: number) => {
+    const index = pages[position];
+    if (index !== undefined) setFocusedIndex(index);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in-fast" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl h-[92vh] flex flex-col border border-gray-700"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center px-4 py-3 border-b border-gray-700">
+          <div className="flex items-center space-x-3 min-w-0">
+            <h2 className="text-lg font-bold text-sky-400 truncate">{t('reviewTitle')}</h2>
+            <span className="text-sm text-gray-400 truncate">{sourcePdf} (p. {pageNumber})</span>
+          </div>
+          <div className="flex items-center space-x-2 text-xs">
+            <button
+              onClick={() => goToPage(currentPagePosition - 1)}
+              disabled={currentPagePosition <= 0}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-300 px-2 py-1 rounded"
+            >
+              {t('reviewPrevPage')}
+            </button>
+            <button
+              onClick={() => goToPage(currentPagePosition + 1)}
+              disabled={currentPagePosition >= pages.length - 1}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-300 px-2 py-1 rounded"
+            >
+              {t('reviewNextPage')}
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white p-1">
+              <XIcon />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-grow min-h-0">
+          {/* Source page with box overlay */}
+          <div className="flex-grow overflow-auto p-4 bg-gray-900/60">
+            {loadError ? (
+              <p className="text-red-400 text-sm">{loadError}</p>
+            ) : !pageImage ? (
+              <p className="text-gray-500 text-sm animate-pulse">{t('reviewRendering')}</p>
+            ) : (
+              <div ref={overlayRef} className="relative inline-block select-none w-full">
+                <img src={pageImage} alt={`${sourcePdf} p. ${pageNumber}`} className="w-full block" draggable={false} />
+                {pageProducts.map(({ product, index }, position) => {
+                  const box = getBox(index);
+                  if (!box) return null;
+                  const [ymin, xmin, ymax, xmax] = box;
+                  const isFocused = index === focusedIndex;
+
+                  return (
+                    <div
+                      key={index}
+                      onPointerDown={(e) => startDrag(e, index, 'move')}
+                      className={`absolute border-2 ${isFocused ? 'border-sky-400 bg-sky-400/10 z-10' : 'border-amber-400/80 hover:bg-amber-400/10'} ${readOnly ? 'cursor-pointer' : 'cursor-move'}`}
+                      style={{
+                        top: `${ymin / 10}%`,
+                        left: `${xmin / 10}%`,
+                        height: `${(ymax - ymin) / 10}%`,
+                        width: `${(xmax - xmin) / 10}%`,
+                      }}
+                    >
+                      <span className={`absolute -top-5 left-0 text-[10px] font-bold px-1 rounded whitespace-nowrap max-w-[12rem] truncate ${isFocused ? 'bg-sky-500 text-white' : 'bg-amber-400 text-gray-900'}`}>
+                        {position + 1}. {product.nome || t('resultsUnknownProduct')}
+                      </span>
+                      {isFocused && !readOnly && (['nw', 'ne', 'sw', 'se'] as BoxHandle[]).map(handle => (
+                        <span
+                          key={handle}
+                          onPointerDown={(e) => startDrag(e, index, handle)}
+                          className={`absolute w-3 h-3 bg-sky-400 border border-white rounded-sm
+                            ${handle.startsWith('n') ? '-top-1.5' : '-bottom-1.5'}
+                            ${handle.endsWith('w') ? '-left-1.5' : '-right-1.5'}
+                            ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                        />
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Products on this page */}
+          <div className="w-80 flex-shrink-0 border-l border-gray-700 flex flex-col">
+            <ul className="flex-grow overflow-y-auto p-3 space-y-2">
+              {pageProducts.map(({ product, index }, position) => (
+                <li
+                  key={index}
+                  ref={(el) => { if (el) cardRefs.current.set(index, el); else cardRefs.current.delete(index); }}
+                  onClick={() => focusProduct(index)}
+                  className={`flex gap-2 p-2 rounded border cursor-pointer transition-colors ${index === focusedIndex ? 'border-sky-500 bg-sky-900/20' : 'border-gray-700 bg-gray-900/50 hover:border-gray-500'}`}
+                >
+                  {product.imagem_produto_id ? (
+                    <StoredImage imageId={product.imagem_produto_id} render={url => (
+                      <img src={url} alt="" className="w-12 h-12 object-contain bg-black/30 rounded flex-shrink-0" />
+                    )} />
+                  ) : (
+                    <div className="w-12 h-12 bg-gray-700/50 rounded flex-shrink-0" />
+                  )}
+                  <div className="min-w-0 text-xs">
+                    <p className="font-bold text-gray-200 truncate">{position + 1}. {product.nome || t('resultsUnknownProduct')}</p>
+                    <p className="text-gray-500 truncate">{product.sku || product.codigo || '—'}</p>
+                    {!getBox(index) && <p className="text-amber-400">{t('reviewNoBox')}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {/* Box actions for the focused product */}
+            {!readOnly && pageImage && (
+              <div className="border-t border-gray-700 p-3 space-y-2 text-xs">
+                {!focusedBox ? (
+                  <button onClick={handleAddBox} className="w-full bg-gray-700 hover:bg-gray-600 text-white py-1.5 rounded">
+                    {t('reviewAddBox')}
+                  </button>
+                ) : (
+                  <>
+                    <p className="text-gray-400">{hasDraft ? t('reviewBoxChanged') : t('reviewBoxHint')}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => handleRecrop('render')}
+                        disabled={isCropping}
+                        className="bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white font-bold py-1.5 rounded"
+                      >
+                        {t('reviewRecropRender')}
+                      </button>
+                      <button
+                        onClick={() => handleRecrop('native')}
+                        disabled={isCropping}
+                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-1.5 rounded"
+                      >
+                        {t('reviewRecropNative')}
+                      </button>
+                    </div>
+                    {hasDraft && (
+                      <button onClick={handleResetBox} className="w-full text-gray-400 hover:text-white py-1">
+                        {t('reviewResetBox')}
+                      </button>
+                    )}
+                  </>
+                )}
+                {cropError && <p className="text-red-400">{cropError}</p>}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceReviewPanel;
@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { getImageUrl } from '../utils/imageStore';
+
+interface StoredImageProps {
+  imageId: string | null | undefined;
+  render: (url: string) => React.ReactNode;
+}
+
+/**
+ * Resolves an image of the image store to an object URL and renders it.
+ * Renders nothing while loading or when the image was released.
+ */
+const StoredImage: React.FC<StoredImageProps> = ({ imageId, render }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!imageId) return;
+    let isMounted = true;
+    getImageUrl(imageId).then(resolved => {
+      if (isMounted) setUrl(resolved);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [imageId]);
+
+  return url ? <>{render(url)}</> : null;
+};
+
+export default StoredImage;
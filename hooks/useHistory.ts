@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Undo/redo history on top of an externally owned value.
+ * Only changes made through `commit` are recorded; anything else
+ * (e.g. results streaming in during processing) should call `clear`.
+ */
+export const useHistory = <T,>(present: T, setPresent: (value: T) => void, limit: number = DEFAULT_LIMIT) => {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const commit = useCallback((next: T) => {
+    setPast(prev => [...prev, present].slice(-limit));
+    setFuture([]);
+    setPresent(next);
+  }, [present, setPresent, limit]);
+
+  const undo = useCallback((): T | undefined => {
+    if (past.length === 0) return undefined;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture(prev => [present, ...prev]);
+    setPresent(previous);
+    return previous;
+  }, [past, present, setPresent]);
+
+  const redo = useCallback((): T | undefined => {
+    if (future.length === 0) return undefined;
+    const next = future[0];
+    setFuture(future.slice(1));
+    setPast(prev => [...prev, present]);
+    setPresent(next);
+    return next;
+  }, [future, present, setPresent]);
+
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return {
+    commit,
+    undo,
+    redo,
+    clear,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+};
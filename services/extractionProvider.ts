@@ -0,0 +1,84 @@
+import { ImageInfo, ProductData } from '../types';
+
+/**
+ * A single page extraction request, already prepared for any model backend.
+ */
+export interface ExtractionRequest {
+  imageInfo: ImageInfo;
+  base64Data: string; // Raw JPEG bytes (no data URL prefix)
+  prompt: string; // Final prompt, including image instructions when enabled
+  extractImages: boolean;
+  fields: ProductFieldDefinition[]; // Schema of each product in the reply
+  signal?: AbortSignal; // Aborts the API call when the run is cancelled
+}
+
+/**
+ * Contract implemented by every model backend (Gemini, OpenAI-compatible...).
+ * Providers only talk to their API and return the raw text reply;
+ * parsing and mapping to ProductData is shared in extractionService.ts.
+ */
+export interface ExtractionProvider {
+  id: string;
+  model: string;
+  generate: (request: ExtractionRequest) => Promise<string | null | undefined>;
+}
+
+export type ProductFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * One field of the extraction schema. The same definition drives the model
+ * response schema, the result cards/grid and the export columns.
+ */
+export interface ProductFieldDefinition {
+  name: string; // Key in the model reply and in ProductData
+  type: ProductFieldType;
+  description: string;
+  required?: boolean;
+  enumValues?: string[]; // Allowed values, when the field is a closed list
+  label?: string; // Export column header; defaults to the name
+  group?: string; // Section of the result card ('main' sits next to the image); ungrouped fields go last
+}
+
+/**
+ * Fields requested from the model, aligned with Nuvemshop requirements.
+ * Shared so every provider asks for exactly the same shape.
+ */
+export const PRODUCT_FIELDS: ProductFieldDefinition[] = [
+  { name: 'nome', type: 'string', label: 'Nome', group: 'main', description: 'Product Name' },
+  { name: 'modelo', type: 'string', label: 'Modelo', group: 'identification', description: 'Product Model, Application, or Compatible Model.' },
+  { name: 'descricao', type: 'string', label: 'Descrição', group: 'main', description: 'Product Description' },
+  { name: 'codigo', type: 'string', label: 'Código', group: 'identification', description: 'Generic Code, Reference (Ref) or ID visible.' },
+  { name: 'sku', type: 'string', label: 'SKU', group: 'identification', description: 'Explicit SKU/Ref/Code found in text. DO NOT use Model Name. If not found, return null.' },
+  { name: 'codigo_barras', type: 'string', label: 'Código de barras', group: 'identification', description: 'Barcode / EAN / GTIN' },
+  { name: 'ncm', type: 'string', label: 'NCM', group: 'identification', description: 'NCM Code. Null if not explicitly found.' },
+  { name: 'categoria', type: 'string', label: 'Categoria', group: 'identification', description: 'Product Category' },
+
+  // Dimensions & Weight
+  { name: 'peso_kg', type: 'string', label: 'Peso (kg)', group: 'dimensions', description: 'Weight in KG' },
+  { name: 'altura_cm', type: 'string', label: 'Altura (cm)', group: 'dimensions', description: 'Height in CM' },
+  { name: 'largura_cm', type: 'string', label: 'Largura (cm)', group: 'dimensions', description: 'Width in CM' },
+  { name: 'comprimento_cm', type: 'string', label: 'Comprimento (cm)', group: 'dimensions', description: 'Length in CM' },
+
+  // Price list
+  { name: 'preco', type: 'number', label: 'Preço', group: 'pricing', description: 'Unit price as a plain number (e.g. 1234.56), without currency symbol. For price tables, the price of the smallest quantity.' },
+  { name: 'moeda', type: 'string', label: 'Moeda', group: 'pricing', description: 'ISO 4217 currency code of the price (e.g. BRL, USD).' },
+  { name: 'unidade_venda', type: 'string', label: 'Unidade de venda', group: 'pricing', description: 'Unit the price refers to (e.g. un, pç, cx c/ 12, kg, m).' },
+  { name: 'pedido_minimo', type: 'integer', label: 'Pedido mínimo', group: 'pricing', description: 'Minimum order quantity, in sale units.' },
+
+  // Google Shopping / Instagram
+  { name: 'mpn', type: 'string', label: 'MPN', group: 'marketing', description: 'Manufacturer Part Number' },
+  { name: 'faixa_etaria', type: 'string', label: 'Faixa Etária', group: 'marketing', description: 'Age Group (e.g. adult, child)' },
+  { name: 'sexo', type: 'string', label: 'Sexo', group: 'marketing', description: 'Gender (e.g. female, male, unisex)' },
+];
+
+export const SPECIFICATIONS_DESCRIPTION = 'Rows of the technical specification table of the product (e.g. Power, Voltage, RPM, Capacity), as key/value pairs with the label and value exactly as printed, including units. Empty list if there is none.';
+
+export const PRICE_TIERS_DESCRIPTION = 'Quantity price breaks (e.g. "10+ un: R$ 9,90"), as the minimum quantity and the unit price from that quantity on, as plain numbers. Empty list if the product has a single price.';
+
+export const CONTINUES_NEXT_DESCRIPTION = 'True when the product is cut off at the bottom of the page and continues on the next page (e.g. its spec or price table goes on).';
+
+export const CONTINUED_PREVIOUS_DESCRIPTION = 'True when this record is the rest of a product started on the previous page (e.g. spec or price rows at the top of the page without the product header).';
+
+export const FIELD_CONFIDENCE_DESCRIPTION = 'For each field you filled in: how sure you are of the value (0 = guess, 1 = clearly printed), the text you read it from exactly as printed, and its bounding box [ymin, xmin, ymax, xmax] (0-1000 scale) when you can locate it. Use low scores for small, blurry or partly hidden text and for values you inferred rather than read.';
+
+export const BOX_2D_DESCRIPTION = 'Bounding box [ymin, xmin, ymax, xmax] (0-1000 scale)';
@@ -0,0 +1,234 @@
+import { ApiKeyConfig, ImageInfo, PageOutcomeKind, ProductData, TextSpan } from '../types';
+import { ExtractionProvider, PRODUCT_FIELDS, ProductFieldDefinition } from './extractionProvider';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAIProvider } from './openaiService';
+import { createMockProvider, parseMockRecordings } from './mockService';
+import { normalizeSpecifications } from '../utils/specifications';
+import { normalizePriceTiers, parsePrice } from '../utils/pricing';
+import { checkCodesAgainstText, formatTextLayer } from '../utils/textLayer';
+import { normalizeFieldConfidence } from '../utils/confidence';
+import { createAbortError } from '../utils/scheduler';
+import { getImageBlob } from '../utils/imageStore';
+import { blobToBase64 } from '../utils/imageProcessing';
+
+// What is known about a page besides its image
+export interface PageExtractionContext {
+  previousPage?: string; // Summary of the previous page, when stitching (see utils/stitching.ts)
+  textLayer?: TextSpan[]; // The page's PDF text layer; empty for scanned pages
+  ocrText?: TextSpan[]; // Words read by OCR from a sharper render, for scanned pages
+}
+
+/**
+ * Helper function to extract valid JSON array from a potentially dirty string.
+ * LLMs often add conversational text before or after the JSON block.
+ */
+export const extractJsonArray = (text: string): any[] | null => {
+    if (!text) return null;
+
+    // 1. Try to find the first '[' and the last ']'
+    const firstBracket = text.indexOf('[');
+    const lastBracket = text.lastIndexOf(']');
+
+    if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
+        const potentialJson = text.substring(firstBracket, lastBracket + 1);
+        try {
+            return JSON.parse(potentialJson);
+        } catch (e) {
+            console.warn("Found brackets but failed to parse inner content", e);
+            // Fallback to cleaning markdown if simple extraction fails
+        }
+    }
+
+    // 2. Fallback: Remove markdown code blocks and try parsing the whole string
+    const cleanText = text.replace(/```json\n?|```/g, '').trim();
+    try {
+        const parsed = JSON.parse(cleanText);
+        if (Array.isArray(parsed)) return parsed;
+        return null;
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Creates the extraction provider selected in the settings modal.
+ * @param config The saved provider/API key configuration.
+ * @param apiKey The resolved Gemini API key (custom or default).
+ */
+export const createExtractionProvider = (config: ApiKeyConfig, apiKey: string): ExtractionProvider => {
+  if (config.provider === 'openai') {
+    return createOpenAIProvider(config.openaiBaseUrl, config.openaiModel, config.openaiKey);
+  }
+  if (config.provider === 'mock') {
+    return createMockProvider(parseMockRecordings(config.mockRecordings));
+  }
+  return createGeminiProvider(apiKey);
+};
+
+/**
+ * Turns the string fields of the schema into strings (or null) in a product sent by the model.
+ * Models often send codes and measures as JSON numbers, which string code further on can't handle.
+ */
+const coerceStringFields = (product: any, fields: ProductFieldDefinition[]): any => {
+  const coerced = { ...product };
+  for (const { name, type } of fields) {
+    if (type !== 'string' || !(name in coerced)) continue;
+    const value = coerced[name];
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      coerced[name] = String(value);
+    } else if (typeof value !== 'string') {
+      coerced[name] = null;
+    }
+  }
+  return coerced;
+};
+
+/**
+ * Extracts product data from a single page image using the given provider.
+ * @param imageInfo The image information for the page.
+ * @param prompt The prompt to guide the extraction.
+ * @param provider The model backend used for the extraction.
+ * @param extractImages Boolean to enable/disable image cropping instructions
+ * @param fields The extraction schema (defaults to the Nuvemshop fields).
+ * @param context The previous page summary and the page's text layer, sent along with the image.
+ * @param signal Cancels the model call.
+ * @returns A promise that resolves to an array of ProductData objects (without the cropped image bytes yet).
+ * @throws AUTH_ERROR, QUOTA_ERROR, EMPTY_RESPONSE or PARSE_ERROR prefixed errors (see getErrorOutcomeKind),
+ * or an AbortError when cancelled.
+ */
+export const extractProductDataFromPage = async (
+  imageInfo: ImageInfo,
+  prompt: string,
+  provider: ExtractionProvider,
+  extractImages: boolean,
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+  context: PageExtractionContext = {},
+  signal?: AbortSignal
+): Promise<ProductData[]> => {
+  const pageImage = await getImageBlob(imageInfo.imageId);
+  if (!pageImage || pageImage.type !== 'image/jpeg') {
+    throw new Error('Invalid page image. Expected a JPEG render.');
+  }
+  const base64Data = await blobToBase64(pageImage);
+
+  let finalPrompt = prompt;
+
+  // Instructions for strict Image Association and Uniqueness
+  if (extractImages) {
+      finalPrompt += `\n\nIMPORTANT INSTRUCTIONS FOR IMAGE EXTRACTION:
+      1. **Bounding Box**: For each product, detect the coordinates of its MAIN image. Return 'box_2d' as [ymin, xmin, ymax, xmax] (0-1000 scale).
+      2. **OBJECT ISOLATION (CRITICAL)**:
+         - EXCLUDE humans, models, hands, feet, or people operating the machine.
+         - EXCLUDE background scenery, floors, or walls.
+         - EXCLUDE floating text overlays, descriptions, or technical specs written on the page background.
+         - FOCUS ONLY on the mechanical equipment/part itself.
+      3. **Tight Fit**: The box must be TIGHT around the metal/plastic of the equipment.
+      4. **Uniqueness**: Select ONLY ONE image per product.`;
+  }
+
+  if (context.textLayer?.length) {
+      finalPrompt += `\n\nPDF TEXT LAYER (exact text printed on the page; [y, x] is its position on the 0-1000 scale used by box_2d):
+${formatTextLayer(context.textLayer)}
+      Copy codes, SKUs, barcodes and NCMs exactly as they appear in this text instead of reading them from the image.`;
+  }
+
+  if (context.ocrText?.length) {
+      finalPrompt += `\n\nOCR TEXT (words recognized from a high resolution scan of the page; [y, x] is their position on the 0-1000 scale used by box_2d):
+${formatTextLayer(context.ocrText)}
+      Use it to read small codes, SKUs, barcodes and NCMs. OCR can confuse similar characters (0/O, 1/I, 5/S, 8/B), so check each value against the image.`;
+  }
+
+  if (context.previousPage) {
+      finalPrompt += `\n\nCONTEXT FROM THE PREVIOUS PAGE:
+${context.previousPage}
+      If the top of this page continues that product (e.g. the rest of its spec or price table), return those rows as one record with "continuacao_da_pagina_anterior": true, reading the table with the same columns.`;
+  }
+
+  let jsonString: string | null | undefined;
+  try {
+    jsonString = await provider.generate({
+      imageInfo,
+      base64Data,
+      prompt: finalPrompt,
+      extractImages,
+      fields,
+      signal,
+    });
+  } catch (error) {
+    // Each SDK reports cancellation its own way
+    if (signal?.aborted) throw createAbortError();
+    console.error(`Error calling ${provider.id} API for page ${imageInfo.page}:`, error);
+
+    let errorMessage = `Failed to process page ${imageInfo.page}.`;
+    if (error instanceof Error) {
+      if (error.message.includes('401') || error.message.includes('API key')) {
+        throw new Error('AUTH_ERROR: The provided API Key is not valid.');
+      }
+      if (error.message.includes('429')) {
+         throw new Error('QUOTA_ERROR: API rate limit exceeded.');
+      }
+      errorMessage += ` ${error.message}`;
+    } else {
+      errorMessage += ` ${String(error)}`;
+    }
+    throw new Error(errorMessage);
+  }
+
+  if (!jsonString) {
+      console.warn(`Received empty response for page ${imageInfo.page}`);
+      throw new Error(`EMPTY_RESPONSE: The model returned no content for page ${imageInfo.page}.`);
+  }
+
+  const extractedData = extractJsonArray(jsonString);
+
+  if (!extractedData) {
+      console.error(`Failed to parse JSON for page ${imageInfo.page}. Raw content snippet:`, jsonString.substring(0, 100));
+      throw new Error(`PARSE_ERROR: Could not parse a JSON array from the response for page ${imageInfo.page}.`);
+  }
+
+  // Items that aren't objects (null, strings, nested arrays) can't be products
+  const replies = extractedData.filter((item: unknown) => !!item && typeof item === 'object' && !Array.isArray(item));
+  if (replies.length < extractedData.length) {
+      if (replies.length === 0) {
+          throw new Error(`PARSE_ERROR: The JSON array for page ${imageInfo.page} has no product objects.`);
+      }
+      console.warn(`Skipped ${extractedData.length - replies.length} items that are not objects on page ${imageInfo.page}`);
+  }
+
+  // Map to internal structure adding metadata
+  // Note: We do NOT crop images here anymore. We leave that to the main thread
+  // which has access to the high-res PDF document.
+  const productsWithOrigin: ProductData[] = replies.map(({ confianca_campos, ...reply }: any) => {
+      const product = coerceStringFields(reply, fields);
+      // Codes read from the image, checked against the exact text of the page
+      const evidencias = context.textLayer ? checkCodesAgainstText(product, context.textLayer, imageInfo.page) : undefined;
+      const confianca = normalizeFieldConfidence(confianca_campos, product, fields);
+      return {
+          ...product,
+          ...(product.preco !== undefined ? { preco: parsePrice(product.preco) } : {}),
+          faixas_preco: normalizePriceTiers(product.faixas_preco),
+          especificacoes: normalizeSpecifications(product.especificacoes),
+          ...(evidencias ? { evidencias } : {}),
+          ...(confianca ? { confianca } : {}),
+          imagem_produto_id: null, // Placeholder, will be filled by App.tsx
+          origem: {
+              source_pdf: imageInfo.filename.split('-page-')[0],
+              page: imageInfo.page,
+          },
+          imagens: [imageInfo]
+      };
+  });
+
+  return productsWithOrigin;
+};
+
+/**
+ * Maps an error thrown by extractProductDataFromPage to a page outcome.
+ */
+export const getErrorOutcomeKind = (error: any): PageOutcomeKind => {
+  const message: string = error?.message || '';
+  if (message.includes('EMPTY_RESPONSE')) return 'empty';
+  if (message.includes('PARSE_ERROR')) return 'parse_error';
+  if (message.includes('QUOTA_ERROR')) return 'quota_error';
+  return 'error';
+};
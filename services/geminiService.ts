@@ -1,193 +1,141 @@
-
 import { GoogleGenAI, Type } from '@google/genai';
-import { ImageInfo, ProductData } from '../types';
-
-type ExtractedProductData = Omit<ProductData, 'origem' | 'imagens'>;
+import { ExtractionProvider, ExtractionRequest, ProductFieldDefinition, ProductFieldType, BOX_2D_DESCRIPTION, CONTINUED_PREVIOUS_DESCRIPTION, CONTINUES_NEXT_DESCRIPTION, FIELD_CONFIDENCE_DESCRIPTION, PRICE_TIERS_DESCRIPTION, SPECIFICATIONS_DESCRIPTION } from './extractionProvider';
 
-/**
- * Helper function to extract valid JSON array from a potentially dirty string.
- * LLMs often add conversational text before or after the JSON block.
- */
-const extractJsonArray = (text: string): any[] | null => {
-    if (!text) return null;
-
-    // 1. Try to find the first '[' and the last ']'
-    const firstBracket = text.indexOf('[');
-    const lastBracket = text.lastIndexOf(']');
-
-    if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-        const potentialJson = text.substring(firstBracket, lastBracket + 1);
-        try {
-            return JSON.parse(potentialJson);
-        } catch (e) {
-            console.warn("Found brackets but failed to parse inner content", e);
-            // Fallback to cleaning markdown if simple extraction fails
-        }
-    }
+// Use Flash model for speed and cost efficiency
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
-    // 2. Fallback: Remove markdown code blocks and try parsing the whole string
-    const cleanText = text.replace(/```json\n?|```/g, '').trim();
-    try {
-        const parsed = JSON.parse(cleanText);
-        if (Array.isArray(parsed)) return parsed;
-        return null;
-    } catch (e) {
-        return null;
-    }
+const GEMINI_TYPES: Record<ProductFieldType, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
 };
 
 /**
- * Extracts product data from a single page image using the Gemini API.
- * @param imageInfo The image information for the page.
- * @param prompt The prompt to guide the extraction.
- * @param apiKey The API key for authenticating with the Gemini API.
- * @param extractImages Boolean to enable/disable image cropping instructions
- * @returns A promise that resolves to an array of ProductData objects (without the cropped image bytes yet).
+ * Builds the structured response schema from the extraction fields.
  */
-export const extractProductDataFromPage = async (
-  imageInfo: ImageInfo,
-  prompt: string,
-  apiKey: string,
-  extractImages: boolean
-): Promise<ProductData[]> => {
-  if (!apiKey) {
-    apiKey = process.env.API_KEY || '';
-    if (!apiKey) {
-      throw new Error('API Key is required. Please set it in the settings or as an environment variable.');
+const buildResponseSchema = (fields: ProductFieldDefinition[], extractImages: boolean) => {
+  const properties: Record<string, any> = {};
+  for (const field of fields) {
+    properties[field.name] = { type: GEMINI_TYPES[field.type], description: field.description };
+    if (field.enumValues?.length && field.type === 'string') {
+      properties[field.name].format = 'enum';
+      properties[field.name].enum = field.enumValues;
+    }
+    if (!field.required) {
+      properties[field.name].nullable = true;
     }
   }
+  const required = fields.filter(field => field.required).map(field => field.name);
 
-  const ai = new GoogleGenAI({ apiKey });
+  // Spec table rows
+  properties.especificacoes = {
+    type: Type.ARRAY,
+    description: SPECIFICATIONS_DESCRIPTION,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        key: { type: Type.STRING },
+        value: { type: Type.STRING },
+      },
+      required: ['key', 'value'],
+    },
+  };
 
-  // Use Flash model for speed and cost efficiency
-  const model = 'gemini-2.5-flash';
+  // Quantity price breaks
+  properties.faixas_preco = {
+    type: Type.ARRAY,
+    description: PRICE_TIERS_DESCRIPTION,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        min_quantity: { type: Type.NUMBER },
+        price: { type: Type.NUMBER },
+      },
+      required: ['min_quantity', 'price'],
+    },
+  };
 
-  if (!imageInfo.base64.startsWith('data:image/jpeg;base64,')) {
-    throw new Error('Invalid base64 image format. Expected JPEG.');
-  }
-  const base64Data = imageInfo.base64.split(',')[1];
+  // Products split across pages
+  properties.continua_na_proxima_pagina = { type: Type.BOOLEAN, description: CONTINUES_NEXT_DESCRIPTION, nullable: true };
+  properties.continuacao_da_pagina_anterior = { type: Type.BOOLEAN, description: CONTINUED_PREVIOUS_DESCRIPTION, nullable: true };
 
-  const imagePart = {
-    inlineData: {
-      mimeType: 'image/jpeg',
-      data: base64Data,
+  // Per-field confidence and source text
+  properties.confianca_campos = {
+    type: Type.ARRAY,
+    description: FIELD_CONFIDENCE_DESCRIPTION,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        campo: { type: Type.STRING, format: 'enum', enum: fields.map(field => field.name) },
+        confianca: { type: Type.NUMBER },
+        trecho: { type: Type.STRING, nullable: true },
+        box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER }, nullable: true },
+      },
+      required: ['campo', 'confianca'],
     },
   };
 
-  let finalPrompt = prompt;
-  
-  // Instructions for strict Image Association and Uniqueness
+  // Image Bounding Box
   if (extractImages) {
-      finalPrompt += `\n\nIMPORTANT INSTRUCTIONS FOR IMAGE EXTRACTION:
-      1. **Bounding Box**: For each product, detect the coordinates of its MAIN image. Return 'box_2d' as [ymin, xmin, ymax, xmax] (0-1000 scale).
-      2. **OBJECT ISOLATION (CRITICAL)**:
-         - EXCLUDE humans, models, hands, feet, or people operating the machine.
-         - EXCLUDE background scenery, floors, or walls.
-         - EXCLUDE floating text overlays, descriptions, or technical specs written on the page background.
-         - FOCUS ONLY on the mechanical equipment/part itself.
-      3. **Tight Fit**: The box must be TIGHT around the metal/plastic of the equipment.
-      4. **Uniqueness**: Select ONLY ONE image per product.`;
+    properties.box_2d = {
+      type: Type.ARRAY,
+      items: { type: Type.INTEGER },
+      description: BOX_2D_DESCRIPTION
+    };
   }
 
-  const textPart = {
-    text: finalPrompt,
-  };
-
-  // Schema aligned with Nuvemshop requirements
-  const responseSchema = {
+  return {
     type: Type.ARRAY,
-    description: "List of products found on the page with Nuvemshop specific fields.",
+    description: "List of products found on the page.",
     items: {
       type: Type.OBJECT,
-      properties: {
-        nome: { type: Type.STRING, description: "Product Name" },
-        modelo: { type: Type.STRING, description: "Product Model, Application, or Compatible Model." },
-        descricao: { type: Type.STRING, description: "Product Description" },
-        codigo: { type: Type.STRING, description: "Generic Code, Reference (Ref) or ID visible." },
-        sku: { type: Type.STRING, description: "Explicit SKU/Ref/Code found in text. DO NOT use Model Name. If not found, return null." },
-        codigo_barras: { type: Type.STRING, description: "Barcode / EAN / GTIN" },
-        ncm: { type: Type.STRING, description: "NCM Code. Null if not explicitly found." },
-        categoria: { type: Type.STRING, description: "Product Category" },
-        
-        // Dimensions & Weight
-        peso_kg: { type: Type.STRING, description: "Weight in KG" },
-        altura_cm: { type: Type.STRING, description: "Height in CM" },
-        largura_cm: { type: Type.STRING, description: "Width in CM" },
-        comprimento_cm: { type: Type.STRING, description: "Length in CM" },
-
-        // Google Shopping / Instagram
-        mpn: { type: Type.STRING, description: "Manufacturer Part Number" },
-        faixa_etaria: { type: Type.STRING, description: "Age Group (e.g. adult, child)" },
-        sexo: { type: Type.STRING, description: "Gender (e.g. female, male, unisex)" },
-
-        // Image Bounding Box
-        ...(extractImages ? {
-            box_2d: {
-                type: Type.ARRAY,
-                items: { type: Type.INTEGER },
-                description: "Bounding box [ymin, xmin, ymax, xmax] (0-1000 scale)"
-            }
-        } : {})
-      },
+      properties,
+      ...(required.length > 0 ? { required } : {}),
     },
   };
+};
+
+/**
+ * Creates an extraction provider backed by the Google Gemini API.
+ * @param apiKey The API key for authenticating with the Gemini API.
+ * @param model The Gemini model name.
+ */
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): ExtractionProvider => {
+  if (!apiKey) {
+    apiKey = process.env.API_KEY || '';
+    if (!apiKey) {
+      throw new Error('API Key is required. Please set it in the settings or as an environment variable.');
+    }
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async ({ base64Data, prompt, extractImages, fields, signal }: ExtractionRequest) => {
+    const imagePart = {
+      inlineData: {
+        mimeType: 'image/jpeg',
+        data: base64Data,
+      },
+    };
+
+    const textPart = {
+      text: prompt,
+    };
 
-  try {
     const response = await ai.models.generateContent({
       model: model,
       contents: { parts: [imagePart, textPart] },
       config: {
         responseMimeType: 'application/json',
-        responseSchema: responseSchema,
+        responseSchema: buildResponseSchema(fields, extractImages),
         temperature: 0.0, // Strict extraction
+        abortSignal: signal,
       },
     });
 
-    const jsonString = response.text;
-    
-    if (!jsonString) {
-        console.warn(`Received empty response for page ${imageInfo.page}`);
-        return [];
-    }
-
-    const extractedData = extractJsonArray(jsonString);
-
-    if (!extractedData) {
-        console.error(`Failed to parse JSON for page ${imageInfo.page}. Raw content snippet:`, jsonString.substring(0, 100));
-        return [];
-    }
-
-    // Map to internal structure adding metadata
-    // Note: We do NOT crop images here anymore. We leave that to the main thread 
-    // which has access to the high-res PDF document.
-    const productsWithOrigin: ProductData[] = extractedData.map((product: any) => {
-        return {
-            ...product,
-            imagem_produto_base64: null, // Placeholder, will be filled by App.tsx
-            origem: {
-                source_pdf: imageInfo.filename.split('-page-')[0],
-                page: imageInfo.page,
-            },
-            imagens: [imageInfo]
-        };
-    });
+    return response.text;
+  };
 
-    return productsWithOrigin;
-  } catch (error) {
-    console.error(`Error calling Gemini API for page ${imageInfo.page}:`, error);
-    
-    let errorMessage = `Failed to process page ${imageInfo.page}.`;
-    if (error instanceof Error) {
-      if (error.message.includes('401') || error.message.includes('API key')) {
-        throw new Error('AUTH_ERROR: The provided API Key is not valid.');
-      } 
-      if (error.message.includes('429')) {
-         throw new Error('QUOTA_ERROR: API rate limit exceeded.');
-      }
-      errorMessage += ` ${error.message}`;
-    } else {
-      errorMessage += ` ${String(error)}`;
-    }
-    throw new Error(errorMessage);
-  }
+  return { id: 'Gemini', model, generate };
 };
@@ -0,0 +1,47 @@
+import { ExtractionProvider, ExtractionRequest } from './extractionProvider';
+
+/**
+ * A recorded model reply for one page: either the raw text the model
+ * returned, or an error message to throw (e.g. "429 Too Many Requests").
+ */
+export type MockRecording = string | { error: string };
+
+// Keyed by ImageInfo.hash ("<file name>-<page number>")
+export type MockRecordings = Record<string, MockRecording>;
+
+/**
+ * Parses recordings from JSON text (as pasted in the settings modal).
+ */
+export const parseMockRecordings = (json: string): MockRecordings => {
+  if (!json.trim()) return {};
+
+  const parsed = JSON.parse(json);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Mock recordings must be a JSON object keyed by page hash.');
+  }
+  return parsed;
+};
+
+/**
+ * Creates an offline provider that replays recorded responses, so the whole
+ * pipeline can run deterministically without an API key.
+ * Pages without a recording behave like an empty model response.
+ * @param recordings The recorded replies keyed by ImageInfo.hash.
+ */
+export const createMockProvider = (recordings: MockRecordings): ExtractionProvider => {
+  const generate = async ({ imageInfo, signal }: ExtractionRequest) => {
+    signal?.throwIfAborted();
+    const recording = recordings[imageInfo.hash];
+
+    if (recording === undefined) {
+      console.warn(`No mock recording for page hash "${imageInfo.hash}"`);
+      return null;
+    }
+    if (typeof recording === 'object') {
+      throw new Error(recording.error);
+    }
+    return recording;
+  };
+
+  return { id: 'Mock', model: 'recorded', generate };
+};
@@ -0,0 +1,72 @@
+import OpenAI from 'openai';
+import { ExtractionProvider, ExtractionRequest, ProductFieldDefinition, BOX_2D_DESCRIPTION, CONTINUED_PREVIOUS_DESCRIPTION, CONTINUES_NEXT_DESCRIPTION, FIELD_CONFIDENCE_DESCRIPTION, PRICE_TIERS_DESCRIPTION, SPECIFICATIONS_DESCRIPTION } from './extractionProvider';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * Describes the expected JSON array in plain text.
+ * Not every OpenAI-compatible server (Ollama, vLLM...) supports `json_schema`
+ * response formats, so the shape is spelled out in the prompt instead.
+ */
+const buildFormatInstructions = (fields: ProductFieldDefinition[], extractImages: boolean): string => {
+  const lines = fields.map(field => {
+    const type = field.required ? field.type : `${field.type} or null`;
+    const values = field.enumValues?.length ? ` One of: ${field.enumValues.map(v => `"${v}"`).join(', ')}.` : '';
+    return `- "${field.name}": ${type}. ${field.description}${values}`;
+  });
+  lines.push(`- "especificacoes": array of {"key": string, "value": string}. ${SPECIFICATIONS_DESCRIPTION}`);
+  lines.push(`- "faixas_preco": array of {"min_quantity": number, "price": number}. ${PRICE_TIERS_DESCRIPTION}`);
+  lines.push(`- "continua_na_proxima_pagina": boolean or null. ${CONTINUES_NEXT_DESCRIPTION}`);
+  lines.push(`- "continuacao_da_pagina_anterior": boolean or null. ${CONTINUED_PREVIOUS_DESCRIPTION}`);
+  lines.push(`- "confianca_campos": array of {"campo": field name, "confianca": number 0-1, "trecho": string or null, "box_2d": array of 4 integers or null}. ${FIELD_CONFIDENCE_DESCRIPTION}`);
+  if (extractImages) {
+    lines.push(`- "box_2d": array of 4 integers. ${BOX_2D_DESCRIPTION}`);
+  }
+
+  return `\n\nRESPONSE FORMAT:
+Respond ONLY with a JSON array (no markdown, no commentary). Each item is an object with these keys:
+${lines.join('\n')}
+If no products are found, respond with [].`;
+};
+
+/**
+ * Creates an extraction provider for any OpenAI-compatible chat completions API.
+ * @param baseUrl The API base URL (e.g. http://localhost:11434/v1 for Ollama).
+ * @param model The vision-capable model name served by the endpoint.
+ * @param apiKey The API key. Local servers usually accept any value.
+ */
+export const createOpenAIProvider = (
+  baseUrl: string,
+  model: string,
+  apiKey: string
+): ExtractionProvider => {
+  const client = new OpenAI({
+    baseURL: baseUrl || DEFAULT_OPENAI_BASE_URL,
+    // The SDK refuses an empty key, but local servers don't check it
+    apiKey: apiKey || 'not-needed',
+    dangerouslyAllowBrowser: true,
+  });
+
+  const finalModel = model || DEFAULT_OPENAI_MODEL;
+
+  const generate = async ({ base64Data, prompt, extractImages, fields, signal }: ExtractionRequest) => {
+    const response = await client.chat.completions.create({
+      model: finalModel,
+      temperature: 0.0, // Strict extraction
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64Data}` } },
+            { type: 'text', text: prompt + buildFormatInstructions(fields, extractImages) },
+          ],
+        },
+      ],
+    }, { signal });
+
+    return response.choices[0]?.message?.content;
+  };
+
+  return { id: 'OpenAI-compatible', model: finalModel, generate };
+};
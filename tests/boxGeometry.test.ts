@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { adjustBox, boxIoU, clampBox, computeCropRegion, findImagePlacements, getImageBox, multiplyMatrix, Matrix, MAX_CANVAS_DIM, MIN_BOX_SIZE } from '../utils/boxGeometry';
+import { loadFixturePdf } from './helpers';
+
+describe('clampBox', () => {
+  it('clamps coordinates to the 0-1000 scale', () => {
+    expect(clampBox([-20, 10, 1200, 999])).toEqual([0, 10, 1000, 999]);
+  });
+});
+
+describe('computeCropRegion', () => {
+  it('maps boxes onto the fixture page sizes', async () => {
+    const pdf = await loadFixturePdf('catalog.pdf');
+    const regions = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1.0 });
+      regions.push(computeCropRegion([120, 80, 480, 520], viewport.width, viewport.height, 4.0));
+    }
+    await pdf.destroy();
+
+    await expect(JSON.stringify(regions, null, 2)).toMatchFileSnapshot('./golden/catalog.crops.json');
+  });
+
+  it('caps the scale so the canvas stays within MAX_CANVAS_DIM', () => {
+    const region = computeCropRegion([0, 0, 1000, 1000], 2000, 1000, 4.0)!;
+    expect(region.scale).toBeCloseTo(MAX_CANVAS_DIM / 2000);
+    expect(region.canvasWidth).toBeLessThanOrEqual(MAX_CANVAS_DIM);
+    expect(region.canvasHeight).toBeLessThanOrEqual(MAX_CANVAS_DIM);
+  });
+
+  it('returns null for empty boxes', () => {
+    expect(computeCropRegion([500, 500, 500, 800], 595, 842, 4.0)).toBeNull();
+    expect(computeCropRegion([500, 800, 900, 300], 595, 842, 4.0)).toBeNull();
+  });
+});
+
+describe('image placement', () => {
+  // A4 portrait, as page.getViewport({ scale: 1 }) reports it: PDF y points up, the viewport's down
+  const viewport: Matrix = [1, 0, 0, -1, 0, 842];
+  const ops = {
+    save: 10, restore: 11, transform: 12, paintFormXObjectBegin: 74, paintFormXObjectEnd: 75,
+    beginGroup: 76, endGroup: 77, paintImageXObject: 85, paintInlineImageXObject: 86,
+  };
+
+  it('maps the unit square of the image transform onto the page', () => {
+    // 297.5 x 421 points at the top-left quarter of the page
+    const ctm = multiplyMatrix(viewport, [297.5, 0, 0, 421, 0, 421]);
+    expect(getImageBox(ctm, 595, 842)).toEqual([0, 0, 500, 500]);
+  });
+
+  it('tracks the transform through save/restore and form XObjects', () => {
+    const placements = findImagePlacements(
+      [10, 12, 85, 11, 74, 12, 85, 75, 12, 86],
+      [
+        null,
+        [297.5, 0, 0, 421, 297.5, 0], // Bottom-right quarter
+        ['img_a', 100, 100],
+        null,
+        [[1, 0, 0, 1, 0, 421], [0, 0, 595, 421]], // Form moved to the top half
+        [297.5, 0, 0, 421, 0, 0],
+        ['img_b', 100, 100],
+        null,
+        [595, 0, 0, 842, 0, 0], // Back to the page transform: the whole page
+        [{ width: 10, height: 10 }],
+      ],
+      ops, viewport, 595, 842
+    );
+    expect(placements.map(p => p.box)).toEqual([[500, 500, 1000, 1000], [0, 0, 500, 500], [0, 0, 1000, 1000]]);
+    expect(placements[1].image).toBe('img_b');
+  });
+
+  it('scores boxes by intersection over union', () => {
+    expect(boxIoU([0, 0, 500, 500], [0, 0, 500, 500])).toBe(1);
+    expect(boxIoU([0, 0, 500, 500], [0, 250, 500, 750])).toBeCloseTo(1 / 3);
+    expect(boxIoU([0, 0, 100, 100], [200, 200, 300, 300])).toBe(0);
+  });
+});
+
+describe('adjustBox', () => {
+  const box: [number, number, number, number] = [100, 200, 300, 500];
+
+  it('moves the box without changing its size, staying inside the page', () => {
+    expect(adjustBox(box, 'move', 50, -100)).toEqual([150, 100, 350, 400]);
+    expect(adjustBox(box, 'move', 900, 900)).toEqual([800, 700, 1000, 1000]);
+  });
+
+  it('resizes from the dragged corner only', () => {
+    expect(adjustBox(box, 'se', 20, 30)).toEqual([100, 200, 320, 530]);
+    expect(adjustBox(box, 'nw', -20, -30)).toEqual([80, 170, 300, 500]);
+    expect(adjustBox(box, 'ne', 10, 10)).toEqual([110, 200, 300, 510]);
+    expect(adjustBox(box, 'sw', 10, 10)).toEqual([100, 210, 310, 500]);
+  });
+
+  it('never inverts the box or leaves the page', () => {
+    expect(adjustBox(box, 'se', -500, -500)).toEqual([100, 200, 100 + MIN_BOX_SIZE, 200 + MIN_BOX_SIZE]);
+    expect(adjustBox(box, 'nw', -500, -500)).toEqual([0, 0, 300, 500]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewQueue, confirmField, getFieldConfidence, normalizeFieldConfidence } from '../utils/confidence';
+import { validateProduct, validateProducts } from '../utils/validation';
+import { mergeProducts } from '../utils/dedupUtils';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { PRODUCT_FIELDS } from '../services/extractionProvider';
+import { updateProductField } from '../utils/gridUtils';
+import { makeImageInfo, makeProduct } from './helpers';
+
+describe('normalizeFieldConfidence', () => {
+  it('keeps entries of filled schema fields and scales percentages', () => {
+    const confidence = normalizeFieldConfidence([
+      { campo: 'sku', confianca: 45, trecho: ' Ref. FX2O0 ', box_2d: [120, 80, 140, 400] },
+      { campo: 'nome', confianca: 0.95 },
+      { campo: 'ncm', confianca: 0.2 },
+      { campo: 'inventado', confianca: 0.1 },
+      { campo: 'modelo', confianca: 'alta' },
+    ], { nome: 'Furadeira', sku: 'FX2O0', modelo: 'FX', ncm: null }, PRODUCT_FIELDS);
+
+    expect(confidence).toEqual({
+      sku: { value: 'FX2O0', score: 0.45, snippet: 'Ref. FX2O0', box: [120, 80, 140, 400] },
+      nome: { value: 'Furadeira', score: 0.95, snippet: null, box: null },
+    });
+    expect(normalizeFieldConfidence(undefined, {}, PRODUCT_FIELDS)).toBeUndefined();
+  });
+});
+
+describe('getFieldConfidence', () => {
+  const product = makeProduct({
+    nome: 'Furadeira',
+    sku: 'FX2O0',
+    codigo: 'FX200',
+    codigo_barras: '7891234567890',
+    confianca: {
+      nome: { value: 'Furadeira', score: 0.9, snippet: null, box: null },
+      sku: { value: 'FX2O0', score: 0.9, snippet: null, box: null },
+      codigo: { value: 'FX200', score: 0.3, snippet: null, box: null },
+    },
+    evidencias: {
+      sku: { value: 'FX2O0', matched: false, page: 1, text: 'Ref. FX200', box: null, suggestion: 'FX200' },
+      codigo: { value: 'FX200', matched: true, page: 1, text: 'Ref. FX200', box: null },
+    },
+  });
+  const issues = validateProduct(product);
+
+  it('combines the model score with the text layer and validation', () => {
+    expect(getFieldConfidence(product, 'nome', issues)).toBe(0.9);
+    expect(getFieldConfidence(product, 'sku', issues)).toBe(0.3);
+    expect(getFieldConfidence(product, 'codigo', issues)).toBe(1);
+    expect(getFieldConfidence(product, 'codigo_barras', issues)).toBe(0.2);
+    expect(getFieldConfidence(product, 'modelo', issues)).toBeNull();
+  });
+
+  it('trusts values edited or confirmed by the user', () => {
+    const [edited] = updateProductField([product], 0, 'sku', 'FX200');
+    expect(getFieldConfidence(edited, 'sku', validateProduct(edited))).toBe(1);
+    const confirmed = confirmField(product, 'sku', 'FX2O0');
+    expect(confirmed.confianca!.sku).toMatchObject({ value: 'FX2O0', reviewed: true });
+    expect(getFieldConfidence(confirmed, 'sku', validateProduct(confirmed))).toBe(1);
+  });
+});
+
+describe('buildReviewQueue', () => {
+  it('lists the low-confidence fields product by product, in schema order', () => {
+    const data = [
+      makeProduct({ nome: 'Furadeira', codigo: 'FX200', confianca: { codigo: { value: 'FX200', score: 0.4, snippet: null, box: null } } }),
+      makeProduct({ nome: 'Serra', codigo_barras: '7898765432109', preco: 10, confianca: { nome: { value: 'Serra', score: 0.5, snippet: null, box: null } } }),
+    ];
+    const queue = buildReviewQueue(data, PRODUCT_FIELDS, validateProducts(data));
+    expect(queue.map(item => [item.productIndex, item.field])).toEqual([[0, 'codigo'], [1, 'nome'], [1, 'codigo_barras']]);
+
+    // Confirming a number keeps its type
+    const confirmed = confirmField(data[1], 'preco', '10');
+    expect(confirmed.preco).toBe(10);
+  });
+
+  it('keeps the confidence of the values a merge keeps', () => {
+    const merged = mergeProducts([
+      makeProduct({ nome: 'Furadeira', confianca: { nome: { value: 'Furadeira', score: 0.4, snippet: null, box: null } } }),
+      makeProduct({ nome: 'Furadeira FX', sku: 'FX200', confianca: {
+        nome: { value: 'Furadeira FX', score: 0.9, snippet: null, box: null },
+        sku: { value: 'FX200', score: 0.5, snippet: null, box: null },
+      } }),
+    ]);
+    expect(merged.confianca).toEqual({
+      nome: { value: 'Furadeira', score: 0.4, snippet: null, box: null },
+      sku: { value: 'FX200', score: 0.5, snippet: null, box: null },
+    });
+  });
+});
+
+describe('extracted confidence', () => {
+  it('is read from the model reply into confianca', async () => {
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async () => '[{"nome": "Parafuso", "sku": "P-01", "confianca_campos": [{"campo": "sku", "confianca": 0.4, "trecho": "P-01"}]}]',
+    };
+    const [product] = await extractProductDataFromPage(makeImageInfo('catalog.pdf', 1), 'prompt', provider, false);
+    expect(product.confianca).toEqual({ sku: { value: 'P-01', score: 0.4, snippet: 'P-01', box: null } });
+    expect((product as any).confianca_campos).toBeUndefined();
+  });
+});
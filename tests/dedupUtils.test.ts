@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { applyMerges, mergeProducts, nameSimilarity, normalizeBarcode, normalizeCode, proposeMerges } from '../utils/dedupUtils';
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+import { makeImageInfo, makeProduct } from './helpers';
+
+describe('normalizeCode / normalizeBarcode', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(normalizeCode('ab-12.3')).toBe('AB123');
+    expect(normalizeCode(' AB 123 ')).toBe('AB123');
+    expect(normalizeCode('10')).toBeNull();
+  });
+
+  it('drops barcode padding so GTIN-13 and GTIN-14 forms match', () => {
+    expect(normalizeBarcode('07891234567895')).toBe(normalizeBarcode('789 1234 56789 5'));
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('scores identical names as 1 regardless of accents', () => {
+    expect(nameSimilarity('Furadeira de Impacto', 'furadeira de impácto')).toBe(1);
+  });
+
+  it('scores different products low', () => {
+    expect(nameSimilarity('Furadeira de Impacto', 'Serra Circular')).toBeLessThan(0.5);
+  });
+});
+
+describe('proposeMerges', () => {
+  it('groups products sharing a code across sku, codigo and mpn', () => {
+    const data = [
+      makeProduct({ nome: 'Furadeira', sku: 'FD-500' }, 1),
+      makeProduct({ nome: 'Serra', sku: 'SR-100' }, 1),
+      makeProduct({ nome: 'Furadeira 500W', codigo: 'fd500' }, 4),
+    ];
+    const proposals = proposeMerges(data);
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0].indices).toEqual([0, 2]);
+    expect(proposals[0].reason).toBe('code');
+    expect(proposals[0].conflicts).toEqual([{ field: 'nome', values: ['Furadeira', 'Furadeira 500W'] }]);
+  });
+
+  it('groups near-identical names only across pages', () => {
+    const data = [
+      makeProduct({ nome: 'Parafusadeira a Bateria', modelo: 'PB12' }, 2),
+      makeProduct({ nome: 'Parafusadeira a bateria', modelo: 'PB-12' }, 2),
+      makeProduct({ nome: 'Parafusadeira à Bateria', modelo: 'PB12' }, 7),
+    ];
+    const proposals = proposeMerges(data);
+    expect(proposals.map(p => p.indices)).toEqual([[0, 1, 2]]);
+    expect(proposals[0].reason).toBe('name');
+  });
+
+  it('never groups products with different barcodes or codes', () => {
+    const data = [
+      makeProduct({ nome: 'Chave Philips', sku: 'CP-3', codigo_barras: '7891234567895' }, 1),
+      makeProduct({ nome: 'Chave Philips', sku: 'CP-3', codigo_barras: '7891234567000' }, 2),
+      makeProduct({ nome: 'Chave Philips', sku: 'CP-4' }, 3),
+    ];
+    expect(proposeMerges(data)).toEqual([]);
+  });
+});
+
+describe('mergeProducts / applyMerges', () => {
+  const withCrop = {
+    ...makeProduct({ nome: 'Furadeira 500W', sku: 'FD-500', imagens: [makeImageInfo('catalog.pdf', 4)] }, 4),
+    box_2d: [10, 10, 200, 200] as [number, number, number, number],
+    imagem_produto_id: 'crop',
+  };
+  const data = [
+    makeProduct({ nome: 'Furadeira', sku: 'FD-500', peso_kg: '1.5', imagens: [makeImageInfo('catalog.pdf', 1)] }, 1),
+    makeProduct({ nome: 'Serra' }, 2),
+    withCrop,
+  ];
+
+  it('fills fields, merges origins and images and keeps the crop with its page', () => {
+    const merged = mergeProducts([data[0], data[2]], { nome: 'Furadeira 500W' });
+    expect(merged.nome).toBe('Furadeira 500W');
+    expect(merged.peso_kg).toBe('1.5');
+    expect(merged.origem.page).toBe(4);
+    expect(merged.box_2d).toEqual([10, 10, 200, 200]);
+    expect(merged.origens?.map(o => o.page)).toEqual([4, 1]);
+    expect(merged.imagens.map(img => img.page)).toEqual([1, 4]);
+  });
+
+  it('puts the merged record in place of the first product of the group', () => {
+    const result = applyMerges(data, [{ indices: [0, 2], choices: {} }]);
+    expect(result).toHaveLength(2);
+    expect(result[0].nome).toBe('Furadeira');
+    expect(result[1]).toBe(data[1]);
+  });
+
+  it('compares and fills the custom fields of the schema', () => {
+    const fields: ProductFieldDefinition[] = [...PRODUCT_FIELDS, { name: 'voltagem', type: 'string', description: 'Voltage' }];
+    const custom = [
+      { ...makeProduct({ nome: 'Furadeira', sku: 'FD-500' }, 1), voltagem: '127V' },
+      { ...makeProduct({ nome: 'Furadeira', sku: 'FD-500' }, 2), voltagem: '220V' },
+      makeProduct({ nome: 'Furadeira', sku: 'FD-500' }, 3),
+    ];
+    const [proposal] = proposeMerges(custom, fields);
+    expect(proposal.conflicts).toEqual([{ field: 'voltagem', values: ['127V', '220V'] }]);
+
+    const [merged] = applyMerges(custom, [{ indices: [0, 1, 2], choices: { voltagem: '220V' } }], fields);
+    expect((merged as any).voltagem).toBe('220V');
+    const [filled] = applyMerges([custom[2], custom[0]], [{ indices: [0, 1], choices: {} }], fields);
+    expect((filled as any).voltagem).toBe('127V');
+  });
+});
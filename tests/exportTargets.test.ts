@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ProductData } from '../types';
+import { EXPORT_ADAPTERS, getExportAdapter, getImageUrls, toDelimited } from '../utils/exportTargets';
+import { buildAdapterFile } from '../utils/exportUtils';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { createMockProvider } from '../services/mockService';
+import { loadRecordings, makeCrop, makeImageInfo, makeProduct } from './helpers';
+
+const loadProducts = async (): Promise<ProductData[]> => {
+  const provider = createMockProvider(loadRecordings('catalog.responses.json'));
+  const products: ProductData[] = [];
+  for (const page of [1, 2]) {
+    products.push(...await extractProductDataFromPage(makeImageInfo('catalog.pdf', page), 'prompt', provider, false));
+  }
+  products[0].imagem_produto_id = makeCrop();
+  return products;
+};
+
+const parseRows = (file: string, delimiter: string) => file.split('\n').map(line => line.split(delimiter));
+
+describe('toDelimited', () => {
+  it('quotes cells containing the delimiter, quotes or line breaks', () => {
+    expect(toDelimited(['a', 'b'], [['x;y', 'say "hi"']], ';')).toBe('a;b\n"x;y";"say ""hi"""');
+  });
+});
+
+describe('getImageUrls', () => {
+  it('prefixes the ZIP path with the base URL', () => {
+    const data = [makeProduct({}), makeProduct({})];
+    expect(getImageUrls(data, ['a.jpg', null], 'https://cdn.test/cat')).toEqual(['https://cdn.test/cat/images/a.jpg', null]);
+    expect(getImageUrls(data, ['a.jpg', null], '')).toEqual(['images/a.jpg', null]);
+  });
+});
+
+describe('export adapters', () => {
+  it.each(EXPORT_ADAPTERS.map(adapter => adapter.id))('%s matches its golden file', async (id) => {
+    const adapter = getExportAdapter(id)!;
+    const file = buildAdapterFile(await loadProducts(), adapter, { imageBaseUrl: 'https://cdn.test/', storeUrl: 'https://loja.test' });
+    await expect(file).toMatchFileSnapshot(`./golden/catalog.${id}.${adapter.fileName.split('.').pop()}`);
+  });
+
+  it('writes Shopify variants under one handle with a variant image', () => {
+    const data = [
+      { ...makeProduct({ nome: 'Luva Nitrílica P', modelo: 'LN-10', sku: 'LN-P' }), imagem_produto_id: makeCrop() },
+      makeProduct({ nome: 'Luva Nitrílica M', modelo: 'LN-10', sku: 'LN-M' }),
+    ];
+    const [header, ...rows] = parseRows(buildAdapterFile(data, getExportAdapter('shopify')!), ',');
+    const col = (row: string[], name: string) => row[header.indexOf(name)];
+    expect(rows.map(r => col(r, 'Handle'))).toEqual(['luva-nitrilica', 'luva-nitrilica']);
+    expect(rows.map(r => col(r, 'Option1 Value'))).toEqual(['P', 'M']);
+    expect(col(rows[0], 'Image Src')).toBe('images/LN_P_0.jpg');
+    expect(col(rows[0], 'Variant Image')).toBe('images/LN_P_0.jpg');
+  });
+
+  it('links WooCommerce variations to a variable parent', () => {
+    const data = [
+      makeProduct({ nome: 'Luva Nitrílica P', modelo: 'LN-10', sku: 'LN-P', categoria: 'EPI / Luvas' }),
+      makeProduct({ nome: 'Luva Nitrílica M', modelo: 'LN-10', sku: 'LN-M' }),
+    ];
+    const [header, ...rows] = parseRows(buildAdapterFile(data, getExportAdapter('woocommerce')!), ',');
+    const col = (row: string[], name: string) => row[header.indexOf(name)];
+    expect(rows.map(r => col(r, 'Type'))).toEqual(['variable', 'variation', 'variation']);
+    expect(col(rows[0], 'Categories')).toBe('EPI > Luvas');
+    expect(rows.slice(1).map(r => col(r, 'Parent'))).toEqual(['LN-10', 'LN-10']);
+  });
+
+  it('fills the Mercado Livre currency from the product, defaulting to BRL', () => {
+    const data = [makeProduct({ nome: 'Luva', sku: 'LN-P', moeda: 'usd' }), makeProduct({ nome: 'Serra', sku: 'SC-185' })];
+    const [header, ...rows] = parseRows(buildAdapterFile(data, getExportAdapter('mercadolivre')!), ';');
+    expect(rows.map(r => r[header.indexOf('Moeda')])).toEqual(['USD', 'BRL']);
+  });
+});
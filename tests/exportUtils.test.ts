@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ProductData } from '../types';
+import { convertToCSV, buildExportZip } from '../utils/exportUtils';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { createMockProvider } from '../services/mockService';
+import { loadRecordings, makeCrop, makeImageInfo } from './helpers';
+
+const loadProducts = async (): Promise<ProductData[]> => {
+  const provider = createMockProvider(loadRecordings('catalog.responses.json'));
+  const products: ProductData[] = [];
+  for (const page of [1, 2]) {
+    products.push(...await extractProductDataFromPage(makeImageInfo('catalog.pdf', page), 'prompt', provider, true));
+  }
+  return products;
+};
+
+describe('convertToCSV', () => {
+  it('returns an empty string for no data', () => {
+    expect(convertToCSV([], false)).toBe('');
+  });
+
+  it('matches the golden CSV', async () => {
+    const products = await loadProducts();
+    await expect(convertToCSV(products, false)).toMatchFileSnapshot('./golden/catalog.csv');
+  });
+});
+
+describe('buildExportZip', () => {
+  it('stores cropped images under images/ and references them in the CSV', async () => {
+    const products = await loadProducts();
+    products[0].imagem_produto_id = makeCrop();
+
+    const zip = await buildExportZip(products, 'csv');
+    expect(Object.keys(zip.files).sort()).toEqual(['catalog.csv', 'images/', 'images/10020_0.jpg']);
+
+    const csv = await zip.file('catalog.csv')!.async('string');
+    await expect(csv).toMatchFileSnapshot('./golden/catalog.zip.csv');
+  });
+
+  it('writes catalog.json for JSON exports', async () => {
+    const products = await loadProducts();
+    products[1].imagem_produto_id = makeCrop();
+
+    const zip = await buildExportZip(products, 'json');
+    const json = JSON.parse(await zip.file('catalog.json')!.async('string'));
+    expect(json[1].imagem_arquivo_nome).toBe('images/SC185_1.jpg');
+  });
+});
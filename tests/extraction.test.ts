@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractJsonArray, extractProductDataFromPage, getErrorOutcomeKind } from '../services/extractionService';
+import { createMockProvider } from '../services/mockService';
+import { loadFixturePdf, loadRecordings, makeImageInfo } from './helpers';
+
+describe('extractJsonArray', () => {
+  it('parses a clean array', () => {
+    expect(extractJsonArray('[{"nome": "A"}]')).toEqual([{ nome: 'A' }]);
+  });
+
+  it('strips conversational text and markdown fences', () => {
+    const text = 'Sure! Here it is:\n```json\n[{"nome": "A"}, {"nome": "B"}]\n```\nAnything else?';
+    expect(extractJsonArray(text)).toEqual([{ nome: 'A' }, { nome: 'B' }]);
+  });
+
+  it('returns null for non-array or broken replies', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(extractJsonArray('')).toBeNull();
+    expect(extractJsonArray('{"nome": "A"}')).toBeNull();
+    expect(extractJsonArray('[{"nome": "A",]')).toBeNull();
+  });
+});
+
+describe('extractProductDataFromPage with the mock provider', () => {
+  const recordings = loadRecordings('catalog.responses.json');
+  const provider = createMockProvider(recordings);
+
+  it('replays every page of the fixture catalog', async () => {
+    const pdf = await loadFixturePdf('catalog.pdf');
+    const products = [];
+    for (let page = 1; page <= pdf.numPages; page++) {
+      products.push(...await extractProductDataFromPage(makeImageInfo('catalog.pdf', page), 'prompt', provider, true));
+    }
+    await pdf.destroy();
+
+    await expect(JSON.stringify(products, null, 2)).toMatchFileSnapshot('./golden/catalog.products.json');
+  });
+
+  it('reports pages without a recording as EMPTY_RESPONSE', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(extractProductDataFromPage(makeImageInfo('other.pdf', 1), 'prompt', provider, false))
+      .rejects.toThrow('EMPTY_RESPONSE');
+  });
+
+  it('reports unparseable replies as PARSE_ERROR', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const garbled = createMockProvider({ 'other.pdf-1': 'Sorry, I cannot read this page.' });
+    await expect(extractProductDataFromPage(makeImageInfo('other.pdf', 1), 'prompt', garbled, false))
+      .rejects.toThrow('PARSE_ERROR');
+  });
+
+  it('skips items that are not objects and rejects arrays without any', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const mixed = createMockProvider({ 'other.pdf-1': '[null, {"nome": "Luva"}, "Bota"]' });
+    const products = await extractProductDataFromPage(makeImageInfo('other.pdf', 1), 'prompt', mixed, false);
+    expect(products.map(p => p.nome)).toEqual(['Luva']);
+
+    const none = createMockProvider({ 'other.pdf-1': '[null, 42]' });
+    await expect(extractProductDataFromPage(makeImageInfo('other.pdf', 1), 'prompt', none, false))
+      .rejects.toThrow('PARSE_ERROR');
+  });
+
+  it('accepts an empty array as a page without products', async () => {
+    const empty = createMockProvider({ 'other.pdf-1': '[]' });
+    expect(await extractProductDataFromPage(makeImageInfo('other.pdf', 1), 'prompt', empty, false)).toEqual([]);
+  });
+
+  it('turns numbers sent for string fields into strings', async () => {
+    const numeric = createMockProvider({ 'other.pdf-1': '[{"nome": "Luva", "sku": 1020, "codigo_barras": 7891234567895, "peso_kg": 1.5, "categoria": ["EPI"]}]' });
+    const [product] = await extractProductDataFromPage(makeImageInfo('other.pdf', 1), 'prompt', numeric, false);
+    expect(product).toMatchObject({ nome: 'Luva', sku: '1020', codigo_barras: '7891234567895', peso_kg: '1.5', categoria: null });
+  });
+
+  it('maps recorded rate limit errors to QUOTA_ERROR', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(extractProductDataFromPage(makeImageInfo('catalog.pdf', 3), 'prompt', provider, false))
+      .rejects.toThrow('QUOTA_ERROR');
+  });
+});
+
+describe('getErrorOutcomeKind', () => {
+  it('classifies extraction errors by prefix', () => {
+    expect(getErrorOutcomeKind(new Error('EMPTY_RESPONSE: nothing'))).toBe('empty');
+    expect(getErrorOutcomeKind(new Error('PARSE_ERROR: bad json'))).toBe('parse_error');
+    expect(getErrorOutcomeKind(new Error('QUOTA_ERROR: API rate limit exceeded.'))).toBe('quota_error');
+    expect(getErrorOutcomeKind(new Error('Failed to process page 3. Network down'))).toBe('error');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { BUILTIN_SCHEMA_PRESETS, cleanSchemaField, getFieldLabel, getSchemaPreset, parseSchemaPresets, validateSchemaFields } from '../utils/extractionSchema';
+import { convertToCSV } from '../utils/exportUtils';
+import { makeImageInfo, makeProduct } from './helpers';
+
+const field = (name: string, extra: Partial<ProductFieldDefinition> = {}): ProductFieldDefinition => ({ name, type: 'string', description: '', ...extra });
+
+describe('validateSchemaFields', () => {
+  it('accepts the built-in presets', () => {
+    BUILTIN_SCHEMA_PRESETS.forEach(preset => expect(validateSchemaFields(preset.fields)).toEqual([]));
+  });
+
+  it('reports missing, invalid, reserved and duplicate names', () => {
+    const errors = validateSchemaFields([field(''), field('Preço'), field('box_2d'), field('voltagem'), field('voltagem')]);
+    expect(errors).toEqual([
+      { index: 0, code: 'name_missing' },
+      { index: 1, code: 'name_invalid' },
+      { index: 2, code: 'name_reserved' },
+      { index: 4, code: 'name_duplicate' },
+    ]);
+    expect(validateSchemaFields([])).toEqual([{ index: -1, code: 'fields_empty' }]);
+  });
+});
+
+describe('cleanSchemaField', () => {
+  it('trims values and keeps enums only on text fields', () => {
+    expect(cleanSchemaField(field(' voltagem ', { enumValues: ['127V', ' 220V', '', '127V'] }))).toEqual(field('voltagem', { required: false, enumValues: ['127V', '220V'] }));
+    expect(cleanSchemaField(field('potencia', { type: 'number', enumValues: ['1'] })).enumValues).toBeUndefined();
+  });
+});
+
+describe('schema presets', () => {
+  it('drops malformed saved presets and falls back to the default', () => {
+    const saved = parseSchemaPresets(JSON.stringify([{ id: 'a', name: 'Mine', fields: [field('preco')], builtIn: true }, { id: 'b' }]));
+    expect(saved).toEqual([{ id: 'a', name: 'Mine', fields: [field('preco')], builtIn: false }]);
+    expect(parseSchemaPresets('not json')).toEqual([]);
+    expect(getSchemaPreset(saved, 'a').name).toBe('Mine');
+    expect(getSchemaPreset(saved, 'missing').fields).toBe(PRODUCT_FIELDS);
+  });
+
+  it('labels built-in fields by translation and custom ones by header', () => {
+    const t = (key: string) => key === 'field_sku' ? 'SKU code' : key;
+    expect(getFieldLabel(field('sku'), t)).toBe('SKU code');
+    expect(getFieldLabel(field('voltagem', { label: 'Voltagem' }), t)).toBe('Voltagem');
+    expect(getFieldLabel(field('preco'), t)).toBe('preco');
+  });
+});
+
+describe('custom schemas', () => {
+  it('sends the schema to the provider', async () => {
+    const fields = [field('nome'), field('voltagem', { enumValues: ['127V', '220V'] })];
+    let requested: ProductFieldDefinition[] = [];
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async (request: any) => {
+        requested = request.fields;
+        return '[{"nome": "Chuveiro", "voltagem": "220V"}]';
+      },
+    };
+    const [product] = await extractProductDataFromPage(makeImageInfo('catalog.pdf', 1), 'prompt', provider, false, fields);
+    expect(requested).toBe(fields);
+    expect((product as any).voltagem).toBe('220V');
+  });
+
+  it('exports one CSV column per schema field', () => {
+    const product = { ...makeProduct({ nome: 'Chuveiro' }), voltagem: '220V' };
+    const csv = convertToCSV([product], false, [field('nome', { label: 'Nome' }), field('voltagem')]);
+    expect(csv.split('\n')).toEqual(['Nome,voltagem,Origem PDF,Origem Pagina', 'Chuveiro,220V,catalog.pdf,1']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildGoogleItems, findMissingGoogleAttributes, toAgeGroup, toGender, toGoogleTsv, toGoogleXml } from '../utils/googleFeed';
+import { makeProduct } from './helpers';
+
+const context = { imageUrls: [], storeUrl: 'https://loja.test/produtos' };
+
+describe('Google enum mapping', () => {
+  it('maps Portuguese age groups and genders', () => {
+    expect(toAgeGroup('Infantil')).toBe('kids');
+    expect(toAgeGroup('Bebê')).toBe('infant');
+    expect(toAgeGroup('Adulto')).toBe('adult');
+    expect(toAgeGroup('Sênior')).toBe('');
+    expect(toGender('Feminino')).toBe('female');
+    expect(toGender('UNISSEX')).toBe('unisex');
+    expect(toGender(null)).toBe('');
+  });
+});
+
+describe('buildGoogleItems', () => {
+  it('keeps only valid GTINs and flags items without identifiers', () => {
+    const [valid, invalid] = buildGoogleItems([
+      makeProduct({ nome: 'Caneta Azul', codigo: 'CA-01', codigo_barras: '7891234567895' }),
+      makeProduct({ nome: 'Caneta Preta', codigo: 'CP-01', codigo_barras: '7898765432109' }),
+    ], context);
+    expect(valid.gtin).toBe('7891234567895');
+    expect(valid.identifier_exists).toBe('');
+    expect(invalid.gtin).toBe('');
+    expect(invalid.identifier_exists).toBe('no');
+    expect(valid.link).toBe('https://loja.test/produtos/caneta-azul');
+  });
+
+  it('groups variants under one item_group_id', () => {
+    const items = buildGoogleItems([
+      makeProduct({ nome: 'Luva Nitrílica P', modelo: 'LN-10', sku: 'LN-P' }),
+      makeProduct({ nome: 'Luva Nitrílica M', modelo: 'LN-10', sku: 'LN-M' }),
+    ], context);
+    expect(items.map(item => item.item_group_id)).toEqual(['LN-10', 'LN-10']);
+    expect(items.map(item => item.id)).toEqual(['LN-P', 'LN-M']);
+  });
+});
+
+describe('findMissingGoogleAttributes', () => {
+  it('reports required attributes and the missing identifier', () => {
+    const items = buildGoogleItems([makeProduct({ nome: 'Caneta Azul', codigo: 'CA-01' })], { imageUrls: [], storeUrl: '' });
+    const [report] = findMissingGoogleAttributes(items);
+    expect(report.id).toBe('CA-01');
+    expect(report.missing).toEqual(expect.arrayContaining(['link', 'image_link', 'price', 'brand']));
+    expect(report.missing).not.toContain('title');
+    // identifier_exists=no stands in for the GTIN/MPN
+    expect(report.missing).not.toContain('gtin/mpn');
+    expect(findMissingGoogleAttributes([{ ...items[0], identifier_exists: '' }])[0].missing).toContain('gtin/mpn');
+  });
+
+  it('takes the brand from the product or the export options', () => {
+    const items = buildGoogleItems([
+      makeProduct({ nome: 'Caneta Azul', codigo: 'CA-01', marca: 'Bic' } as any),
+      makeProduct({ nome: 'Caneta Preta', codigo: 'CP-01' }),
+    ], { ...context, brand: ' Loja Teste ' });
+    expect(items.map(item => item.brand)).toEqual(['Bic', 'Loja Teste']);
+    expect(findMissingGoogleAttributes(items).flatMap(report => report.missing)).not.toContain('brand');
+  });
+});
+
+describe('feed serialization', () => {
+  it('escapes XML and leaves out empty attributes', () => {
+    const xml = toGoogleXml([{ id: 'A&B', title: 'Fita <3m>' }], 'https://loja.test');
+    expect(xml).toContain('<g:id>A&amp;B</g:id>');
+    expect(xml).toContain('<g:title>Fita &lt;3m&gt;</g:title>');
+    expect(xml).not.toContain('<g:price>');
+  });
+
+  it('writes one TSV column per attribute without stray tabs', () => {
+    const [header, row] = toGoogleTsv([{ id: '1', description: 'linha 1\nlinha\t2' }]).split('\n');
+    expect(header.split('\t')).toHaveLength(row.split('\t').length);
+    expect(row).toContain('linha 1 linha 2');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { GridRow, filterRows, sortRows, updateProductField } from '../utils/gridUtils';
+import { makeProduct } from './helpers';
+
+const data = [
+  makeProduct({ nome: 'Serra Circular', sku: 'A10' }, 2),
+  makeProduct({ nome: 'Furadeira', sku: 'A2' }, 1),
+  makeProduct({ nome: 'Lixadeira Orbital', sku: null }, 3),
+];
+const rows: GridRow[] = data.map((product, index) => ({ index, product }));
+
+describe('filterRows', () => {
+  it('matches any column ignoring case and accents', () => {
+    expect(filterRows(rows, ['nome', 'sku'], 'SERRA').map(r => r.index)).toEqual([0]);
+    expect(filterRows(rows, ['nome'], 'orbitál').map(r => r.index)).toEqual([2]);
+    expect(filterRows(rows, ['nome'], '  ')).toBe(rows);
+  });
+
+  it('can match the source page', () => {
+    expect(filterRows(rows, ['page'], '3').map(r => r.index)).toEqual([2]);
+  });
+});
+
+describe('sortRows', () => {
+  it('sorts naturally and keeps empty values last', () => {
+    expect(sortRows(rows, { field: 'sku', direction: 'asc' }).map(r => r.index)).toEqual([1, 0, 2]);
+    expect(sortRows(rows, { field: 'sku', direction: 'desc' }).map(r => r.index)).toEqual([0, 1, 2]);
+  });
+
+  it('keeps the original order without a sort', () => {
+    expect(sortRows(rows, null)).toBe(rows);
+  });
+});
+
+describe('updateProductField', () => {
+  it('replaces a single field without mutating the input', () => {
+    const updated = updateProductField(data, 1, 'sku', ' B7 ');
+    expect(updated[1].sku).toBe('B7');
+    expect(data[1].sku).toBe('A2');
+    expect(updated[0]).toBe(data[0]);
+  });
+
+  it('stores empty input as null', () => {
+    expect(updateProductField(data, 0, 'nome', '   ')[0].nome).toBeNull();
+  });
+
+  it('stores numeric fields as numbers', () => {
+    expect(updateProductField(data, 0, 'preco', 'R$ 1.234,50', 'number')[0].preco).toBe(1234.5);
+    expect(updateProductField(data, 0, 'pedido_minimo', '12', 'integer')[0].pedido_minimo).toBe(12);
+    expect(updateProductField(data, 0, 'pedido_minimo', '1,5', 'integer')[0].pedido_minimo).toBe('1,5');
+    expect(updateProductField(data, 0, 'preco', 'sob consulta', 'number')[0].preco).toBe('sob consulta');
+  });
+});
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+// The legacy build runs under Node without a DOM or a worker URL
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { ImageInfo, ProductData } from '../types';
+import { MockRecordings, parseMockRecordings } from '../services/mockService';
+import { storeImage } from '../utils/imageStore';
+import { dataUrlToBlob } from '../utils/imageProcessing';
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Smallest valid JPEG header; providers never decode it in tests
+export const FAKE_JPEG = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ==';
+export const FAKE_PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+/**
+ * Loads a fixture PDF from tests/fixtures.
+ */
+export const loadFixturePdf = async (name: string) => {
+  const data = new Uint8Array(fs.readFileSync(path.join(FIXTURES_DIR, name)));
+  return pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+};
+
+/**
+ * Loads the recorded model replies stored next to a fixture PDF.
+ */
+export const loadRecordings = (name: string): MockRecordings => {
+  return parseMockRecordings(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8'));
+};
+
+/**
+ * Builds the ImageInfo a page render would produce, without rendering.
+ * The render is stored under a fixed ID so golden files stay stable.
+ */
+export const makeImageInfo = (filename: string, page: number): ImageInfo => ({
+  filename: `${filename}-page-${page}`,
+  page,
+  hash: `${filename}-${page}`,
+  imageId: storeImage(dataUrlToBlob(FAKE_JPEG), `${filename}-${page}`),
+});
+
+/**
+ * Stores FAKE_PNG in the image store as a product crop and returns its ID.
+ */
+export const makeCrop = (): string => storeImage(dataUrlToBlob(FAKE_PNG));
+
+/**
+ * Builds a product with every field empty except the given ones.
+ */
+export const makeProduct = (fields: Partial<ProductData>, page: number = 1): ProductData => ({
+  nome: null, modelo: null, descricao: null, codigo: null, sku: null, codigo_barras: null, ncm: null, categoria: null,
+  peso_kg: null, altura_cm: null, largura_cm: null, comprimento_cm: null, mpn: null, faixa_etaria: null, sexo: null,
+  origem: { source_pdf: 'catalog.pdf', page },
+  imagens: [],
+  ...fields,
+});
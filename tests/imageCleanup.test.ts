@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { PixelBuffer, findContentBounds, getOutputLayout, parseImageProcessingOptions, removeBackground, DEFAULT_IMAGE_PROCESSING } from '../utils/imageCleanup';
+import { MAX_CANVAS_DIM } from '../utils/boxGeometry';
+import { getImageFileName } from '../utils/exportUtils';
+import { makeProduct } from './helpers';
+
+type Color = [number, number, number, number];
+
+const WHITE: Color = [255, 255, 255, 255];
+const RED: Color = [200, 30, 30, 255];
+
+/**
+ * An image of the given background with filled rectangles on it.
+ */
+const makeImage = (width: number, height: number, background: Color, rects: [number, number, number, number, Color][] = []): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const rect = rects.find(([rx, ry, rw, rh]) => x >= rx && x < rx + rw && y >= ry && y < ry + rh);
+      data.set(rect ? rect[4] : background, (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const pixelAt = (image: PixelBuffer, x: number, y: number) => Array.from(image.data.slice((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+describe('removeBackground', () => {
+  it('flood-fills the border color but keeps the same color enclosed by the product', () => {
+    const gray: Color = [235, 235, 230, 255];
+    // A red frame with the background color inside it (the first rectangle wins)
+    const image = makeImage(20, 20, gray, [[8, 8, 4, 4, gray], [5, 5, 10, 10, RED]]);
+
+    const filled = removeBackground(image, 'transparent', 24);
+
+    expect(filled).toBe(20 * 20 - 10 * 10);
+    expect(pixelAt(image, 0, 0)[3]).toBe(0);
+    expect(pixelAt(image, 5, 5)).toEqual(RED);
+    expect(pixelAt(image, 9, 9)).toEqual(gray);
+  });
+
+  it('leaves crops without a plain background alone', () => {
+    // Stripes of many colors reaching every edge, like a photo
+    const rects = Array.from({ length: 10 }, (_, i): [number, number, number, number, Color] => [i * 2, 0, 2, 20, [i * 25, 100, 255 - i * 25, 255]]);
+    const image = makeImage(20, 20, WHITE, rects);
+    const before = Array.from(image.data);
+
+    expect(removeBackground(image, 'white', 24)).toBe(0);
+    expect(Array.from(image.data)).toEqual(before);
+  });
+});
+
+describe('findContentBounds', () => {
+  it('trims white and transparent space around the product', () => {
+    const image = makeImage(30, 20, WHITE, [[4, 6, 10, 5, RED], [0, 0, 30, 2, [0, 0, 0, 0]]]);
+    expect(findContentBounds(image, 10)).toEqual({ x: 4, y: 6, width: 10, height: 5 });
+    expect(findContentBounds(makeImage(5, 5, WHITE), 10)).toBeNull();
+  });
+});
+
+describe('getOutputLayout', () => {
+  it('centers the content on a square canvas of the target size', () => {
+    expect(getOutputLayout(400, 200, { trim: false, square: true, size: 1000 })).toEqual({
+      width: 1000, height: 1000, x: 0, y: 250, drawWidth: 1000, drawHeight: 500,
+    });
+  });
+
+  it('keeps a margin around trimmed content and caps the size', () => {
+    const trimmed = getOutputLayout(100, 100, { trim: true, square: false, size: 0 });
+    expect(trimmed).toEqual({ width: 106, height: 106, x: 3, y: 3, drawWidth: 100, drawHeight: 100 });
+
+    const capped = getOutputLayout(5000, 2500, { trim: false, square: false, size: 0 });
+    expect(capped.width).toBe(MAX_CANVAS_DIM);
+    expect(capped.height).toBe(MAX_CANVAS_DIM / 2);
+  });
+});
+
+describe('image processing options', () => {
+  it('fills saved options in with the defaults', () => {
+    expect(parseImageProcessingOptions('{"enabled":true,"format":"image/webp"}')).toEqual({ ...DEFAULT_IMAGE_PROCESSING, enabled: true, format: 'image/webp' });
+    expect(parseImageProcessingOptions('not json')).toEqual(DEFAULT_IMAGE_PROCESSING);
+  });
+
+  it('names WebP images with their own extension in exports', () => {
+    const product = makeProduct({ sku: 'LN-P' });
+    expect(getImageFileName(product, 0)).toBe('LN_P_0.jpg');
+    expect(getImageFileName({ ...product, imagem_produto_tipo: 'image/webp' }, 0)).toBe('LN_P_0.webp');
+  });
+});
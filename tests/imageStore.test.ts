@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getImageBlob, getLoadedImage, releaseImages, storeImage } from '../utils/imageStore';
+import { blobToBase64, dataUrlToBlob } from '../utils/imageProcessing';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { FAKE_JPEG, FAKE_PNG, makeImageInfo } from './helpers';
+
+describe('image store', () => {
+  it('keeps blobs by id until they are released', async () => {
+    const blob = dataUrlToBlob(FAKE_PNG);
+    const id = storeImage(blob);
+    expect(getLoadedImage(id)).toBe(blob);
+    await expect(getImageBlob(id)).resolves.toBe(blob);
+
+    releaseImages([id]);
+    expect(getLoadedImage(id)).toBeNull();
+    // Never saved with a job, so it is gone
+    await expect(getImageBlob(id)).resolves.toBeNull();
+  });
+
+  it('converts between data URLs and blobs', async () => {
+    const blob = dataUrlToBlob(FAKE_JPEG);
+    expect(blob.type).toBe('image/jpeg');
+    expect(`data:image/jpeg;base64,${await blobToBase64(blob)}`).toBe(FAKE_JPEG);
+  });
+
+  it('sends the stored page render to the model', async () => {
+    let image = '';
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async (request: any) => {
+        image = request.base64Data;
+        return '[]';
+      },
+    };
+    const imageInfo = makeImageInfo('catalog.pdf', 4);
+    await extractProductDataFromPage(imageInfo, 'prompt', provider, false);
+    expect(image).toBe(FAKE_JPEG.split(',')[1]);
+
+    releaseImages([imageInfo.imageId]);
+    await expect(extractProductDataFromPage(imageInfo, 'prompt', provider, false)).rejects.toThrow('Expected a JPEG render');
+  });
+});
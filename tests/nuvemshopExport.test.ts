@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ProductData } from '../types';
+import { DEFAULT_NUVEMSHOP_OPTIONS, NUVEMSHOP_HEADERS, buildNuvemshopRows, convertToNuvemshopCSV, groupVariants, slugify } from '../utils/nuvemshopExport';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { createMockProvider } from '../services/mockService';
+import { loadRecordings, makeImageInfo, makeProduct } from './helpers';
+
+const column = (row: string[], header: string) => row[NUVEMSHOP_HEADERS.indexOf(header)];
+
+describe('slugify', () => {
+  it('strips accents and punctuation', () => {
+    expect(slugify('Calça Jeans 42 (Azul)')).toBe('calca-jeans-42-azul');
+  });
+});
+
+describe('groupVariants', () => {
+  it('groups products sharing a modelo and splits the common name', () => {
+    const groups = groupVariants([
+      makeProduct({ nome: 'Camiseta Básica Azul', modelo: 'CB-01', sku: 'CB01-AZ' }),
+      makeProduct({ nome: 'Boné', modelo: 'BN' }),
+      makeProduct({ nome: 'Camiseta Básica Verde', modelo: 'cb01', sku: 'CB01-VD' }),
+    ]);
+    expect(groups.map(g => g.name)).toEqual(['Camiseta Básica', 'Boné']);
+    expect(groups[0].variants.map(v => v.value)).toEqual(['Azul', 'Verde']);
+    expect(groups[1].variants.map(v => v.value)).toEqual([null]);
+  });
+});
+
+describe('buildNuvemshopRows', () => {
+  const data = [
+    makeProduct({ nome: 'Camiseta Básica Azul', modelo: 'CB-01', sku: 'CB01-AZ', peso_kg: '200 g', descricao: 'Algodão' }),
+    makeProduct({ nome: 'Camiseta Básica Verde', modelo: 'CB-01', sku: 'CB01-VD' }),
+    makeProduct({ nome: 'Camiseta Básica', modelo: 'CB-02' }),
+  ];
+  const options = { ...DEFAULT_NUVEMSHOP_OPTIONS, variantProperty: 'Cor', price: '49.90', stock: '10' };
+
+  it('writes variant rows under the parent product', () => {
+    const rows = buildNuvemshopRows(data, options);
+    expect(rows).toHaveLength(3);
+    expect(rows.map(r => column(r, 'Identificador URL'))).toEqual(['camiseta-basica', 'camiseta-basica', 'camiseta-basica-2']);
+    expect(rows.map(r => column(r, 'Nome'))).toEqual(['Camiseta Básica', '', 'Camiseta Básica']);
+    expect(rows.map(r => column(r, 'Valor da variação 1'))).toEqual(['Azul', 'Verde', '']);
+    expect(column(rows[1], 'Nome da variação 1')).toBe('Cor');
+    expect(column(rows[1], 'Preço')).toBe('49.90');
+    expect(column(rows[1], 'SKU')).toBe('CB01-VD');
+  });
+
+  it('fills product-level columns on the parent row only', () => {
+    const [parent, variant] = buildNuvemshopRows(data, options);
+    expect(column(parent, 'Mostrar na loja')).toBe('SIM');
+    expect(column(parent, 'Título para SEO')).toBe('Camiseta Básica');
+    expect(column(parent, 'Descrição para SEO')).toBe('Algodão');
+    expect(column(parent, 'Peso (kg)')).toBe('0.2');
+    expect(column(variant, 'Mostrar na loja')).toBe('');
+    expect(column(variant, 'Descrição')).toBe('');
+  });
+});
+
+describe('convertToNuvemshopCSV', () => {
+  it('matches the golden import file', async () => {
+    const provider = createMockProvider(loadRecordings('catalog.responses.json'));
+    const products: ProductData[] = [];
+    for (const page of [1, 2]) {
+      products.push(...await extractProductDataFromPage(makeImageInfo('catalog.pdf', page), 'prompt', provider, false));
+    }
+    await expect(convertToNuvemshopCSV(products, DEFAULT_NUVEMSHOP_OPTIONS)).toMatchFileSnapshot('./golden/catalog.nuvemshop.csv');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildOcrSpans, hasTextLayer } from '../utils/ocr';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { makeImageInfo } from './helpers';
+
+const word = (text: string, confidence: number, x0: number, y0: number, x1: number, y1: number) => ({
+  text,
+  confidence,
+  bbox: { x0, y0, x1, y1 },
+});
+
+// Tesseract's result for a 2000x1000 render, with only the fields that are read
+const PAGE = {
+  blocks: [{
+    paragraphs: [{
+      lines: [
+        { words: [word('Ref.', 91, 100, 100, 180, 130), word('FX200', 88, 200, 100, 320, 130)] },
+        { words: [word('~', 12, 900, 500, 910, 520), word(' ', 95, 950, 500, 960, 520)] },
+      ],
+    }],
+  }],
+} as any;
+
+describe('hasTextLayer', () => {
+  it('treats pages with almost no text as scanned', () => {
+    expect(hasTextLayer([])).toBe(false);
+    expect(hasTextLayer([{ text: '12', box: [950, 480, 970, 520] }])).toBe(false);
+    expect(hasTextLayer([{ text: 'Furadeira de Impacto FX-200', box: [90, 80, 110, 500] }])).toBe(true);
+  });
+});
+
+describe('buildOcrSpans', () => {
+  it('keeps confident words with their box on the 0-1000 scale', () => {
+    expect(buildOcrSpans(PAGE, 2000, 1000)).toEqual([
+      { text: 'Ref.', box: [100, 50, 130, 90], confidence: 91 },
+      { text: 'FX200', box: [100, 100, 130, 160], confidence: 88 },
+    ]);
+    expect(buildOcrSpans({ blocks: null } as any, 2000, 1000)).toEqual([]);
+  });
+
+  it('sends the words to the model as OCR text', async () => {
+    let prompt = '';
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async (request: any) => {
+        prompt = request.prompt;
+        return '[{"codigo": "FX200"}]';
+      },
+    };
+    const ocrText = buildOcrSpans(PAGE, 2000, 1000);
+    const [product] = await extractProductDataFromPage(makeImageInfo('scan.pdf', 1), 'prompt', provider, false, undefined, { textLayer: [], ocrText });
+    expect(prompt).toContain('OCR TEXT');
+    expect(prompt).toContain('[100, 100] FX200');
+    expect(prompt).not.toContain('PDF TEXT LAYER');
+    expect(product.evidencias).toBeUndefined();
+  });
+});
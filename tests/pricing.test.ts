@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { applyPriceRule, applyPriceRuleToPrice, normalizePriceTiers, parsePrice } from '../utils/pricing';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { convertToCSV } from '../utils/exportUtils';
+import { DEFAULT_NUVEMSHOP_OPTIONS, buildNuvemshopRows, NUVEMSHOP_HEADERS } from '../utils/nuvemshopExport';
+import { buildGoogleItems } from '../utils/googleFeed';
+import { makeImageInfo, makeProduct } from './helpers';
+
+describe('parsePrice', () => {
+  it('reads printed prices in either notation', () => {
+    expect(parsePrice('R$ 1.234,56')).toBe(1234.56);
+    expect(parsePrice('US$ 12.90')).toBe(12.9);
+    expect(parsePrice('9,90 BRL')).toBe(9.9);
+    expect(parsePrice('R$ 1.500')).toBe(1500);
+    expect(parsePrice('1.50')).toBe(1.5);
+    expect(parsePrice(49)).toBe(49);
+    expect(parsePrice('sob consulta')).toBeNull();
+    expect(parsePrice(-1)).toBeNull();
+  });
+});
+
+describe('normalizePriceTiers', () => {
+  it('drops invalid breaks, keeps the first of repeated quantities and sorts them', () => {
+    expect(normalizePriceTiers([
+      { min_quantity: 50, price: '8,50' },
+      { min_quantity: 10, price: 9.9 },
+      { min_quantity: 10, price: 9.5 },
+      { min_quantity: 0, price: 7 },
+      { min_quantity: 100 },
+    ])).toEqual([{ min_quantity: 10, price: 9.9 }, { min_quantity: 50, price: 8.5 }]);
+    expect(normalizePriceTiers(null)).toEqual([]);
+  });
+});
+
+describe('price rules', () => {
+  it('applies markup, discount and x.90 rounding', () => {
+    expect(applyPriceRuleToPrice(10, { mode: 'markup', percent: 35, endWith90: false })).toBe(13.5);
+    expect(applyPriceRuleToPrice(10, { mode: 'discount', percent: 15, endWith90: false })).toBe(8.5);
+    expect(applyPriceRuleToPrice(13.5, { mode: 'none', percent: 0, endWith90: true })).toBe(13.9);
+    expect(applyPriceRuleToPrice(13.95, { mode: 'none', percent: 0, endWith90: true })).toBe(14.9);
+  });
+
+  it('adjusts prices and breaks, leaving the original data and unpriced products alone', () => {
+    const data = [
+      makeProduct({ nome: 'Parafuso', preco: 10, faixas_preco: [{ min_quantity: 100, price: 8 }] }),
+      makeProduct({ nome: 'Sem preço' }),
+    ];
+    const rule = { mode: 'markup' as const, percent: 50, endWith90: false };
+    const [priced, unpriced] = applyPriceRule(data, rule);
+    expect(priced.preco).toBe(15);
+    expect(priced.faixas_preco).toEqual([{ min_quantity: 100, price: 12 }]);
+    expect(unpriced).toBe(data[1]);
+    expect(data[0].preco).toBe(10);
+    expect(applyPriceRule(data, { ...rule, mode: 'none' })).toBe(data);
+  });
+});
+
+describe('extracted prices', () => {
+  it('parses printed prices and breaks from the model reply', async () => {
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async () => '[{"nome": "Parafuso", "preco": "R$ 12,90", "moeda": "BRL", "faixas_preco": [{"min_quantity": 100, "price": 10.5}]}]',
+    };
+    const [product] = await extractProductDataFromPage(makeImageInfo('catalog.pdf', 1), 'prompt', provider, false);
+    expect(product.preco).toBe(12.9);
+    expect(product.faixas_preco).toEqual([{ min_quantity: 100, price: 10.5 }]);
+  });
+
+  it('fills the price columns of the exports', () => {
+    const data = [makeProduct({ nome: 'Parafuso', preco: 12.9, moeda: 'usd', faixas_preco: [{ min_quantity: 100, price: 10.5 }] })];
+
+    const [row] = buildNuvemshopRows(data, DEFAULT_NUVEMSHOP_OPTIONS);
+    expect(row[NUVEMSHOP_HEADERS.indexOf('Preço')]).toBe('12.90');
+    const [fixed] = buildNuvemshopRows(data, { ...DEFAULT_NUVEMSHOP_OPTIONS, price: '15.00' });
+    expect(fixed[NUVEMSHOP_HEADERS.indexOf('Preço')]).toBe('15.00');
+
+    expect(buildGoogleItems(data, { imageUrls: [], storeUrl: '' })[0].price).toBe('12.90 USD');
+
+    const [header, values] = convertToCSV(data, false).split('\n');
+    expect(header).toContain(',Preço,Moeda,Unidade de venda,Pedido mínimo,');
+    expect(header).toContain(',Faixas de preço,Origem PDF,');
+    expect(values).toContain(',12.9,usd,,,');
+    expect(values).toContain(',100+: 10.50,catalog.pdf,');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { RenderRequest, RenderResponse, RenderWorkerPort, createRenderConnection, openWorkerRenderer } from '../utils/renderClient';
+
+/**
+ * Stands in for the render worker: records requests and lets the test reply.
+ */
+const createFakeWorker = () => {
+  const requests: RenderRequest[] = [];
+  let listener: ((event: MessageEvent<RenderResponse>) => void) | null = null;
+  const port: RenderWorkerPort = {
+    postMessage: request => { requests.push(request); },
+    addEventListener: (_type, handler) => { listener = handler; },
+    terminate: () => {},
+  };
+  const reply = (response: RenderResponse) => listener!({ data: response } as MessageEvent<RenderResponse>);
+  return { port, requests, reply };
+};
+
+describe('createRenderConnection', () => {
+  it('matches replies to their requests', async () => {
+    const { port, requests, reply } = createFakeWorker();
+    const call = createRenderConnection(port);
+
+    const first = call<number>({ type: 'pageText', docId: 'a', page: 1 });
+    const second = call<number>({ type: 'pageText', docId: 'a', page: 2 });
+    expect(requests.map(r => r.id)).toEqual([1, 2]);
+
+    reply({ id: 2, ok: true, result: 'two' });
+    reply({ id: 1, ok: false, error: 'Page 1 failed', aborted: false });
+    await expect(second).resolves.toBe('two');
+    await expect(first).rejects.toThrow('Page 1 failed');
+  });
+
+  it('cancels the command in the worker when the signal aborts', async () => {
+    const { port, requests, reply } = createFakeWorker();
+    const call = createRenderConnection(port);
+    const controller = new AbortController();
+
+    const render = call({ type: 'renderPage', docId: 'a', page: 3, scale: 4 }, controller.signal);
+    controller.abort();
+    await expect(render).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests[1]).toEqual({ type: 'cancel', id: 1 });
+
+    // The worker's late reply is ignored
+    reply({ id: 1, ok: false, error: 'cancelled', aborted: true });
+
+    await expect(call({ type: 'pageText', docId: 'a', page: 1 }, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('openWorkerRenderer', () => {
+  it('opens the document in the worker and addresses it by id', async () => {
+    const { port, requests, reply } = createFakeWorker();
+    const call = createRenderConnection(port);
+    const file = new File(['%PDF'], 'catalog.pdf');
+
+    const opening = openWorkerRenderer(call, file);
+    expect(requests[0]).toMatchObject({ type: 'open', file });
+    reply({ id: 1, ok: true, result: 2 });
+    const renderer = await opening;
+    expect(renderer.numPages).toBe(2);
+
+    const crop = renderer.renderCrop(1, [0, 0, 500, 500], 4);
+    const docId = (requests[0] as any).docId;
+    expect(requests[1]).toEqual({ type: 'renderCrop', docId, page: 1, box: [0, 0, 500, 500], scale: 4, id: 2 });
+    reply({ id: 2, ok: true, result: null });
+    await expect(crop).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createPauseGate, createRateLimiter, getBackoffDelay, runWithConcurrency, withRetry } from '../utils/scheduler';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('runWithConcurrency', () => {
+  it('never runs more than the given number of workers at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const seen: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      seen.push(item);
+      running--;
+    });
+
+    expect(maxRunning).toBe(3);
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('stops scheduling after a worker throws and rethrows the error', async () => {
+    const started: number[] = [];
+    await expect(runWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+      started.push(item);
+      if (item === 2) throw new Error('AUTH_ERROR');
+    })).rejects.toThrow('AUTH_ERROR');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('holds the queue while paused and resumes where it stopped', async () => {
+    const gate = createPauseGate();
+    const started: number[] = [];
+    const run = runWithConcurrency([1, 2, 3], 1, async (item) => {
+      started.push(item);
+      if (item === 1) gate.pause();
+    }, { gate });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(started).toEqual([1]);
+    expect(gate.isPaused()).toBe(true);
+
+    gate.resume();
+    await run;
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('does not start the items left when the signal aborts, even while paused', async () => {
+    const gate = createPauseGate();
+    const controller = new AbortController();
+    const started: number[] = [];
+    const run = runWithConcurrency([1, 2, 3], 1, async (item) => {
+      started.push(item);
+      gate.pause();
+    }, { gate, signal: controller.signal });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+    await run;
+    expect(started).toEqual([1]);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('delays requests beyond the per-minute budget', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(2);
+    const granted: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire().then(() => granted.push(i));
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it('does not limit when requestsPerMinute is 0', async () => {
+    const limiter = createRateLimiter(0);
+    await Promise.all(Array.from({ length: 100 }, () => limiter.acquire()));
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors with exponential backoff', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const delays: number[] = [];
+    let calls = 0;
+
+    const result = withRetry(async () => {
+      calls++;
+      if (calls < 3) throw new Error('QUOTA_ERROR');
+      return 'ok';
+    }, {
+      maxRetries: 5,
+      baseDelayMs: 1000,
+      shouldRetry: (err) => err.message.includes('QUOTA_ERROR'),
+      onRetry: (_err, _attempt, delay) => delays.push(delay),
+    });
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(delays).toEqual([1000, 2000]);
+  });
+
+  it('gives up after maxRetries or on non-retryable errors', async () => {
+    const shouldRetry = (err: Error) => err.message.includes('QUOTA_ERROR');
+
+    let calls = 0;
+    await expect(withRetry(async () => { calls++; throw new Error('QUOTA_ERROR'); }, { maxRetries: 2, baseDelayMs: 1, shouldRetry }))
+      .rejects.toThrow('QUOTA_ERROR');
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(withRetry(async () => { calls++; throw new Error('parse error'); }, { maxRetries: 2, baseDelayMs: 1, shouldRetry }))
+      .rejects.toThrow('parse error');
+    expect(calls).toBe(1);
+  });
+
+  it('stops waiting for the next attempt when the signal aborts', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      if (calls === 1) setTimeout(() => controller.abort(), 5);
+      throw new Error('QUOTA_ERROR');
+    }, { maxRetries: 3, baseDelayMs: 60_000, shouldRetry: () => true, signal: controller.signal });
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls).toBe(1);
+  });
+
+  it('caps the backoff delay', () => {
+    expect(getBackoffDelay(20, 1000, 30_000)).toBe(30_000);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { collectSpecificationKeys, getSpecificationColumns, getSpecificationValue, normalizeSpecifications } from '../utils/specifications';
+import { convertToCSV } from '../utils/exportUtils';
+import { mergeProducts } from '../utils/dedupUtils';
+import { makeProduct } from './helpers';
+
+const withSpecs = (nome: string, specs: Record<string, string>) => ({
+  ...makeProduct({ nome }),
+  especificacoes: Object.entries(specs).map(([key, value]) => ({ key, value })),
+});
+
+describe('normalizeSpecifications', () => {
+  it('accepts rows or a key/value object and drops empty or repeated keys', () => {
+    expect(normalizeSpecifications([
+      { key: 'Potência:', value: ' 650W ' },
+      { key: 'potencia', value: '700W' },
+      { key: 'RPM', value: '' },
+      { key: 'Tensão', value: 220 },
+      null,
+    ])).toEqual([{ key: 'Potência', value: '650W' }, { key: 'Tensão', value: '220' }]);
+    expect(normalizeSpecifications({ Capacidade: '5 L' })).toEqual([{ key: 'Capacidade', value: '5 L' }]);
+    expect(normalizeSpecifications(undefined)).toEqual([]);
+  });
+});
+
+describe('spec keys', () => {
+  const data = [
+    withSpecs('Furadeira', { 'Potência': '650W', 'Tensão': '127V' }),
+    withSpecs('Serra', { 'potencia': '1400W' }),
+    makeProduct({ nome: 'Sem specs' }),
+  ];
+
+  it('lists keys by frequency, matching case and accents', () => {
+    expect(collectSpecificationKeys(data)).toEqual([{ key: 'Potência', count: 2 }, { key: 'Tensão', count: 1 }]);
+    expect(getSpecificationValue(data[1], 'Potência')).toBe('1400W');
+    expect(getSpecificationValue(data[2], 'Potência')).toBeNull();
+  });
+
+  it('flattens chosen keys into CSV columns', () => {
+    const csv = convertToCSV(data, false, undefined, { mode: 'columns', keys: ['Potência'] });
+    const [header, first, second, third] = csv.split('\n');
+    expect(header).toContain(',Sexo,Potência,Origem PDF,');
+    expect(first).toContain(',650W,catalog.pdf,');
+    expect(second).toContain(',1400W,catalog.pdf,');
+    expect(third).toContain(',,catalog.pdf,');
+  });
+
+  it('writes every row as a JSON attribute', () => {
+    const [column] = getSpecificationColumns(data, { mode: 'json', keys: [] });
+    expect(column.header).toBe('Especificações');
+    expect(JSON.parse(column.value(data[0])!)).toEqual({ 'Potência': '650W', 'Tensão': '127V' });
+    expect(column.value(data[2])).toBeNull();
+  });
+
+  it('adds no columns when no product has specs', () => {
+    expect(getSpecificationColumns([makeProduct({})], { mode: 'json', keys: [] })).toEqual([]);
+  });
+});
+
+describe('merging duplicates', () => {
+  it('combines spec rows, keeping the first value of each key', () => {
+    const merged = mergeProducts([withSpecs('A', { 'Potência': '650W' }), withSpecs('A', { 'potência': '700W', RPM: '3000' })]);
+    expect(merged.especificacoes).toEqual([{ key: 'Potência', value: '650W' }, { key: 'RPM', value: '3000' }]);
+  });
+});
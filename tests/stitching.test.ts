@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { buildPageContext, isContinuationFragment, stitchPageStart } from '../utils/stitching';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { makeImageInfo, makeProduct } from './helpers';
+
+const withImage = (fields: Parameters<typeof makeProduct>[0], page: number) => ({
+  ...makeProduct(fields, page),
+  imagens: [makeImageInfo('catalog.pdf', page)],
+});
+
+describe('isContinuationFragment', () => {
+  it('accepts flagged records and records without a name or code', () => {
+    expect(isContinuationFragment(makeProduct({ nome: 'Furadeira', continuacao_da_pagina_anterior: true }))).toBe(true);
+    expect(isContinuationFragment(makeProduct({ especificacoes: [{ key: 'RPM', value: '3000' }] }))).toBe(true);
+    expect(isContinuationFragment(makeProduct({ codigo: 'FX200' }))).toBe(false);
+  });
+});
+
+describe('stitchPageStart', () => {
+  const head = withImage({
+    nome: 'Furadeira FX-200',
+    codigo: 'FX200',
+    continua_na_proxima_pagina: true,
+    especificacoes: [{ key: 'Potência', value: '650W' }],
+    faixas_preco: [{ min_quantity: 1, price: 199 }],
+  }, 12);
+
+  it('merges the leading fragments and keeps every page', () => {
+    const fragment = withImage({
+      continuacao_da_pagina_anterior: true,
+      peso_kg: '1,8',
+      especificacoes: [{ key: 'RPM', value: '3000' }],
+      faixas_preco: [{ min_quantity: 10, price: 179 }],
+    }, 13);
+    const next = withImage({ nome: 'Serra SC-185', codigo: 'SC185' }, 13);
+
+    const { merged, rest } = stitchPageStart(head, [fragment, next]);
+    expect(rest).toEqual([next]);
+    expect(merged).toMatchObject({
+      nome: 'Furadeira FX-200',
+      peso_kg: '1,8',
+      origem: { page: 12 },
+      especificacoes: [{ key: 'Potência', value: '650W' }, { key: 'RPM', value: '3000' }],
+      faixas_preco: [{ min_quantity: 1, price: 199 }, { min_quantity: 10, price: 179 }],
+    });
+    expect(merged!.continua_na_proxima_pagina).toBeUndefined();
+    expect(merged!.origens!.map(o => o.page)).toEqual([12, 13]);
+    expect(merged!.imagens.map(img => img.page)).toEqual([12, 13]);
+  });
+
+  it('leaves the page alone without a previous product or a fragment', () => {
+    const fragment = makeProduct({ continuacao_da_pagina_anterior: true }, 13);
+    expect(stitchPageStart(null, [fragment])).toEqual({ merged: null, rest: [fragment] });
+    const next = makeProduct({ nome: 'Serra SC-185' }, 13);
+    expect(stitchPageStart(head, [next])).toEqual({ merged: null, rest: [next] });
+  });
+
+  it('only follows the flag when the schema has no identity fields', () => {
+    const fields: ProductFieldDefinition[] = [
+      { name: 'titulo', type: 'string', description: 'Title' },
+      { name: 'preco', type: 'number', description: 'Price' },
+    ];
+    const first = { ...makeProduct({ preco: 10 }, 13), titulo: 'Serra SC-185' };
+    const second = { ...makeProduct({ preco: 20 }, 13), titulo: 'Lixadeira LX-90' };
+    expect(stitchPageStart(head, [first, second], fields)).toEqual({ merged: null, rest: [first, second] });
+
+    const fragment = makeProduct({ continuacao_da_pagina_anterior: true }, 13);
+    expect(stitchPageStart(head, [fragment, first], fields).rest).toEqual([first]);
+    expect(buildPageContext([first], fields)).toContain('Last product: unnamed');
+  });
+});
+
+describe('page context', () => {
+  it('summarizes the last product and the columns of the page', () => {
+    const context = buildPageContext([
+      makeProduct({ codigo: 'P-01', descricao: 'Parafuso', preco: 1.5 }),
+      makeProduct({ nome: 'Porca', codigo: 'P-02', continua_na_proxima_pagina: true, faixas_preco: [{ min_quantity: 100, price: 0.8 }] }),
+    ]);
+    expect(context).toContain('Last product: nome: Porca; codigo: P-02');
+    expect(context).toContain('price breaks so far: 100+ = 0.80');
+    expect(context).toContain('cut off at the bottom');
+    expect(context).toContain('nome, descricao, codigo, preco');
+    expect(buildPageContext([])).toBeNull();
+  });
+
+  it('is sent to the model with the page', async () => {
+    let prompt = '';
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async (request: any) => {
+        prompt = request.prompt;
+        return '[]';
+      },
+    };
+    await extractProductDataFromPage(makeImageInfo('catalog.pdf', 13), 'prompt', provider, false, undefined, { previousPage: '- Last product: nome: Porca' });
+    expect(prompt).toContain('CONTEXT FROM THE PREVIOUS PAGE:\n- Last product: nome: Porca');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildTextSpans, checkCodesAgainstText, formatTextLayer } from '../utils/textLayer';
+import { validateProduct } from '../utils/validation';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { TextSpan } from '../types';
+import { loadFixturePdf, makeImageInfo, makeProduct } from './helpers';
+
+const SPANS: TextSpan[] = [
+  { text: 'Ref. FX200 SKU 10020', box: [120, 80, 140, 400] },
+  { text: 'EAN 789 1234 567895 NCM 8467.21.00', box: [150, 80, 170, 600] },
+  { text: 'Furadeira de Impacto FX-200', box: [90, 80, 110, 500] },
+];
+
+describe('buildTextSpans', () => {
+  it('places the fixture text on the 0-1000 scale, top to bottom', async () => {
+    const pdf = await loadFixturePdf('catalog.pdf');
+    const page = await pdf.getPage(1);
+    const content = await page.getTextContent();
+    const spans = buildTextSpans(content.items, page.getViewport({ scale: 1 }));
+
+    const title = spans.find(span => span.text.includes('FX-200'))!;
+    const weight = spans.find(span => span.text.includes('Peso'))!;
+    expect(title).toBeDefined();
+    expect(title.box.every(value => value >= 0 && value <= 1000)).toBe(true);
+    expect(title.box[0]).toBeLessThan(title.box[2]);
+    expect(title.box[0]).toBeLessThan(weight.box[0]);
+  });
+});
+
+describe('formatTextLayer', () => {
+  it('lists the spans in reading order with their position', () => {
+    expect(formatTextLayer(SPANS).split('\n')).toEqual([
+      '[90, 80] Furadeira de Impacto FX-200',
+      '[120, 80] Ref. FX200 SKU 10020',
+      '[150, 80] EAN 789 1234 567895 NCM 8467.21.00',
+    ]);
+  });
+});
+
+describe('checkCodesAgainstText', () => {
+  it('matches codes printed with separators or spaces', () => {
+    const evidence = checkCodesAgainstText(makeProduct({ codigo: 'FX-200', sku: '10020', codigo_barras: '7891234567895', ncm: '84672100' }), SPANS, 1)!;
+    expect(evidence.codigo).toMatchObject({ value: 'FX-200', matched: true, page: 1, box: [120, 80, 140, 400] });
+    expect(evidence.codigo_barras.matched).toBe(true);
+    expect(evidence.ncm.matched).toBe(true);
+  });
+
+  it('suggests the text layer code for a misread and flags codes not found', () => {
+    const evidence = checkCodesAgainstText(makeProduct({ codigo_barras: '7891234667895', sku: 'ZZ-999' }), SPANS, 1)!;
+    expect(evidence.codigo_barras).toMatchObject({ matched: false, suggestion: '789 1234 567895' });
+    expect(evidence.sku).toEqual({ value: 'ZZ-999', matched: false, page: 1, text: null, box: null });
+  });
+
+  it('checks nothing without a text layer', () => {
+    expect(checkCodesAgainstText(makeProduct({ codigo: 'FX200' }), [], 1)).toBeUndefined();
+  });
+});
+
+describe('text layer issues', () => {
+  it('warns about unconfirmed codes until they are edited', () => {
+    const product = makeProduct({ codigo: 'FX2O0', sku: 'ZZ-999' });
+    product.evidencias = checkCodesAgainstText(product, SPANS, 1);
+
+    const issues = validateProduct(product).filter(issue => issue.code.startsWith('text_'));
+    expect(issues).toEqual([
+      { field: 'codigo', code: 'text_mismatch', severity: 'warning', value: 'FX2O0', suggestion: 'FX200' },
+      { field: 'sku', code: 'text_missing', severity: 'warning', value: 'ZZ-999' },
+    ]);
+    expect(validateProduct({ ...product, codigo: 'FX200', sku: '10020' }).filter(issue => issue.code.startsWith('text_'))).toEqual([]);
+  });
+
+  it('sends the text layer to the model and records the evidence', async () => {
+    let prompt = '';
+    const provider = {
+      id: 'Test',
+      model: 'test',
+      generate: async (request: any) => {
+        prompt = request.prompt;
+        return '[{"nome": "Furadeira de Impacto FX-200", "codigo": "FX200"}]';
+      },
+    };
+    const [product] = await extractProductDataFromPage(makeImageInfo('catalog.pdf', 1), 'prompt', provider, false, undefined, { textLayer: SPANS });
+    expect(prompt).toContain('PDF TEXT LAYER');
+    expect(prompt).toContain('[120, 80] Ref. FX200 SKU 10020');
+    expect(product.evidencias?.codigo).toMatchObject({ matched: true, text: 'Ref. FX200 SKU 10020' });
+  });
+});
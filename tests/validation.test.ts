@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { isValidGtin, normalizeProduct, parseLocaleNumber, parseMeasurement, validateProduct } from '../utils/validation';
+import { makeProduct } from './helpers';
+
+describe('isValidGtin', () => {
+  it('accepts valid GTIN-8/12/13/14 codes', () => {
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('036000291452')).toBe(true);
+    expect(isValidGtin('7891234567895')).toBe(true);
+    expect(isValidGtin('17891234567892')).toBe(true);
+  });
+
+  it('rejects bad check digits and lengths', () => {
+    expect(isValidGtin('7898765432109')).toBe(false);
+    expect(isValidGtin('789123456789')).toBe(false);
+    expect(isValidGtin('12345')).toBe(false);
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('reads Brazilian and international notation', () => {
+    expect(parseLocaleNumber('1,5')).toBe(1.5);
+    expect(parseLocaleNumber('1.234,56')).toBe(1234.56);
+    expect(parseLocaleNumber('1,234.56')).toBe(1234.56);
+    expect(parseLocaleNumber('1.234.567')).toBe(1234567);
+    expect(parseLocaleNumber('0.75')).toBe(0.75);
+  });
+
+  it('rejects text', () => {
+    expect(parseLocaleNumber('abc')).toBeNull();
+    expect(parseLocaleNumber('1,2,3')).toBeNull();
+  });
+});
+
+describe('parseMeasurement', () => {
+  it('converts units to kg and cm', () => {
+    expect(parseMeasurement('1,5 kg', 'weight')).toBe(1.5);
+    expect(parseMeasurement('500g', 'weight')).toBe(0.5);
+    expect(parseMeasurement('12 mm', 'length')).toBeCloseTo(1.2);
+    expect(parseMeasurement('1,2 m', 'length')).toBe(120);
+    expect(parseMeasurement('30', 'length')).toBe(30);
+  });
+
+  it('rejects unknown units and ranges', () => {
+    expect(parseMeasurement('3 parsecs', 'length')).toBeNull();
+    expect(parseMeasurement('7 1/4"', 'length')).toBeNull();
+    expect(parseMeasurement('2 kg', 'length')).toBeNull();
+  });
+});
+
+describe('validateProduct', () => {
+  it('reports errors and fixable warnings per field', () => {
+    const issues = validateProduct(makeProduct({
+      codigo_barras: '7898765432109',
+      ncm: '8467.21.00',
+      peso_kg: '1,8 kg',
+      altura_cm: 'aprox. dez',
+      largura_cm: '30',
+    }));
+    expect(issues).toEqual([
+      { field: 'codigo_barras', code: 'gtin_checksum', severity: 'error', value: '7898765432109' },
+      { field: 'ncm', code: 'value_normalized', severity: 'warning', value: '8467.21.00', suggestion: '84672100' },
+      { field: 'peso_kg', code: 'value_normalized', severity: 'warning', value: '1,8 kg', suggestion: '1.8' },
+      { field: 'altura_cm', code: 'number_invalid', severity: 'error', value: 'aprox. dez' },
+    ]);
+  });
+
+  it('flags NCM codes without 8 digits', () => {
+    expect(validateProduct(makeProduct({ ncm: '8467.21' }))[0].code).toBe('ncm_format');
+  });
+
+  it('reads codes and measures the model sent as numbers', () => {
+    const product = makeProduct({ codigo_barras: 7891234567895 as any, ncm: 84672100 as any, peso_kg: 1.5 as any, altura_cm: -3 as any });
+    expect(validateProduct(product)).toEqual([
+      { field: 'altura_cm', code: 'number_invalid', severity: 'error', value: '-3' },
+    ]);
+  });
+});
+
+describe('normalizeProduct', () => {
+  it('applies every suggestion and leaves errors untouched', () => {
+    const product = makeProduct({ ncm: '8467.21.00', peso_kg: '500 g', codigo_barras: '123' });
+    const normalized = normalizeProduct(product);
+    expect(normalized.ncm).toBe('84672100');
+    expect(normalized.peso_kg).toBe('0.5');
+    expect(normalized.codigo_barras).toBe('123');
+  });
+
+  it('returns the same object when nothing changes', () => {
+    const product = makeProduct({ peso_kg: '2' });
+    expect(normalizeProduct(product)).toBe(product);
+  });
+});
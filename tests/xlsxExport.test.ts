@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ProductData } from '../types';
+import { buildXlsxExport } from '../utils/exportUtils';
+import { columnName, getImageSize } from '../utils/xlsxExport';
+import { extractProductDataFromPage } from '../services/extractionService';
+import { createMockProvider } from '../services/mockService';
+import { loadRecordings, makeCrop, makeImageInfo, makeProduct } from './helpers';
+
+const loadProducts = async (): Promise<ProductData[]> => {
+  const provider = createMockProvider(loadRecordings('catalog.responses.json'));
+  const products: ProductData[] = [];
+  for (const page of [1, 2]) {
+    products.push(...await extractProductDataFromPage(makeImageInfo('catalog.pdf', page), 'prompt', provider, false));
+  }
+  products[0].imagem_produto_id = makeCrop();
+  return products;
+};
+
+const readPart = async (zip: any, path: string): Promise<string> => zip.file(path)!.async('string');
+
+describe('columnName', () => {
+  it('converts indexes to spreadsheet letters', () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+});
+
+describe('getImageSize', () => {
+  it('reads PNG and JPEG headers', () => {
+    const png = new Uint8Array(24);
+    png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    png.set([0, 0, 1, 44, 0, 0, 0, 200], 16);
+    expect(getImageSize(png)).toEqual({ width: 300, height: 200 });
+
+    // SOI, an APP0 segment, then SOF0 with height 120 and width 160
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 11, 8, 0, 120, 0, 160, 3, 0, 0, 0]);
+    expect(getImageSize(jpeg)).toEqual({ width: 160, height: 120 });
+    expect(getImageSize(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+
+  it('reads WebP headers', () => {
+    const webp = (chunk: string, data: number[]) => {
+      const bytes = new Uint8Array(30);
+      bytes.set([...'RIFF'].map(c => c.charCodeAt(0)));
+      bytes.set([...`WEBP${chunk}`].map(c => c.charCodeAt(0)), 8);
+      bytes.set(data, 20);
+      return bytes;
+    };
+    // Lossy: frame tag and start code, then 14-bit width and height
+    expect(getImageSize(webp('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, 0xb0, 0x04, 0x20, 0x03]))).toEqual({ width: 1200, height: 800 });
+    // Lossless: 14-bit width and height minus one, packed after the signature
+    expect(getImageSize(webp('VP8L', [0x2f, 0xaf, 0xc4, 0xc7, 0]))).toEqual({ width: 1200, height: 800 });
+    // Extended: 24-bit width and height minus one
+    expect(getImageSize(webp('VP8X', [0x10, 0, 0, 0, 0xaf, 0x04, 0, 0xaf, 0x04, 0]))).toEqual({ width: 1200, height: 1200 });
+  });
+});
+
+describe('buildXlsxExport', () => {
+  it('writes the three sheets and embeds images under the ZIP export names', async () => {
+    const zip = await buildXlsxExport(await loadProducts());
+    const workbook = await readPart(zip, 'xl/workbook.xml');
+    expect(workbook).toContain('name="Produtos"');
+    expect(workbook).toContain('name="Páginas"');
+    expect(workbook).toContain('name="Validação"');
+
+    expect(zip.file('xl/media/10020_0.jpg')).not.toBeNull();
+    const types = await readPart(zip, '[Content_Types].xml');
+    expect(types).toContain('<Override PartName="/xl/media/10020_0.jpg" ContentType="image/png"/>');
+
+    const drawing = await readPart(zip, 'xl/drawings/drawing1.xml');
+    expect(drawing.match(/<xdr:oneCellAnchor>/g)).toHaveLength(1);
+    expect(drawing).toContain('<xdr:row>1</xdr:row>');
+
+    const sheet = await readPart(zip, 'xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('images/10020_0.jpg');
+    expect(sheet).toContain('<drawing r:id="rId1"/>');
+  });
+
+  it('stores codes as text and measurements as numbers', async () => {
+    const zip = await buildXlsxExport([makeProduct({ nome: 'Parafuso', codigo_barras: '0012345678905', ncm: '73181500', peso_kg: '500 g' })]);
+    const sheet = await readPart(zip, 'xl/worksheets/sheet1.xml');
+    expect(sheet).toMatch(/<c r="G2" s="1" t="inlineStr"><is><t xml:space="preserve">0012345678905<\/t><\/is><\/c>/);
+    expect(sheet).toMatch(/<c r="H2" s="1" t="inlineStr"><is><t xml:space="preserve">73181500<\/t>/);
+    expect(sheet).toContain('<c r="J2"><v>0.5</v></c>');
+    expect(zip.file('xl/drawings/drawing1.xml')).toBeNull();
+  });
+
+  it('summarizes pages and lists validation issues', async () => {
+    const zip = await buildXlsxExport(await loadProducts());
+    const pages = await readPart(zip, 'xl/worksheets/sheet2.xml');
+    expect(pages).toContain('<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">catalog.pdf</t></is></c><c r="B2"><v>1</v></c><c r="C2"><v>1</v></c><c r="D2"><v>1</v></c>');
+
+    // The fixture's second product has a bad barcode check digit
+    const issues = await readPart(zip, 'xl/worksheets/sheet3.xml');
+    expect(issues).toContain('7898765432109');
+    expect(issues).toContain('Dígito verificador do código de barras inválido');
+  });
+});
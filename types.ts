@@ -1,13 +1,47 @@
+import type { ProductFieldDefinition } from './services/extractionProvider';
+
 export interface Specification {
   key: string;
   value: string;
 }
 
+// A quantity break: the unit price from a minimum quantity on
+export interface PriceTier {
+  min_quantity: number;
+  price: number;
+}
+
+// A run of text from the PDF text layer (or a word read by OCR), positioned like box_2d
+export interface TextSpan {
+  text: string;
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] in 1000 scale
+  confidence?: number; // OCR confidence (0-100); absent for the text layer
+}
+
+// Where an extracted value was checked against the page's text layer
+export interface FieldEvidence {
+  value: string; // Value that was checked; edits make the evidence stale
+  matched: boolean;
+  page: number;
+  text: string | null; // Span containing the value, or the closest one when it wasn't found
+  box: [number, number, number, number] | null;
+  suggestion?: string; // Text layer value the model most likely misread
+}
+
+// How sure the model was of an extracted value, and where it read it
+export interface FieldConfidence {
+  value: string; // Value it refers to; edits make it stale
+  score: number; // 0-1
+  snippet: string | null; // Text the value was read from, as printed
+  box: [number, number, number, number] | null; // Where the snippet is on the page (1000 scale)
+  reviewed?: boolean; // Confirmed by the user in the review queue
+}
+
 export interface ImageInfo {
   filename: string;
   page: number;
   hash: string;
-  base64: string;
+  imageId: string; // Page render in the image store (see utils/imageStore)
 }
 
 export interface Origin {
@@ -36,20 +70,57 @@ export interface ProductData {
   faixa_etaria: string | null;
   sexo: string | null;
 
+  // Price list; missing in results extracted before prices were requested
+  preco?: number | null;
+  moeda?: string | null; // ISO 4217 code, e.g. "BRL"
+  unidade_venda?: string | null; // e.g. "un", "cx c/ 12", "m"
+  pedido_minimo?: number | null;
+  faixas_preco?: PriceTier[]; // Quantity breaks, lowest quantity first
+
+  // Rows of the product's spec table (power, voltage, RPM...);
+  // missing in results extracted before specs were requested
+  especificacoes?: Specification[];
+
+  // Set by the model when the product is split across pages (see utils/stitching.ts)
+  continua_na_proxima_pagina?: boolean | null;
+  continuacao_da_pagina_anterior?: boolean | null;
+
+  // Code fields checked against the PDF text layer, by field name
+  evidencias?: Record<string, FieldEvidence>;
+
+  // Confidence reported by the model for each field, by field name
+  confianca?: Record<string, FieldConfidence>;
+
   // Image Extraction Data
   // [ymin, xmin, ymax, xmax] in 1000 scale
   box_2d?: [number, number, number, number] | null; 
-  imagem_produto_base64?: string | null;
+  imagem_produto_id?: string | null; // Crop in the image store
+  imagem_original_id?: string | null; // The crop before post-processing, for the before/after preview
+  imagem_produto_tipo?: string | null; // MIME type of post-processed images (JPEG or WebP)
   imagem_arquivo_nome?: string | null; // Used for export
 
   // Internal
   origem: Origin;
+  origens?: Origin[]; // Every page the product was found on, set when duplicates are merged
   imagens: ImageInfo[];
 }
 
+export type ProviderType = 'gemini' | 'openai' | 'mock';
+
 export interface ApiKeyConfig {
   mode: 'default' | 'custom';
   customKey: string;
+
+  // Extraction Provider
+  provider: ProviderType;
+  openaiBaseUrl: string; // Any OpenAI-compatible endpoint (OpenAI, Ollama, vLLM...)
+  openaiModel: string;
+  openaiKey: string; // Optional for local servers
+  mockRecordings: string; // JSON of recorded replies keyed by ImageInfo.hash
+
+  // Throughput
+  maxConcurrency: number; // Pages processed at the same time
+  requestsPerMinute: number; // 0 = unlimited
 }
 
 export type ProcessingStatus = 'idle' | 'rendering' | 'processing' | 'success' | 'error';
@@ -58,4 +129,63 @@ export interface ProcessingProgress {
   current: number;
   total: number;
   filename: string;
-}
\ No newline at end of file
+
+  // Page queue counters
+  inFlight: number;
+  done: number;
+  retrying: number;
+  failed: number;
+}
+
+// Post-processing of the product crops for marketplace listings (see utils/imageCleanup.ts)
+export interface ImageProcessingOptions {
+  enabled: boolean;
+  background: 'keep' | 'white' | 'transparent'; // Flood-filled from the edges of the crop
+  tolerance: number; // 0-255, how far from the background color a pixel still counts as background
+  trim: boolean; // Crop the surrounding whitespace
+  square: boolean; // Pad to a square canvas
+  size: number; // Longest side in pixels; 0 keeps the size of the crop
+  format: 'image/jpeg' | 'image/webp';
+  quality: number; // 0-1
+}
+
+export type JobStatus = 'running' | 'completed' | 'interrupted' | 'partial'; // partial: stopped by the user
+
+// A persisted extraction run, so it can be resumed after a reload or failure
+export interface ExtractionJob {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: JobStatus;
+  fileNames: string[];
+  selectedPages: Record<string, number[]>; // fileName -> sorted page numbers
+  prompt: string;
+  extractImages: boolean;
+  fields?: ProductFieldDefinition[]; // Extraction schema; jobs saved before schemas used the Nuvemshop fields
+  stitchPages?: boolean; // Merge products continued across consecutive pages
+  ocr?: boolean; // OCR pages without a text layer
+  imageProcessing?: ImageProcessingOptions; // Post-processing of the crops, when extracting images
+  totalPages: number;
+  completedPages: number;
+}
+
+// Checkpoint of one processed page inside a job
+export interface JobPageResult {
+  jobId: string;
+  fileName: string;
+  page: number;
+  products: ProductData[];
+  ocrText?: TextSpan[]; // Words read by OCR, for scanned pages
+  completedAt: number;
+}
+
+export type PageOutcomeKind = 'success' | 'empty' | 'parse_error' | 'quota_error' | 'render_error' | 'error';
+
+// What happened to one page of a run, shown in the processing report
+export interface PageOutcome {
+  fileName: string;
+  page: number;
+  kind: PageOutcomeKind;
+  productCount: number;
+  message?: string;
+}
@@ -0,0 +1,212 @@
+/**
+ * Pure box/crop math shared by the PDF rendering code.
+ * Kept free of PDF.js and DOM dependencies so it can be tested in isolation.
+ */
+
+// Safety Cap for canvas dimensions (browsers crash on huge canvases)
+export const MAX_CANVAS_DIM = 4096;
+
+type Box = [number, number, number, number];
+
+export interface CropRegion {
+  // Crop rectangle in unscaled page units (PDF points)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Scale actually used after applying the canvas size cap
+  scale: number;
+  // Output canvas size in pixels
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+/**
+ * Clamps a [ymin, xmin, ymax, xmax] box to the 0-1000 scale.
+ */
+export const clampBox = (box_2d: [number, number, number, number]): [number, number, number, number] => {
+  return box_2d.map(v => Math.max(0, Math.min(1000, v))) as [number, number, number, number];
+};
+
+/**
+ * Converts a 0-1000 box into a crop rectangle on a page of the given size,
+ * capping the scale so the resulting canvas never exceeds maxDim.
+ * @returns The crop region, or null if the box is empty.
+ */
+export const computeCropRegion = (
+  box_2d: [number, number, number, number],
+  pageWidth: number,
+  pageHeight: number,
+  scale: number,
+  maxDim: number = MAX_CANVAS_DIM
+): CropRegion | null => {
+  const [ymin, xmin, ymax, xmax] = clampBox(box_2d);
+
+  const x = (xmin / 1000) * pageWidth;
+  const y = (ymin / 1000) * pageHeight;
+  const width = ((xmax - xmin) / 1000) * pageWidth;
+  const height = ((ymax - ymin) / 1000) * pageHeight;
+
+  if (width <= 0 || height <= 0) return null;
+
+  let finalScale = scale;
+  if ((width * finalScale) > maxDim) {
+      finalScale = maxDim / width;
+  }
+  if ((height * finalScale) > maxDim) {
+      finalScale = maxDim / height;
+  }
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    scale: finalScale,
+    canvasWidth: Math.floor(width * finalScale),
+    canvasHeight: Math.floor(height * finalScale),
+  };
+};
+
+// Affine transform [a, b, c, d, e, f], as in PDF content streams and PDF.js
+export type Matrix = [number, number, number, number, number, number];
+
+/**
+ * Concatenates two transforms: points go through m2 first, then m1 (like PDF.js Util.transform).
+ */
+export const multiplyMatrix = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+/**
+ * Where an image lands on the page: images are painted into the unit square of
+ * their transform. The matrix must already include the viewport transform.
+ * @returns The 0-1000 box of the painted area, clamped to the page.
+ */
+export const getImageBox = (matrix: Matrix, pageWidth: number, pageHeight: number): Box => {
+  const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([u, v]) => [
+    matrix[0] * u + matrix[2] * v + matrix[4],
+    matrix[1] * u + matrix[3] * v + matrix[5],
+  ]);
+  const xs = corners.map(([x]) => (x / pageWidth) * 1000);
+  const ys = corners.map(([, y]) => (y / pageHeight) * 1000);
+  return clampBox([Math.min(...ys), Math.min(...xs), Math.max(...ys), Math.max(...xs)]);
+};
+
+/**
+ * Intersection over union of two boxes, 0 (disjoint) to 1 (identical).
+ */
+export const boxIoU = (a: Box, b: Box): number => {
+  const height = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const width = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  if (height <= 0 || width <= 0) return 0;
+  const intersection = height * width;
+  const area = (box: Box) => (box[2] - box[0]) * (box[3] - box[1]);
+  return intersection / (area(a) + area(b) - intersection);
+};
+
+// Codes of the PDF.js operators (pdfjsLib.OPS) that move or paint images
+export interface ImageOperatorCodes {
+  save: number;
+  restore: number;
+  transform: number;
+  paintFormXObjectBegin: number;
+  paintFormXObjectEnd: number;
+  beginGroup: number;
+  endGroup: number;
+  paintImageXObject: number;
+  paintInlineImageXObject: number;
+}
+
+export interface ImagePlacement {
+  image: any; // Object ID of an image XObject, or the decoded data of an inline image
+  box: Box; // Painted area on the page (1000 scale)
+}
+
+/**
+ * Walks a page's operator list keeping the current transformation matrix (CTM)
+ * through save/restore, transform and form XObjects, and records where each image is painted.
+ * @param viewportTransform page.getViewport({ scale: 1 }).transform
+ */
+export const findImagePlacements = (
+  fnArray: number[],
+  argsArray: any[],
+  ops: ImageOperatorCodes,
+  viewportTransform: Matrix,
+  pageWidth: number,
+  pageHeight: number
+): ImagePlacement[] => {
+  const placements: ImagePlacement[] = [];
+  const stack: Matrix[] = [];
+  let ctm = viewportTransform;
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case ops.save:
+      case ops.beginGroup: // The group's matrix only places it on the backdrop, not its content
+        stack.push(ctm);
+        break;
+      case ops.restore:
+      case ops.endGroup:
+      case ops.paintFormXObjectEnd:
+        ctm = stack.pop() || ctm;
+        break;
+      case ops.transform:
+        ctm = multiplyMatrix(ctm, args as Matrix);
+        break;
+      case ops.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (args[0]) ctm = multiplyMatrix(ctm, args[0]);
+        break;
+      case ops.paintImageXObject:
+      case ops.paintInlineImageXObject:
+        placements.push({ image: args[0], box: getImageBox(ctm, pageWidth, pageHeight) });
+        break;
+    }
+  }
+  return placements;
+};
+
+export type BoxHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Smallest box the user can resize to, in 0-1000 units
+export const MIN_BOX_SIZE = 10;
+
+/**
+ * Applies a drag of (dy, dx) in 0-1000 units to a box.
+ * "move" translates the box inside the page; corner handles resize it.
+ */
+export const adjustBox = (
+  box_2d: [number, number, number, number],
+  handle: BoxHandle,
+  dy: number,
+  dx: number
+): [number, number, number, number] => {
+  let [ymin, xmin, ymax, xmax] = box_2d;
+
+  if (handle === 'move') {
+    const height = ymax - ymin;
+    const width = xmax - xmin;
+    ymin = Math.max(0, Math.min(1000 - height, ymin + dy));
+    xmin = Math.max(0, Math.min(1000 - width, xmin + dx));
+    return [Math.round(ymin), Math.round(xmin), Math.round(ymin + height), Math.round(xmin + width)];
+  }
+
+  if (handle === 'nw' || handle === 'ne') {
+    ymin = Math.max(0, Math.min(ymax - MIN_BOX_SIZE, ymin + dy));
+  } else {
+    ymax = Math.min(1000, Math.max(ymin + MIN_BOX_SIZE, ymax + dy));
+  }
+  if (handle === 'nw' || handle === 'sw') {
+    xmin = Math.max(0, Math.min(xmax - MIN_BOX_SIZE, xmin + dx));
+  } else {
+    xmax = Math.min(1000, Math.max(xmin + MIN_BOX_SIZE, xmax + dx));
+  }
+  return [Math.round(ymin), Math.round(xmin), Math.round(ymax), Math.round(xmax)];
+};
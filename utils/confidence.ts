@@ -0,0 +1,128 @@
+/**
+ * Per-field confidence: the score the model reported for each value, adjusted by what
+ * the text layer check and validation found, and the queue of low-confidence fields
+ * the reviewer is walked through.
+ */
+
+import { FieldConfidence, ProductData } from '../types';
+import { ProductFieldDefinition } from '../services/extractionProvider';
+import { ValidationIssue } from './validation';
+import { getCellValue } from './gridUtils';
+
+// Fields scored below this are sent to the review queue
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Score of values the model reported nothing about (mock replies, older results)
+const DEFAULT_CONFIDENCE = 0.8;
+
+// Caps applied by the other signals
+const TEXT_MISMATCH_CONFIDENCE = 0.3; // The text layer has a near-identical code
+const TEXT_MISSING_CONFIDENCE = 0.5; // The code isn't in the text layer at all
+const INVALID_VALUE_CONFIDENCE = 0.2; // Validation error (bad check digit, unreadable number...)
+
+// A field to double-check in the review queue
+export interface ReviewItem {
+  productIndex: number;
+  field: string;
+  score: number;
+}
+
+const isBox = (value: unknown): value is [number, number, number, number] => {
+  return Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+};
+
+/**
+ * Reads the confidence list returned by the model (confianca_campos) into a map by field.
+ * Entries for unknown or empty fields are dropped; scores given as percentages are scaled to 0-1.
+ */
+export const normalizeFieldConfidence = (
+  raw: unknown,
+  product: Record<string, any>,
+  fields: ProductFieldDefinition[]
+): Record<string, FieldConfidence> | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const confidence: Record<string, FieldConfidence> = {};
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object' || !fields.some(field => field.name === entry.campo)) continue;
+    const value = product[entry.campo];
+    if (value === null || value === undefined || String(value).trim() === '') continue;
+    let score = Number(entry.confianca);
+    if (!Number.isFinite(score)) continue;
+    if (score > 1) score /= 100;
+
+    confidence[entry.campo] = {
+      value: String(value).trim(),
+      score: Math.min(Math.max(score, 0), 1),
+      snippet: typeof entry.trecho === 'string' && entry.trecho.trim() ? entry.trecho.trim() : null,
+      box: isBox(entry.box_2d) ? entry.box_2d : null,
+    };
+  }
+  return Object.keys(confidence).length > 0 ? confidence : undefined;
+};
+
+/**
+ * Combined confidence of one field, 0-1, or null when the field is empty.
+ * Reviewed or edited values count as certain; codes confirmed by the text layer too.
+ * @param issues Validation issues of the product (see validateProduct).
+ */
+export const getFieldConfidence = (product: ProductData, field: string, issues: ValidationIssue[]): number | null => {
+  const value = getCellValue(product, field)?.trim();
+  if (!value) return null;
+
+  const reported = product.confianca?.[field];
+  if (reported && (reported.reviewed || reported.value !== value)) {
+    // Confirmed in the review queue, or typed by the user since
+    return 1;
+  }
+  let score = reported ? reported.score : DEFAULT_CONFIDENCE;
+
+  const evidence = product.evidencias?.[field];
+  if (evidence && evidence.value === value) {
+    if (evidence.matched) return 1;
+    score = Math.min(score, evidence.suggestion !== undefined ? TEXT_MISMATCH_CONFIDENCE : TEXT_MISSING_CONFIDENCE);
+  }
+  if (issues.some(issue => issue.field === field && issue.severity === 'error')) {
+    score = Math.min(score, INVALID_VALUE_CONFIDENCE);
+  }
+  return score;
+};
+
+/**
+ * Lists the low-confidence fields of every product, product by product in schema order.
+ * @param issues Validation issues by product index (see validateProducts).
+ */
+export const buildReviewQueue = (
+  data: ProductData[],
+  fields: ProductFieldDefinition[],
+  issues: ValidationIssue[][]
+): ReviewItem[] => {
+  const queue: ReviewItem[] = [];
+  data.forEach((product, productIndex) => {
+    for (const { name } of fields) {
+      const score = getFieldConfidence(product, name, issues[productIndex] || []);
+      if (score !== null && score < LOW_CONFIDENCE_THRESHOLD) queue.push({ productIndex, field: name, score });
+    }
+  });
+  return queue;
+};
+
+/**
+ * Returns a copy of the product with one field set to the reviewed value and marked as confirmed.
+ * Empty input is stored as null, like missing values from the model.
+ */
+export const confirmField = (product: ProductData, field: string, value: string): ProductData => {
+  const trimmed = value.trim();
+  const updated: ProductData = { ...product, [field]: trimmed === '' ? null : trimmed };
+  // Numbers stay numbers when the value wasn't changed
+  if (getCellValue(product, field)?.trim() === trimmed) (updated as any)[field] = (product as any)[field];
+
+  const reported = product.confianca?.[field];
+  return {
+    ...updated,
+    confianca: {
+      ...product.confianca,
+      [field]: { score: 1, snippet: null, box: null, ...reported, value: trimmed, reviewed: true },
+    },
+  };
+};
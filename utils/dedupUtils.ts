@@ -0,0 +1,289 @@
+import { ImageInfo, Origin, ProductData } from '../types';
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+import { normalizeSpecifications } from './specifications';
+
+// Codes shorter than this ("10", "A") are too generic to identify a product
+const MIN_CODE_LENGTH = 3;
+
+// Dice similarity of nome+modelo above which two products are considered the same
+export const NAME_SIMILARITY_THRESHOLD = 0.9;
+
+export type MatchReason = 'code' | 'name';
+
+// A field whose value differs between the products of a group
+export interface FieldConflict {
+  field: string;
+  values: string[];
+}
+
+// A group of products that look like the same item, waiting for the user to confirm
+export interface MergeProposal {
+  indices: number[];
+  reason: MatchReason;
+  conflicts: FieldConflict[];
+}
+
+// A confirmed merge: the group and the value picked for each conflicting field
+export interface MergeDecision {
+  indices: number[];
+  choices: Record<string, string>;
+}
+
+const normalizeText = (value: string): string => {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+};
+
+/**
+ * Normalizes a SKU/code for comparison: "ab-12.3" and "AB 123" are the same code.
+ */
+export const normalizeCode = (value: string | null): string | null => {
+  if (!value) return null;
+  const code = normalizeText(value).replace(/ /g, '').toUpperCase();
+  return code.length >= MIN_CODE_LENGTH ? code : null;
+};
+
+/**
+ * Normalizes a barcode to its digits without left padding, so GTIN-13 and GTIN-14 forms match.
+ */
+export const normalizeBarcode = (value: string | null): string | null => {
+  if (!value) return null;
+  const digits = value.replace(/\D/g, '').replace(/^0+/, '');
+  return digits.length >= MIN_CODE_LENGTH ? digits : null;
+};
+
+/**
+ * Identity keys of a product. sku, codigo and mpn share a namespace because
+ * catalogs put the same reference in different columns from page to page.
+ */
+const getProductKeys = (product: ProductData) => {
+  const codes = [product.sku, product.codigo, product.mpn]
+    .map(normalizeCode)
+    .filter((c): c is string => !!c);
+  return { codes: new Set(codes), barcode: normalizeBarcode(product.codigo_barras) };
+};
+
+const getBigrams = (text: string): Map<string, number> => {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Dice coefficient between two strings (1 = identical), ignoring case, accents and punctuation.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const na = normalizeText(a);
+  const nb = normalizeText(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  const ba = getBigrams(na);
+  const bb = getBigrams(nb);
+  let overlap = 0;
+  ba.forEach((count, bigram) => {
+    overlap += Math.min(count, bb.get(bigram) || 0);
+  });
+  const total = (na.length - 1) + (nb.length - 1);
+  return total > 0 ? (2 * overlap) / total : 0;
+};
+
+const getNameKey = (product: ProductData): string => {
+  return [product.nome, product.modelo].filter(Boolean).join(' ');
+};
+
+const isEmpty = (value: unknown): boolean => {
+  return value === null || value === undefined || String(value).trim() === '';
+};
+
+/**
+ * Lists the schema fields that have more than one distinct value in a group.
+ * Values differing only in case or spacing are not conflicts.
+ */
+export const findConflicts = (products: ProductData[], fields: ProductFieldDefinition[] = PRODUCT_FIELDS): FieldConflict[] => {
+  const conflicts: FieldConflict[] = [];
+  for (const { name } of fields) {
+    const seen = new Map<string, string>();
+    for (const product of products) {
+      const value = (product as any)[name];
+      if (isEmpty(value)) continue;
+      const text = String(value).trim();
+      const key = text.toLowerCase().replace(/\s+/g, ' ');
+      if (!seen.has(key)) seen.set(key, text);
+    }
+    if (seen.size > 1) conflicts.push({ field: name, values: Array.from(seen.values()) });
+  }
+  return conflicts;
+};
+
+/**
+ * Groups products that look like the same item.
+ * Products match on a shared code or barcode, or on a near-identical nome+modelo found on
+ * different pages. Products with different barcodes, or different codes when matched by
+ * name, are never grouped. Conflicts are listed for the fields of the extraction schema.
+ */
+export const proposeMerges = (data: ProductData[], fields: ProductFieldDefinition[] = PRODUCT_FIELDS): MergeProposal[] => {
+  const keys = data.map(getProductKeys);
+  const names = data.map(p => normalizeText(getNameKey(p)));
+
+  // Each product starts in its own group
+  const groupOf = data.map((_, index) => index);
+  const members = new Map<number, number[]>(data.map((_, index) => [index, [index]]));
+  const reasons = new Map<number, MatchReason>();
+
+  const conflicts = (a: number, b: number, byName: boolean): boolean => {
+    const ka = keys[a];
+    const kb = keys[b];
+    if (ka.barcode && kb.barcode && ka.barcode !== kb.barcode) return true;
+    if (byName && ka.codes.size > 0 && kb.codes.size > 0 && ![...ka.codes].some(c => kb.codes.has(c))) return true;
+    return false;
+  };
+
+  const join = (a: number, b: number, reason: MatchReason) => {
+    const ga = groupOf[a];
+    const gb = groupOf[b];
+    if (ga === gb) {
+      if (reason === 'code') reasons.set(ga, 'code');
+      return;
+    }
+    const ma = members.get(ga)!;
+    const mb = members.get(gb)!;
+    if (ma.some(i => mb.some(j => conflicts(i, j, reason === 'name')))) return;
+
+    const merged = [...ma, ...mb].sort((x, y) => x - y);
+    const target = Math.min(ga, gb);
+    const source = Math.max(ga, gb);
+    merged.forEach(i => { groupOf[i] = target; });
+    members.set(target, merged);
+    members.delete(source);
+    const wasCode = reasons.get(ga) === 'code' || reasons.get(gb) === 'code' || reason === 'code';
+    reasons.set(target, wasCode ? 'code' : 'name');
+    reasons.delete(source);
+  };
+
+  // Exact identifier matches first, so name matches can't block them
+  const byKey = new Map<string, number[]>();
+  keys.forEach(({ codes, barcode }, index) => {
+    const productKeys = [...codes].map(c => `code:${c}`);
+    if (barcode) productKeys.push(`gtin:${barcode}`);
+    productKeys.forEach(key => {
+      const list = byKey.get(key) || [];
+      list.push(index);
+      byKey.set(key, list);
+    });
+  });
+  byKey.forEach(indices => {
+    for (let i = 1; i < indices.length; i++) join(indices[0], indices[i], 'code');
+  });
+
+  for (let a = 0; a < data.length; a++) {
+    if (names[a].length < 4) continue;
+    for (let b = a + 1; b < data.length; b++) {
+      if (names[b].length < 4) continue;
+      const samePage = data[a].origem.source_pdf === data[b].origem.source_pdf && data[a].origem.page === data[b].origem.page;
+      if (samePage || groupOf[a] === groupOf[b]) continue;
+      if (nameSimilarity(names[a], names[b]) >= NAME_SIMILARITY_THRESHOLD) join(a, b, 'name');
+    }
+  }
+
+  return Array.from(members.entries())
+    .filter(([, indices]) => indices.length > 1)
+    .sort(([a], [b]) => a - b)
+    .map(([group, indices]) => ({
+      indices,
+      reason: reasons.get(group) || 'name',
+      conflicts: findConflicts(indices.map(i => data[i]), fields),
+    }));
+};
+
+const originKey = (origin: Origin) => `${origin.source_pdf}#${origin.page}`;
+
+/**
+ * Merges per-field entries (evidence, confidence), keeping for each field the first
+ * one that refers to the value the merged product ended up with.
+ */
+const pickCurrentEntries = <T extends { value: string }>(
+  entries: (Record<string, T> | undefined)[],
+  merged: ProductData
+): Record<string, T> | undefined => {
+  const picked: Record<string, T> = {};
+  entries.forEach(byField => Object.entries(byField || {}).forEach(([field, entry]) => {
+    if (!picked[field] && entry.value === String((merged as any)[field] ?? '').trim()) picked[field] = entry;
+  }));
+  return Object.keys(picked).length > 0 ? picked : undefined;
+};
+
+/**
+ * Combines a group of products into one record.
+ * Each schema field takes the chosen value, or the first non-empty one in result order.
+ * Origins, spec rows and page images are merged; the crop and the quantity breaks come from the
+ * first product that has them, and the crop's origin stays the primary one so the crop box still matches its page.
+ */
+export const mergeProducts = (
+  products: ProductData[],
+  choices: Record<string, string> = {},
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS
+): ProductData => {
+  const primary = products.find(p => !!p.imagem_produto_id) || products[0];
+  const merged: ProductData = { ...primary };
+
+  for (const { name } of fields) {
+    if (name in choices) {
+      (merged as any)[name] = choices[name];
+    } else {
+      const source = products.find(p => !isEmpty((p as any)[name]));
+      (merged as any)[name] = source ? (source as any)[name] : null;
+    }
+  }
+
+  // Text layer evidence and confidence of the values that were kept
+  merged.evidencias = pickCurrentEntries(products.map(p => p.evidencias), merged);
+  merged.confianca = pickCurrentEntries(products.map(p => p.confianca), merged);
+
+  const origins = new Map<string, Origin>();
+  [primary, ...products].forEach(p => {
+    (p.origens || [p.origem]).forEach(origin => origins.set(originKey(origin), origin));
+  });
+  merged.origens = Array.from(origins.values());
+
+  // Spec rows of every product, first value per key
+  if (products.some(p => p.especificacoes?.length)) {
+    merged.especificacoes = normalizeSpecifications([primary, ...products].flatMap(p => p.especificacoes || []));
+  }
+
+  // Breaks of different price lists can't be mixed, so one product's list is kept whole
+  const tiered = [primary, ...products].find(p => p.faixas_preco?.length);
+  if (tiered) merged.faixas_preco = tiered.faixas_preco;
+
+  const images = new Map<string, ImageInfo>();
+  products.forEach(p => p.imagens.forEach(img => {
+    if (!images.has(img.hash)) images.set(img.hash, img);
+  }));
+  merged.imagens = Array.from(images.values());
+
+  return merged;
+};
+
+/**
+ * Applies confirmed merges. Each merged record takes the place of the first product of its group.
+ */
+export const applyMerges = (
+  data: ProductData[],
+  decisions: MergeDecision[],
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS
+): ProductData[] => {
+  const decisionOf = new Map<number, MergeDecision>();
+  decisions.forEach(decision => decision.indices.forEach(i => decisionOf.set(i, decision)));
+
+  const result: ProductData[] = [];
+  data.forEach((product, index) => {
+    const decision = decisionOf.get(index);
+    if (!decision) {
+      result.push(product);
+    } else if (index === Math.min(...decision.indices)) {
+      result.push(mergeProducts(decision.indices.map(i => data[i]), decision.choices, fields));
+    }
+  });
+  return result;
+};
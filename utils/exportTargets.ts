@@ -0,0 +1,330 @@
+/**
+ * Registry of marketplace export formats. Each adapter maps ProductData to
+ * the import file of one platform; downloading (and bundling images) is shared.
+ */
+
+import { ProductData } from '../types';
+import { groupWithSlugs } from './nuvemshopExport';
+import { formatCanonicalNumber, parseMeasurement } from './validation';
+import { formatProductPrice } from './pricing';
+import { MissingAttributes, buildGoogleItems, findMissingGoogleAttributes, toGoogleTsv, toGoogleXml } from './googleFeed';
+
+export type ExportTargetId = 'shopify' | 'woocommerce' | 'mercadolivre' | 'vtex' | 'google_xml' | 'google_tsv';
+
+export interface ExportContext {
+  // Link to each product's image (same index as data), null when it has no crop
+  imageUrls: (string | null)[];
+  // Store address used to build product links, when the format needs them
+  storeUrl: string;
+  // Brand of products that don't have one, when the format requires it
+  brand?: string;
+}
+
+export interface ExportAdapter {
+  id: ExportTargetId;
+  label: string;
+  fileName: string;
+  mimeType: string;
+  build: (data: ProductData[], context: ExportContext) => string;
+  usesStoreUrl?: boolean;
+  usesBrand?: boolean;
+  // Items the platform would reject, reported before downloading
+  findMissingAttributes?: (data: ProductData[], context: ExportContext) => MissingAttributes[];
+}
+
+// Property name used when products sharing a modelo are exported as variants
+const VARIANT_PROPERTY = 'Variação';
+
+/**
+ * Joins rows into a delimited file, quoting cells that need it.
+ */
+export const toDelimited = (headers: string[], rows: string[][], delimiter: string): string => {
+  const toCell = (value: string) => {
+    return value.includes(delimiter) || /["\n\r]/.test(value) ? '"' + value.replace(/"/g, '""') + '"' : value;
+  };
+  return [headers, ...rows].map(row => row.map(toCell).join(delimiter)).join('\n');
+};
+
+/**
+ * Builds the image link of each product: the ZIP path, under baseUrl when given
+ * (most platforms only download images from public URLs).
+ */
+export const getImageUrls = (data: ProductData[], imageFileNames: (string | null)[], baseUrl: string): (string | null)[] => {
+  const prefix = baseUrl.trim() ? baseUrl.trim().replace(/\/?$/, '/') : '';
+  return data.map((_, index) => imageFileNames[index] ? `${prefix}images/${imageFileNames[index]}` : null);
+};
+
+const measure = (value: string | null, kind: 'weight' | 'length', factor: number = 1): string => {
+  if (!value) return '';
+  const number = parseMeasurement(value, kind);
+  return number === null ? '' : formatCanonicalNumber(number * factor);
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const toHtml = (text: string | null): string => {
+  return text ? `<p>${escapeHtml(text).replace(/\n+/g, '</p><p>')}</p>` : '';
+};
+
+/**
+ * "A / B » C" or "A > B > C" -> ["A", "B", "C"]
+ */
+const splitCategory = (category: string | null): string[] => {
+  return (category || '').split(/\s*(?:>|»|\/)\s*/).map(c => c.trim()).filter(Boolean);
+};
+
+const truncate = (text: string, max: number): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > max ? singleLine.substring(0, max).trimEnd() : singleLine;
+};
+
+const SHOPIFY_HEADERS = [
+  'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Type', 'Tags', 'Published',
+  'Option1 Name', 'Option1 Value', 'Variant SKU', 'Variant Grams', 'Variant Inventory Policy',
+  'Variant Fulfillment Service', 'Variant Price', 'Variant Requires Shipping', 'Variant Taxable',
+  'Variant Barcode', 'Image Src', 'Image Position', 'Image Alt Text', 'Variant Image',
+  'Variant Weight Unit', 'SEO Title', 'SEO Description', 'Status',
+];
+
+const buildShopify = (data: ProductData[], { imageUrls }: ExportContext): string => {
+  const indexOf = new Map(data.map((product, index) => [product, index]));
+  const rows: string[][] = [];
+
+  for (const { group, slug: handle } of groupWithSlugs(data)) {
+    const hasVariants = group.variants.some(v => v.value !== null);
+    let imagePosition = 0;
+
+    group.variants.forEach(({ product, value }, i) => {
+      const isParent = i === 0;
+      const image = imageUrls[indexOf.get(product)!] || '';
+      if (image) imagePosition++;
+      const row: Record<string, string> = {
+        'Handle': handle,
+        'Title': isParent ? group.name : '',
+        'Body (HTML)': isParent ? toHtml(product.descricao) : '',
+        'Type': isParent ? splitCategory(product.categoria).pop() || '' : '',
+        'Tags': isParent ? splitCategory(product.categoria).join(', ') : '',
+        'Published': isParent ? 'TRUE' : '',
+        // Shopify's convention for products without options
+        'Option1 Name': isParent ? (hasVariants ? VARIANT_PROPERTY : 'Title') : '',
+        'Option1 Value': hasVariants ? value || '' : 'Default Title',
+        'Variant SKU': product.sku || product.codigo || '',
+        'Variant Grams': measure(product.peso_kg, 'weight', 1000),
+        'Variant Inventory Policy': 'deny',
+        'Variant Fulfillment Service': 'manual',
+        'Variant Price': formatProductPrice(product),
+        'Variant Requires Shipping': 'TRUE',
+        'Variant Taxable': 'TRUE',
+        'Variant Barcode': (product.codigo_barras || '').replace(/\D/g, ''),
+        'Image Src': image,
+        'Image Position': image ? String(imagePosition) : '',
+        'Image Alt Text': image ? product.nome || '' : '',
+        'Variant Image': hasVariants ? image : '',
+        'Variant Weight Unit': 'kg',
+        'SEO Title': isParent ? truncate(group.name, 70) : '',
+        'SEO Description': isParent ? truncate(product.descricao || '', 320) : '',
+        'Status': isParent ? 'active' : '',
+      };
+      rows.push(SHOPIFY_HEADERS.map(header => row[header] || ''));
+    });
+  }
+
+  return toDelimited(SHOPIFY_HEADERS, rows, ',');
+};
+
+const WOOCOMMERCE_HEADERS = [
+  'Type', 'SKU', 'Name', 'Published', 'Visibility in catalog', 'Short description', 'Description',
+  'Tax status', 'In stock?', 'Weight (kg)', 'Length (cm)', 'Width (cm)', 'Height (cm)', 'Regular price',
+  'Categories', 'Images', 'Parent', 'Attribute 1 name', 'Attribute 1 value(s)', 'Attribute 1 visible',
+  'Attribute 1 global', 'GTIN, UPC, EAN, or ISBN',
+];
+
+const buildWooCommerce = (data: ProductData[], { imageUrls }: ExportContext): string => {
+  const indexOf = new Map(data.map((product, index) => [product, index]));
+  const rows: string[][] = [];
+
+  const productRow = (product: ProductData): Record<string, string> => ({
+    'Published': '1',
+    'Visibility in catalog': 'visible',
+    'Tax status': 'taxable',
+    'In stock?': '1',
+    'Weight (kg)': measure(product.peso_kg, 'weight'),
+    'Length (cm)': measure(product.comprimento_cm, 'length'),
+    'Width (cm)': measure(product.largura_cm, 'length'),
+    'Height (cm)': measure(product.altura_cm, 'length'),
+    'Regular price': formatProductPrice(product),
+    'Images': imageUrls[indexOf.get(product)!] || '',
+    'GTIN, UPC, EAN, or ISBN': (product.codigo_barras || '').replace(/\D/g, ''),
+  });
+
+  for (const { group, slug: handle } of groupWithSlugs(data)) {
+    const [first] = group.variants;
+    const categories = splitCategory(first.product.categoria).join(' > ');
+
+    if (group.variants.length === 1) {
+      const { product } = first;
+      const row: Record<string, string> = {
+        ...productRow(product),
+        'Type': 'simple',
+        'SKU': product.sku || product.codigo || '',
+        'Name': group.name,
+        'Description': product.descricao || '',
+        'Categories': categories,
+      };
+      rows.push(WOOCOMMERCE_HEADERS.map(header => row[header] || ''));
+      continue;
+    }
+
+    // Variable product: the parent is referenced by SKU from each variation
+    const parentSku = first.product.modelo || handle;
+    const parent: Record<string, string> = {
+      ...productRow(first.product),
+      'Type': 'variable',
+      'SKU': parentSku,
+      'Name': group.name,
+      'Description': first.product.descricao || '',
+      'Categories': categories,
+      'Attribute 1 name': VARIANT_PROPERTY,
+      'Attribute 1 value(s)': group.variants.map(v => v.value).join(', '),
+      'Attribute 1 visible': '1',
+      'Attribute 1 global': '0',
+      'Weight (kg)': '',
+      'Regular price': '',
+      'GTIN, UPC, EAN, or ISBN': '',
+    };
+    rows.push(WOOCOMMERCE_HEADERS.map(header => parent[header] || ''));
+
+    for (const { product, value } of group.variants) {
+      const row: Record<string, string> = {
+        ...productRow(product),
+        'Type': 'variation',
+        'SKU': product.sku || product.codigo || '',
+        'Name': `${group.name} - ${value}`,
+        'Parent': parentSku,
+        'Attribute 1 name': VARIANT_PROPERTY,
+        'Attribute 1 value(s)': value || '',
+        'Attribute 1 global': '0',
+      };
+      rows.push(WOOCOMMERCE_HEADERS.map(header => row[header] || ''));
+    }
+  }
+
+  return toDelimited(WOOCOMMERCE_HEADERS, rows, ',');
+};
+
+const MERCADO_LIVRE_HEADERS = [
+  'Título', 'Categoria', 'Condição', 'Preço', 'Moeda', 'Estoque', 'SKU',
+  'Código universal de produto', 'Marca', 'Modelo', 'Variação', 'Descrição',
+  'Peso da embalagem (g)', 'Altura da embalagem (cm)', 'Largura da embalagem (cm)',
+  'Comprimento da embalagem (cm)', 'Imagens', 'Tipo de anúncio',
+];
+
+// Mercado Livre rejects longer listing titles
+const MERCADO_LIVRE_TITLE_MAX = 60;
+
+const buildMercadoLivre = (data: ProductData[], { imageUrls }: ExportContext): string => {
+  const indexOf = new Map(data.map((product, index) => [product, index]));
+  const rows: string[][] = [];
+
+  for (const { group } of groupWithSlugs(data)) {
+    for (const { product, value } of group.variants) {
+      const row: Record<string, string> = {
+        'Título': truncate(group.name, MERCADO_LIVRE_TITLE_MAX),
+        'Categoria': splitCategory(product.categoria).join(' > '),
+        'Condição': 'Novo',
+        'Preço': formatProductPrice(product),
+        'Moeda': (product.moeda || 'BRL').toUpperCase(),
+        'SKU': product.sku || product.codigo || '',
+        'Código universal de produto': (product.codigo_barras || '').replace(/\D/g, ''),
+        'Modelo': product.modelo || '',
+        'Variação': value || '',
+        'Descrição': product.descricao || '',
+        'Peso da embalagem (g)': measure(product.peso_kg, 'weight', 1000),
+        'Altura da embalagem (cm)': measure(product.altura_cm, 'length'),
+        'Largura da embalagem (cm)': measure(product.largura_cm, 'length'),
+        'Comprimento da embalagem (cm)': measure(product.comprimento_cm, 'length'),
+        'Imagens': imageUrls[indexOf.get(product)!] || '',
+        'Tipo de anúncio': 'Clássico',
+      };
+      rows.push(MERCADO_LIVRE_HEADERS.map(header => row[header] || ''));
+    }
+  }
+
+  return toDelimited(MERCADO_LIVRE_HEADERS, rows, ';');
+};
+
+const VTEX_HEADERS = [
+  '_IDSKU (Não alterável)', '_NomeSKU', '_AtivarSKUSePossível', '_EANSKU', '_CodigoReferenciaSKU',
+  '_Altura', '_Largura', '_Comprimento', '_Peso', '_UnidadeMedida', '_MultiplicadorUnidade',
+  '_IDProduto (Não alterável)', '_NomeProduto (Obrigatório)', '_DescricaoProduto',
+  '_CodigoReferenciaProduto', '_NomeCategoria', '_ExibeNoSite', '_TituloSite', '_MetaTagDescription',
+  '_ImagemSKU',
+];
+
+const buildVtex = (data: ProductData[], { imageUrls }: ExportContext): string => {
+  const indexOf = new Map(data.map((product, index) => [product, index]));
+  const rows: string[][] = [];
+
+  for (const { group, slug: handle } of groupWithSlugs(data)) {
+    const [first] = group.variants;
+    for (const { product, value } of group.variants) {
+      const row: Record<string, string> = {
+        '_NomeSKU': value || group.name,
+        '_AtivarSKUSePossível': 'SIM',
+        '_EANSKU': (product.codigo_barras || '').replace(/\D/g, ''),
+        '_CodigoReferenciaSKU': product.sku || product.codigo || '',
+        '_Altura': measure(product.altura_cm, 'length'),
+        '_Largura': measure(product.largura_cm, 'length'),
+        '_Comprimento': measure(product.comprimento_cm, 'length'),
+        // VTEX weights are in grams
+        '_Peso': measure(product.peso_kg, 'weight', 1000),
+        '_UnidadeMedida': 'un',
+        '_MultiplicadorUnidade': '1',
+        '_NomeProduto (Obrigatório)': group.name,
+        '_DescricaoProduto': first.product.descricao || '',
+        '_CodigoReferenciaProduto': first.product.modelo || handle,
+        '_NomeCategoria': splitCategory(first.product.categoria).join('/'),
+        '_ExibeNoSite': 'SIM',
+        '_TituloSite': truncate(group.name, 150),
+        '_MetaTagDescription': truncate(first.product.descricao || '', 160),
+        '_ImagemSKU': imageUrls[indexOf.get(product)!] || '',
+      };
+      rows.push(VTEX_HEADERS.map(header => row[header] || ''));
+    }
+  }
+
+  return toDelimited(VTEX_HEADERS, rows, ';');
+};
+
+export const EXPORT_ADAPTERS: ExportAdapter[] = [
+  { id: 'shopify', label: 'Shopify', fileName: 'shopify_products.csv', mimeType: 'text/csv;charset=utf-8;', build: buildShopify },
+  { id: 'woocommerce', label: 'WooCommerce', fileName: 'woocommerce_products.csv', mimeType: 'text/csv;charset=utf-8;', build: buildWooCommerce },
+  { id: 'mercadolivre', label: 'Mercado Livre', fileName: 'mercadolivre_anuncios.csv', mimeType: 'text/csv;charset=utf-8;', build: buildMercadoLivre },
+  { id: 'vtex', label: 'VTEX', fileName: 'vtex_produtos.csv', mimeType: 'text/csv;charset=utf-8;', build: buildVtex },
+  {
+    id: 'google_xml',
+    label: 'Google Merchant (XML)',
+    fileName: 'google_merchant_feed.xml',
+    mimeType: 'application/xml',
+    build: (data, context) => toGoogleXml(buildGoogleItems(data, context), context.storeUrl),
+    usesStoreUrl: true,
+    usesBrand: true,
+    findMissingAttributes: (data, context) => findMissingGoogleAttributes(buildGoogleItems(data, context)),
+  },
+  {
+    id: 'google_tsv',
+    label: 'Google Merchant (TSV)',
+    fileName: 'google_merchant_feed.tsv',
+    mimeType: 'text/tab-separated-values;charset=utf-8;',
+    build: (data, context) => toGoogleTsv(buildGoogleItems(data, context)),
+    usesStoreUrl: true,
+    usesBrand: true,
+    findMissingAttributes: (data, context) => findMissingGoogleAttributes(buildGoogleItems(data, context)),
+  },
+];
+
+export const getExportAdapter = (id: string): ExportAdapter | undefined => {
+  return EXPORT_ADAPTERS.find(adapter => adapter.id === id);
+};
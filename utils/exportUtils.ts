@@ -1,5 +1,14 @@
 import { ProductData } from '../types';
 import JSZip from 'jszip';
+import { NuvemshopExportOptions, convertToNuvemshopCSV } from './nuvemshopExport';
+import { ExportAdapter, ExportContext, getImageUrls } from './exportTargets';
+import { ExportImage, XLSX_MIME_TYPE, buildXlsxWorkbook } from './xlsxExport';
+import { getFieldHeader } from './extractionSchema';
+import { DEFAULT_SPECIFICATION_EXPORT, SpecificationExportOptions, getSpecificationColumns } from './specifications';
+import { getPriceTierColumns } from './pricing';
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+import { getImageBlob } from './imageStore';
+import { convertImageBlob } from './imageCleanup';
 
 /**
  * Triggers a file download in the browser.
@@ -20,7 +29,7 @@ const downloadBlob = (content: Blob | string, fileName: string, contentType: str
  * Exports product data to a JSON file (or ZIP if images exist).
  */
 export const exportToJSON = async (data: ProductData[]) => {
-  const hasImages = data.some(p => !!p.imagem_produto_base64);
+  const hasImages = data.some(p => !!p.imagem_produto_id);
 
   if (hasImages) {
       await exportToZip(data, 'json');
@@ -48,33 +57,22 @@ const toCSVString = (value: any): string => {
 };
 
 /**
- * Converts product data to a CSV string.
+ * Converts product data to a CSV string, one column per schema field
+ * plus the spec columns chosen in the export options and the quantity breaks.
  */
-const convertToCSV = (data: ProductData[], includeImageColumn: boolean): string => {
+export const convertToCSV = (
+  data: ProductData[],
+  includeImageColumn: boolean,
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+  specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+): string => {
   if (data.length === 0) {
     return '';
   }
   
-  // Headers based on Nuvemshop requirements
-  const headers = [
-    'Nome',
-    'Modelo',
-    'Descrição',
-    'Código',
-    'SKU',
-    'Código de barras',
-    'NCM',
-    'Categoria',
-    'Peso (kg)',
-    'Altura (cm)',
-    'Largura (cm)',
-    'Comprimento (cm)',
-    'MPN',
-    'Faixa Etária',
-    'Sexo',
-    'Origem PDF',
-    'Origem Pagina'
-  ];
+  // Schema columns, spec and price break columns, then where each product came from
+  const extraColumns = [...getSpecificationColumns(data, specs), ...getPriceTierColumns(data)];
+  const headers = [...fields.map(getFieldHeader), ...extraColumns.map(col => col.header), 'Origem PDF', 'Origem Pagina'];
 
   if (includeImageColumn) {
       headers.push('Nome do Arquivo de Imagem');
@@ -84,21 +82,8 @@ const convertToCSV = (data: ProductData[], includeImageColumn: boolean): string
 
   for (const product of data) {
     const values = [
-      toCSVString(product.nome),
-      toCSVString(product.modelo),
-      toCSVString(product.descricao),
-      toCSVString(product.codigo),
-      toCSVString(product.sku),
-      toCSVString(product.codigo_barras),
-      toCSVString(product.ncm),
-      toCSVString(product.categoria),
-      toCSVString(product.peso_kg),
-      toCSVString(product.altura_cm),
-      toCSVString(product.largura_cm),
-      toCSVString(product.comprimento_cm),
-      toCSVString(product.mpn),
-      toCSVString(product.faixa_etaria),
-      toCSVString(product.sexo),
+      ...fields.map(field => toCSVString((product as any)[field.name])),
+      ...extraColumns.map(col => toCSVString(col.value(product))),
       toCSVString(product.origem.source_pdf),
       toCSVString(product.origem.page),
     ];
@@ -116,56 +101,201 @@ const convertToCSV = (data: ProductData[], includeImageColumn: boolean): string
 /**
  * Exports product data to a CSV file (or ZIP if images exist).
  */
-export const exportToCSV = async (data: ProductData[]) => {
-  const hasImages = data.some(p => !!p.imagem_produto_base64);
+export const exportToCSV = async (
+  data: ProductData[],
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+  specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+) => {
+  const hasImages = data.some(p => !!p.imagem_produto_id);
 
   if (hasImages) {
-      await exportToZip(data, 'csv');
+      await exportToZip(data, 'csv', fields, specs);
   } else {
       const bom = '\uFEFF';
-      const csvString = bom + convertToCSV(data, false);
+      const csvString = bom + convertToCSV(data, false, fields, specs);
       downloadBlob(csvString, 'nuvemshop_products.csv', 'text/csv;charset=utf-8;');
   }
 };
 
 /**
- * Internal helper to create a ZIP file with images and data.
+ * Exports product data as a Nuvemshop bulk import file.
  */
-const exportToZip = async (data: ProductData[], format: 'csv' | 'json') => {
-    const zip = new JSZip();
+export const exportToNuvemshopCSV = (data: ProductData[], options: NuvemshopExportOptions) => {
+  const bom = '\uFEFF';
+  const csvString = bom + convertToNuvemshopCSV(data, options);
+  downloadBlob(csvString, 'nuvemshop_import.csv', 'text/csv;charset=utf-8;');
+};
+
+/**
+ * Names the image file of a product inside the ZIP's images/ folder.
+ * Accents are removed first, then anything but alphanumerics,
+ * e.g. "Calça de Verão" -> "Calca de Verao" -> "Calca_de_Verao_3.jpg"
+ * Post-processed WebP images get a .webp name instead.
+ */
+export const getImageFileName = (product: ProductData, index: number): string => {
+    const baseName = (product.sku || product.codigo || product.nome || `produto_${index}`);
+    const normalized = baseName.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    const safeName = normalized
+        .replace(/[^a-zA-Z0-9]/g, '_')
+        .substring(0, 30); // Increased length for better uniqueness
+    const extension = product.imagem_produto_tipo === 'image/webp' ? 'webp' : 'jpg';
+    return `${safeName}_${index}.${extension}`;
+};
+
+/**
+ * Loads the crop of each product from the image store, named as in the ZIP's images/ folder.
+ * Products without a crop, or whose crop can't be found anymore, get null.
+ */
+export const loadExportImages = (data: ProductData[]): Promise<(ExportImage | null)[]> => {
+    return Promise.all(data.map(async (product, index) => {
+        if (!product.imagem_produto_id) return null;
+        const blob = await getImageBlob(product.imagem_produto_id);
+        if (!blob) return null;
+        return {
+            fileName: getImageFileName(product, index),
+            bytes: new Uint8Array(await blob.arrayBuffer()),
+            mimeType: blob.type || 'image/jpeg',
+        };
+    }));
+};
+
+/**
+ * Adds the cropped images to the ZIP and returns the data with imagem_arquivo_nome set.
+ */
+const addImagesToZip = async (zip: JSZip, data: ProductData[]): Promise<ProductData[]> => {
     const imgFolder = zip.folder("images");
+    const images = await loadExportImages(data);
 
-    // Process data to assign filenames and add images to zip
-    const processedData = data.map((product, index) => {
-        if (product.imagem_produto_base64) {
-            // Clean up filename: Remove accents first, then keep only alphanumerics
-            // e.g., "Calça de Verão" -> "Calca de Verao" -> "Calca_de_Verao"
-            const baseName = (product.sku || product.codigo || product.nome || `produto_${index}`);
-            const normalized = baseName.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-            const safeName = normalized
-                .replace(/[^a-zA-Z0-9]/g, '_')
-                .substring(0, 30); // Increased length for better uniqueness
-                
-            const fileName = `${safeName}_${index}.jpg`;
-            
-            // Add to zip (remove data:image/jpeg;base64, prefix)
-            const base64Data = product.imagem_produto_base64.split(',')[1];
-            imgFolder?.file(fileName, base64Data, { base64: true });
-
-            return { ...product, imagem_arquivo_nome: `images/${fileName}` };
+    return data.map((product, index) => {
+        const image = images[index];
+        if (image) {
+            imgFolder?.file(image.fileName, image.bytes);
+            return { ...product, imagem_arquivo_nome: `images/${image.fileName}` };
         }
         return product;
     });
+};
+
+/**
+ * Builds the ZIP archive with images and data, without downloading it.
+ */
+export const buildExportZip = async (
+    data: ProductData[],
+    format: 'csv' | 'json',
+    fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+    specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+): Promise<JSZip> => {
+    const zip = new JSZip();
+    const processedData = await addImagesToZip(zip, data);
 
     // Add Data File
     if (format === 'csv') {
         const bom = '\uFEFF';
-        const csvString = bom + convertToCSV(processedData, true);
+        const csvString = bom + convertToCSV(processedData, true, fields, specs);
         zip.file("catalog.csv", csvString);
     } else {
         zip.file("catalog.json", JSON.stringify(processedData, null, 2));
     }
 
+    return zip;
+};
+
+/**
+ * Many Excel versions can't show WebP pictures, so post-processed WebP images
+ * are embedded as PNG. The image is kept as is if it can't be converted.
+ */
+const toWorkbookImage = async (image: ExportImage | null): Promise<ExportImage | null> => {
+    if (!image || image.mimeType !== 'image/webp') return image;
+    try {
+        const png = await convertImageBlob(new Blob([image.bytes], { type: image.mimeType }), 'image/png');
+        return {
+            fileName: image.fileName.replace(/\.webp$/, '.png'),
+            bytes: new Uint8Array(await png.arrayBuffer()),
+            mimeType: 'image/png',
+        };
+    } catch (err) {
+        console.warn(`Could not convert ${image.fileName} for the workbook, embedding it as WebP:`, err);
+        return image;
+    }
+};
+
+/**
+ * Builds the Excel workbook, with images named as in the ZIP export (WebP images as PNG).
+ */
+export const buildXlsxExport = async (
+    data: ProductData[],
+    fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+    specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+): Promise<JSZip> => {
+    const images = await Promise.all((await loadExportImages(data)).map(toWorkbookImage));
+    return buildXlsxWorkbook(data, images, fields, specs);
+};
+
+/**
+ * Exports product data to an Excel file with the images embedded.
+ */
+export const exportToXLSX = async (
+    data: ProductData[],
+    fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+    specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+) => {
+    const content = await (await buildXlsxExport(data, fields, specs)).generateAsync({ type: "blob", mimeType: XLSX_MIME_TYPE, compression: "DEFLATE" });
+    downloadBlob(content, 'nuvemshop_products.xlsx', XLSX_MIME_TYPE);
+};
+
+// Where exported images and product pages will be published, and the store's brand
+export interface ExportSettings {
+  imageBaseUrl: string;
+  storeUrl: string;
+  brand?: string;
+}
+
+/**
+ * Builds the context adapters need. Image links point at the ZIP's images/ folder,
+ * under imageBaseUrl when the images will be hosted somewhere.
+ */
+export const getExportContext = (data: ProductData[], settings: ExportSettings): ExportContext => {
+    const imageFileNames = data.map((product, index) => product.imagem_produto_id ? getImageFileName(product, index) : null);
+    return { imageUrls: getImageUrls(data, imageFileNames, settings.imageBaseUrl), storeUrl: settings.storeUrl, brand: settings.brand };
+};
+
+/**
+ * Builds a marketplace import file.
+ */
+export const buildAdapterFile = (data: ProductData[], adapter: ExportAdapter, settings: ExportSettings = { imageBaseUrl: '', storeUrl: '' }): string => {
+    return adapter.build(data, getExportContext(data, settings));
+};
+
+/**
+ * Exports product data with a marketplace adapter (or ZIP if images exist).
+ */
+export const exportWithAdapter = async (data: ProductData[], adapter: ExportAdapter, settings: ExportSettings) => {
+    // Spreadsheet apps need the BOM to detect UTF-8 in CSV files
+    const bom = adapter.mimeType.startsWith('text/csv') ? '\uFEFF' : '';
+    const content = bom + buildAdapterFile(data, adapter, settings);
+
+    if (data.some(p => !!p.imagem_produto_id)) {
+        const zip = new JSZip();
+        await addImagesToZip(zip, data);
+        zip.file(adapter.fileName, content);
+        const zipContent = await zip.generateAsync({ type: "blob" });
+        downloadBlob(zipContent, `${adapter.id}_export_images.zip`, "application/zip");
+    } else {
+        downloadBlob(content, adapter.fileName, adapter.mimeType);
+    }
+};
+
+/**
+ * Internal helper to create a ZIP file with images and data.
+ */
+const exportToZip = async (
+    data: ProductData[],
+    format: 'csv' | 'json',
+    fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+    specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+) => {
+    const zip = await buildExportZip(data, format, fields, specs);
+
     // Generate ZIP
     const zipContent = await zip.generateAsync({ type: "blob" });
     downloadBlob(zipContent, "nuvemshop_export_images.zip", "application/zip");
@@ -0,0 +1,121 @@
+/**
+ * User-defined extraction schemas, saved as named presets. The active preset's
+ * fields are sent to the model and used for the result cards, grid and exports.
+ */
+
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+
+export interface SchemaPreset {
+  id: string;
+  name: string;
+  fields: ProductFieldDefinition[];
+  builtIn?: boolean; // Shipped with the app, can't be overwritten or deleted
+}
+
+export type SchemaErrorCode = 'fields_empty' | 'name_missing' | 'name_invalid' | 'name_reserved' | 'name_duplicate';
+
+// A problem in the schema; index is the field position, or -1 for the whole schema
+export interface SchemaError {
+  index: number;
+  code: SchemaErrorCode;
+}
+
+export const DEFAULT_SCHEMA_PRESET_ID = 'nuvemshop';
+
+export const BUILTIN_SCHEMA_PRESETS: SchemaPreset[] = [
+  { id: DEFAULT_SCHEMA_PRESET_ID, name: 'Nuvemshop', fields: PRODUCT_FIELDS, builtIn: true },
+  {
+    id: 'nuvemshop-eletricos',
+    name: 'Nuvemshop + Elétricos',
+    builtIn: true,
+    fields: [
+      ...PRODUCT_FIELDS,
+      { name: 'voltagem', type: 'string', label: 'Voltagem', description: 'Voltage of the product.', enumValues: ['127V', '220V', 'Bivolt'] },
+      { name: 'potencia_w', type: 'number', label: 'Potência (W)', description: 'Power in watts, as a number.' },
+    ],
+  },
+];
+
+// Keys the app sets on every product itself
+const RESERVED_FIELD_NAMES = ['especificacoes', 'faixas_preco', 'continua_na_proxima_pagina', 'continuacao_da_pagina_anterior', 'confianca_campos', 'confianca', 'evidencias', 'box_2d', 'origem', 'origens', 'imagens', 'imagem_produto_id', 'imagem_original_id', 'imagem_produto_tipo', 'imagem_arquivo_nome'];
+
+/**
+ * Checks the field names the model will be asked to return.
+ */
+export const validateSchemaFields = (fields: ProductFieldDefinition[]): SchemaError[] => {
+  if (fields.length === 0) return [{ index: -1, code: 'fields_empty' }];
+
+  const errors: SchemaError[] = [];
+  const seen = new Set<string>();
+  fields.forEach((field, index) => {
+    const name = field.name.trim();
+    if (!name) {
+      errors.push({ index, code: 'name_missing' });
+    } else if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+      errors.push({ index, code: 'name_invalid' });
+    } else if (RESERVED_FIELD_NAMES.includes(name)) {
+      errors.push({ index, code: 'name_reserved' });
+    } else if (seen.has(name)) {
+      errors.push({ index, code: 'name_duplicate' });
+    }
+    seen.add(name);
+  });
+  return errors;
+};
+
+/**
+ * Trims a field edited in the schema editor. Enum values only apply to text fields.
+ */
+export const cleanSchemaField = (field: ProductFieldDefinition): ProductFieldDefinition => {
+  const enumValues = field.type === 'string' ? (field.enumValues || []).map(v => v.trim()).filter(Boolean) : [];
+  const cleaned: ProductFieldDefinition = {
+    ...field,
+    name: field.name.trim(),
+    description: field.description.trim(),
+    required: !!field.required,
+  };
+  if (enumValues.length > 0) {
+    cleaned.enumValues = Array.from(new Set(enumValues));
+  } else {
+    delete cleaned.enumValues;
+  }
+  return cleaned;
+};
+
+/**
+ * Reads the presets saved by the user. Anything malformed is dropped.
+ */
+export const parseSchemaPresets = (json: string | null): SchemaPreset[] => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(preset =>
+      preset && typeof preset.id === 'string' && typeof preset.name === 'string' && Array.isArray(preset.fields)
+    ).map(preset => ({ ...preset, builtIn: false }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Finds a preset by id among the built-in and user presets, falling back to the default.
+ */
+export const getSchemaPreset = (userPresets: SchemaPreset[], id: string | null): SchemaPreset => {
+  return [...BUILTIN_SCHEMA_PRESETS, ...userPresets].find(preset => preset.id === id) || BUILTIN_SCHEMA_PRESETS[0];
+};
+
+/**
+ * Column header of a field in CSV/XLSX exports.
+ */
+export const getFieldHeader = (field: ProductFieldDefinition): string => field.label || field.name;
+
+/**
+ * Label of a field in the UI: the translation for built-in fields, the header otherwise.
+ */
+export const getFieldLabel = (field: ProductFieldDefinition, t: (key: string) => string): string => {
+  const key = `field_${field.name}`;
+  const translated = t(key);
+  return translated === key ? getFieldHeader(field) : translated;
+};
+
@@ -0,0 +1,162 @@
+/**
+ * Google Merchant Center product feed (RSS 2.0 with the g: namespace, or TSV).
+ * See https://support.google.com/merchants/answer/7052112 for the attributes.
+ */
+
+import { ProductData } from '../types';
+import { groupWithSlugs } from './nuvemshopExport';
+import { formatCanonicalNumber, isValidGtin, parseMeasurement } from './validation';
+import { formatProductPrice } from './pricing';
+
+// Attributes written to the feed, in column order for TSV
+export const GOOGLE_ATTRIBUTES = [
+  'id', 'title', 'description', 'link', 'image_link', 'availability', 'price', 'condition',
+  'brand', 'gtin', 'mpn', 'identifier_exists', 'product_type', 'item_group_id',
+  'age_group', 'gender', 'shipping_weight',
+];
+
+// Attributes every item must have; "gtin or mpn" is checked separately
+const REQUIRED_ATTRIBUTES = ['id', 'title', 'description', 'link', 'image_link', 'availability', 'price', 'condition', 'brand'];
+
+export type GoogleFeedItem = Record<string, string>;
+
+// An item that Merchant Center would reject or flag
+export interface MissingAttributes {
+  index: number;
+  id: string;
+  title: string;
+  missing: string[];
+}
+
+export interface GoogleFeedContext {
+  imageUrls: (string | null)[];
+  storeUrl: string;
+  brand?: string; // For products without a "marca" field of their own
+}
+
+// Google's age_group values, keyed by the normalized text the model returns
+const AGE_GROUPS: Record<string, string> = {
+  'recem nascido': 'newborn', 'recem-nascido': 'newborn', newborn: 'newborn',
+  bebe: 'infant', bebes: 'infant', infant: 'infant',
+  'primeira infancia': 'toddler', toddler: 'toddler',
+  infantil: 'kids', crianca: 'kids', criancas: 'kids', kids: 'kids', juvenil: 'kids',
+  adulto: 'adult', adultos: 'adult', adult: 'adult',
+};
+
+const GENDERS: Record<string, string> = {
+  masculino: 'male', homem: 'male', homens: 'male', male: 'male', men: 'male',
+  feminino: 'female', mulher: 'female', mulheres: 'female', female: 'female', women: 'female',
+  unissex: 'unisex', unisex: 'unisex',
+};
+
+const normalizeEnum = (value: string | null): string => {
+  return (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+};
+
+/**
+ * Maps faixa_etaria to Google's age_group (newborn, infant, toddler, kids, adult).
+ */
+export const toAgeGroup = (value: string | null): string => AGE_GROUPS[normalizeEnum(value)] || '';
+
+/**
+ * Maps sexo to Google's gender (male, female, unisex).
+ */
+export const toGender = (value: string | null): string => GENDERS[normalizeEnum(value)] || '';
+
+/**
+ * Builds one feed item per product. Variants share an item_group_id.
+ */
+export const buildGoogleItems = (data: ProductData[], { imageUrls, storeUrl, brand = '' }: GoogleFeedContext): GoogleFeedItem[] => {
+  const indexOf = new Map(data.map((product, index) => [product, index]));
+  const items: GoogleFeedItem[] = new Array(data.length);
+  const base = storeUrl.trim() ? storeUrl.trim().replace(/\/?$/, '/') : '';
+
+  for (const { group, slug } of groupWithSlugs(data)) {
+    const isGroup = group.variants.length > 1;
+    for (const { product, value } of group.variants) {
+      const index = indexOf.get(product)!;
+      const barcode = (product.codigo_barras || '').replace(/\D/g, '');
+      const gtin = isValidGtin(barcode) ? barcode : '';
+      const weight = product.peso_kg ? parseMeasurement(product.peso_kg, 'weight') : null;
+      const price = formatProductPrice(product);
+
+      items[index] = {
+        id: product.sku || product.codigo || `${slug}${value ? `-${index}` : ''}`,
+        title: value ? `${group.name} ${value}` : group.name,
+        description: product.descricao || '',
+        link: base ? `${base}${slug}` : '',
+        image_link: imageUrls[index] || '',
+        availability: 'in_stock',
+        // "12.90 BRL"; prices without a currency are taken as reais
+        price: price ? `${price} ${(product.moeda || 'BRL').toUpperCase()}` : '',
+        condition: 'new',
+        // Schemas may extract the brand; otherwise the store's brand from the export options
+        brand: String((product as any).marca || brand).trim(),
+        gtin,
+        mpn: product.mpn || '',
+        identifier_exists: gtin || product.mpn ? '' : 'no',
+        product_type: (product.categoria || '').split(/\s*(?:>|»|\/)\s*/).filter(Boolean).join(' > '),
+        item_group_id: isGroup ? product.modelo || slug : '',
+        age_group: toAgeGroup(product.faixa_etaria),
+        gender: toGender(product.sexo),
+        shipping_weight: weight !== null ? `${formatCanonicalNumber(weight)} kg` : '',
+      };
+    }
+  }
+
+  return items;
+};
+
+/**
+ * Lists the items missing required attributes, so they can be fixed before uploading.
+ */
+export const findMissingGoogleAttributes = (items: GoogleFeedItem[]): MissingAttributes[] => {
+  return items
+    .map((item, index) => {
+      const missing = REQUIRED_ATTRIBUTES.filter(attribute => !item[attribute]);
+      // Items without a GTIN need an MPN (with brand) or identifier_exists=no
+      if (!item.gtin && !item.mpn && item.identifier_exists !== 'no') missing.push('gtin/mpn');
+      return { index, id: item.id, title: item.title, missing };
+    })
+    .filter(report => report.missing.length > 0);
+};
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+/**
+ * Serializes items as an RSS 2.0 feed. Empty attributes are left out.
+ */
+export const toGoogleXml = (items: GoogleFeedItem[], storeUrl: string): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+    '<channel>',
+    '<title>Catalog</title>',
+    `<link>${escapeXml(storeUrl.trim())}</link>`,
+    '<description>Products extracted from PDF catalogs</description>',
+  ];
+  for (const item of items) {
+    lines.push('<item>');
+    for (const attribute of GOOGLE_ATTRIBUTES) {
+      if (item[attribute]) lines.push(`  <g:${attribute}>${escapeXml(item[attribute])}</g:${attribute}>`);
+    }
+    lines.push('</item>');
+  }
+  lines.push('</channel>', '</rss>');
+  return lines.join('\n');
+};
+
+/**
+ * Serializes items as a tab-separated feed. Tabs and line breaks in values become spaces.
+ */
+export const toGoogleTsv = (items: GoogleFeedItem[]): string => {
+  const rows = items.map(item => GOOGLE_ATTRIBUTES.map(attribute => (item[attribute] || '').replace(/[\t\r\n]+/g, ' ')));
+  return [GOOGLE_ATTRIBUTES, ...rows].map(row => row.join('\t')).join('\n');
+};
@@ -0,0 +1,82 @@
+import { ProductData } from '../types';
+import { ProductFieldType } from '../services/extractionProvider';
+import { parsePrice } from './pricing';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  field: string;
+  direction: SortDirection;
+}
+
+// A product together with its index in the full result set
+export interface GridRow {
+  index: number;
+  product: ProductData;
+}
+
+/**
+ * Reads a grid column value. "page" is the source page; other columns are ProductData fields.
+ */
+export const getCellValue = (product: ProductData, field: string): string | null => {
+  if (field === 'page') return String(product.origem.page);
+  const value = (product as any)[field];
+  if (value === null || value === undefined) return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Keeps rows where any of the given columns contains the query (case and accent insensitive).
+ */
+export const filterRows = (rows: GridRow[], fields: string[], query: string): GridRow[] => {
+  const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const needle = normalize(query.trim());
+  if (!needle) return rows;
+
+  return rows.filter(({ product }) =>
+    fields.some(field => {
+      const value = getCellValue(product, field);
+      return value !== null && normalize(value).includes(needle);
+    })
+  );
+};
+
+/**
+ * Sorts rows by a column using natural order ("A2" < "A10"). Empty values always go last.
+ */
+export const sortRows = (rows: GridRow[], sort: SortState | null): GridRow[] => {
+  if (!sort) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    const va = getCellValue(a.product, sort.field);
+    const vb = getCellValue(b.product, sort.field);
+    if (va === vb) return a.index - b.index;
+    if (va === null || va === '') return 1;
+    if (vb === null || vb === '') return -1;
+    return va.localeCompare(vb, undefined, { numeric: true, sensitivity: 'base' }) * factor || (a.index - b.index);
+  });
+};
+
+/**
+ * Returns a copy of the data with one field of one product replaced.
+ * Empty input is stored as null, like missing values from the model.
+ * Numeric fields are stored as numbers, read like printed prices ("R$ 1.500", "9,90");
+ * input that isn't a valid number is kept as typed so it can still be fixed.
+ * @param type Type of the field in the extraction schema.
+ */
+export const updateProductField = (
+  data: ProductData[],
+  index: number,
+  field: string,
+  value: string,
+  type: ProductFieldType = 'string'
+): ProductData[] => {
+  const trimmed = value.trim();
+  let stored: string | number | null = trimmed === '' ? null : trimmed;
+  if (stored !== null && (type === 'number' || type === 'integer')) {
+    const number = parsePrice(stored);
+    if (number !== null && (type === 'number' || Number.isInteger(number))) stored = number;
+  }
+  return data.map((product, i) => i === index ? { ...product, [field]: stored } : product);
+};
@@ -0,0 +1,311 @@
+/**
+ * Post-processing of product crops for marketplace listings: background cleanup,
+ * whitespace trimming, square padding, resizing and WebP/JPEG encoding.
+ * Everything runs locally: the background is flood-filled from the edges of the crop.
+ * Used by the render worker, or on the main thread through utils/renderClient.ts.
+ */
+
+import { ImageProcessingOptions } from '../types';
+import { MAX_CANVAS_DIM } from './boxGeometry';
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  enabled: false,
+  background: 'white',
+  tolerance: 24,
+  trim: true,
+  square: true,
+  size: 1200,
+  format: 'image/jpeg',
+  quality: 0.9,
+};
+
+// Target sizes offered in the options (longest side, in pixels)
+export const IMAGE_SIZES = [0, 800, 1000, 1200, 1600, 2048];
+
+// Pixels more transparent than this count as background
+const ALPHA_THRESHOLD = 128;
+
+// Share of the border the background color must cover, or the crop has no plain background to remove
+const MIN_BORDER_SHARE = 0.3;
+
+// Space kept around trimmed content, as a share of its longest side
+const TRIM_MARGIN = 0.03;
+
+// RGBA pixels, as in ImageData
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PixelBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Size of the output image and where the content is drawn on it
+export interface OutputLayout {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+/**
+ * Reads the options saved by the user, filling in what's missing with the defaults.
+ */
+export const parseImageProcessingOptions = (json: string | null): ImageProcessingOptions => {
+  if (!json) return DEFAULT_IMAGE_PROCESSING;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? { ...DEFAULT_IMAGE_PROCESSING, ...parsed } : DEFAULT_IMAGE_PROCESSING;
+  } catch {
+    return DEFAULT_IMAGE_PROCESSING;
+  }
+};
+
+/**
+ * Indexes of the pixels on the edges of the image.
+ */
+const getBorderPixels = (width: number, height: number): number[] => {
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) {
+    border.push(x);
+    if (height > 1) border.push((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    border.push(y * width);
+    if (width > 1) border.push(y * width + width - 1);
+  }
+  return border;
+};
+
+/**
+ * The dominant color of the image border, averaged over its pixels.
+ * Colors are grouped 16 levels per channel so JPEG noise doesn't split them.
+ * @returns null when no color covers enough of the border (a photo reaching the edges).
+ */
+const getBackgroundColor = (image: PixelBuffer, border: number[]): [number, number, number] | null => {
+  const { data } = image;
+  const groups = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let opaque = 0;
+  for (const pixel of border) {
+    const i = pixel * 4;
+    if (data[i + 3] < ALPHA_THRESHOLD) continue;
+    opaque++;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const group = groups.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    group.count++;
+    group.r += data[i];
+    group.g += data[i + 1];
+    group.b += data[i + 2];
+    groups.set(key, group);
+  }
+  // Already transparent all around: nothing to match but the transparency
+  if (opaque === 0) return [255, 255, 255];
+
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  groups.forEach(group => {
+    if (!best || group.count > best.count) best = group;
+  });
+  if (!best || best.count < opaque * MIN_BORDER_SHARE) return null;
+  const { count, r, g, b } = best;
+  return [r / count, g / count, b / count];
+};
+
+/**
+ * Replaces the background of the image, in place. The background is the dominant border
+ * color; every pixel connected to the edges within `tolerance` of it is flood-filled,
+ * so the same color inside the product is kept.
+ * @returns How many pixels were replaced.
+ */
+export const removeBackground = (image: PixelBuffer, background: 'white' | 'transparent', tolerance: number): number => {
+  const { width, height, data } = image;
+  if (width === 0 || height === 0) return 0;
+  const border = getBorderPixels(width, height);
+  const color = getBackgroundColor(image, border);
+  if (!color) return 0;
+
+  const isBackground = (pixel: number) => {
+    const i = pixel * 4;
+    if (data[i + 3] < ALPHA_THRESHOLD) return true;
+    return Math.abs(data[i] - color[0]) <= tolerance
+      && Math.abs(data[i + 1] - color[1]) <= tolerance
+      && Math.abs(data[i + 2] - color[2]) <= tolerance;
+  };
+
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (const pixel of border) {
+    if (!visited[pixel] && isBackground(pixel)) {
+      visited[pixel] = 1;
+      stack.push(pixel);
+    }
+  }
+
+  let filled = 0;
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    const i = pixel * 4;
+    data[i] = 255;
+    data[i + 1] = 255;
+    data[i + 2] = 255;
+    data[i + 3] = background === 'white' ? 255 : 0;
+    filled++;
+
+    const x = pixel % width;
+    const neighbors = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      pixel - width,
+      pixel + width,
+    ];
+    for (const next of neighbors) {
+      if (next < 0 || next >= width * height || visited[next]) continue;
+      // Checked before the pixel is painted, so it compares the original color
+      if (isBackground(next)) {
+        visited[next] = 1;
+        stack.push(next);
+      }
+    }
+  }
+  return filled;
+};
+
+/**
+ * The smallest rectangle holding every pixel that isn't transparent or near-white.
+ * @returns null when the image is blank.
+ */
+export const findContentBounds = (image: PixelBuffer, tolerance: number): PixelBounds | null => {
+  const { width, height, data } = image;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] < ALPHA_THRESHOLD) continue;
+      if (Math.min(data[i], data[i + 1], data[i + 2]) >= 255 - tolerance) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Lays out content of the given size on the output image: a margin when trimmed,
+ * centered on a square canvas, then scaled so the longest side is `size`
+ * (capped to MAX_CANVAS_DIM).
+ */
+export const getOutputLayout = (
+  contentWidth: number,
+  contentHeight: number,
+  options: Pick<ImageProcessingOptions, 'trim' | 'square' | 'size'>
+): OutputLayout => {
+  const margin = options.trim ? Math.round(Math.max(contentWidth, contentHeight) * TRIM_MARGIN) : 0;
+  let canvasWidth = contentWidth + margin * 2;
+  let canvasHeight = contentHeight + margin * 2;
+  if (options.square) {
+    canvasWidth = canvasHeight = Math.max(canvasWidth, canvasHeight);
+  }
+
+  const longest = Math.max(canvasWidth, canvasHeight);
+  const scale = Math.min(options.size > 0 ? options.size / longest : 1, MAX_CANVAS_DIM / longest);
+  const width = Math.max(1, Math.round(canvasWidth * scale));
+  const height = Math.max(1, Math.round(canvasHeight * scale));
+  const drawWidth = Math.max(1, Math.round(contentWidth * scale));
+  const drawHeight = Math.max(1, Math.round(contentHeight * scale));
+  return {
+    width,
+    height,
+    x: Math.round((width - drawWidth) / 2),
+    y: Math.round((height - drawHeight) / 2),
+    drawWidth,
+    drawHeight,
+  };
+};
+
+type CleanupCanvas = HTMLCanvasElement | OffscreenCanvas;
+type CleanupContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const createCanvas = (width: number, height: number): CleanupCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (canvas: CleanupCanvas): CleanupContext => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CleanupContext | null;
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx;
+};
+
+const canvasToBlob = (canvas: CleanupCanvas, type: string, quality?: number): Promise<Blob> => {
+  if (!('toBlob' in canvas)) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the canvas')), type, quality);
+  });
+};
+
+/**
+ * Re-encodes an image in another format, e.g. WebP as PNG for apps that can't show WebP.
+ */
+export const convertImageBlob = async (image: Blob, type: string): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  try {
+    getContext(canvas).drawImage(bitmap, 0, 0);
+    return await canvasToBlob(canvas, type);
+  } finally {
+    bitmap.close();
+    canvas.width = canvas.height = 1;
+  }
+};
+
+/**
+ * Runs the post-processing steps enabled in the options on an image and encodes the result.
+ * Padding is white, unless a transparent background is kept: only WebP has an alpha channel.
+ */
+export const processImageBlob = async (image: Blob, options: ImageProcessingOptions, signal?: AbortSignal): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  signal?.throwIfAborted();
+  const source = createCanvas(bitmap.width, bitmap.height);
+  const output = createCanvas(1, 1);
+  try {
+    const sourceCtx = getContext(source);
+    sourceCtx.drawImage(bitmap, 0, 0);
+
+    const pixels = sourceCtx.getImageData(0, 0, source.width, source.height);
+    if (options.background !== 'keep') {
+      removeBackground(pixels, options.background, options.tolerance);
+      sourceCtx.putImageData(pixels, 0, 0);
+    }
+    signal?.throwIfAborted();
+
+    const bounds = (options.trim && findContentBounds(pixels, options.tolerance)) || { x: 0, y: 0, width: source.width, height: source.height };
+    const layout = getOutputLayout(bounds.width, bounds.height, options);
+    output.width = layout.width;
+    output.height = layout.height;
+    const ctx = getContext(output);
+    if (!(options.background === 'transparent' && options.format === 'image/webp')) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, layout.width, layout.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, bounds.x, bounds.y, bounds.width, bounds.height, layout.x, layout.y, layout.drawWidth, layout.drawHeight);
+    return await canvasToBlob(output, options.format, options.quality);
+  } finally {
+    // Frees the bitmap and canvas memory right away instead of waiting for GC
+    bitmap.close();
+    source.width = source.height = 1;
+    output.width = output.height = 1;
+  }
+};
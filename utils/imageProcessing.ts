@@ -69,4 +69,28 @@ export const cropImageFromBase64 = (
         img.onerror = (err) => reject(err);
         img.src = base64Image;
     });
-};
\ No newline at end of file
+};
+/**
+ * Decodes a data URL (e.g. a canvas export) into a Blob of its MIME type.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, data] = dataUrl.split(',');
+    const type = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+    const binary = atob(data || '');
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+};
+
+/**
+ * Encodes a Blob as raw base64 (no data URL prefix), the form providers send images in.
+ */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // Chunked, as spreading a whole render would overflow the call stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
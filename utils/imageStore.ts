@@ -0,0 +1,74 @@
+/**
+ * Page renders and product crops, kept as Blobs and referenced by ID from the results
+ * (ImageInfo.imageId, imagem_produto_id) instead of base64 data URLs. Blobs stay in
+ * memory while in use; crops of saved jobs are also in IndexedDB (see jobStore) and
+ * are loaded back on demand.
+ */
+
+import { getJobImage } from './jobStore';
+
+const images = new Map<string, Blob>();
+const objectUrls = new Map<string, string>();
+
+/**
+ * Keeps an image in memory and returns its ID.
+ * @param id Fixed ID, for tests; a random one by default.
+ */
+export const storeImage = (blob: Blob, id: string = crypto.randomUUID()): string => {
+  images.set(id, blob);
+  return id;
+};
+
+/**
+ * The in-memory blob of an image, without looking in the saved jobs.
+ */
+export const getLoadedImage = (id: string): Blob | null => images.get(id) || null;
+
+/**
+ * The blob of an image, from memory or from a saved job.
+ * @returns null when the image was released and never saved.
+ */
+export const getImageBlob = async (id: string): Promise<Blob | null> => {
+  const loaded = images.get(id);
+  if (loaded) return loaded;
+  try {
+    const saved = await getJobImage(id);
+    if (saved) images.set(id, saved);
+    return saved;
+  } catch {
+    // No IndexedDB (private mode, tests): only memory counts
+    return null;
+  }
+};
+
+/**
+ * An object URL to display or download an image, created once per image.
+ */
+export const getImageUrl = async (id: string): Promise<string | null> => {
+  const existing = objectUrls.get(id);
+  if (existing) return existing;
+  const blob = await getImageBlob(id);
+  if (!blob) return null;
+  // Another caller may have created it while the blob loaded
+  if (!objectUrls.has(id)) objectUrls.set(id, URL.createObjectURL(blob));
+  return objectUrls.get(id)!;
+};
+
+/**
+ * Drops images from memory and revokes their object URLs. Saved crops can still be loaded again.
+ */
+export const releaseImages = (ids: string[]) => {
+  for (const id of ids) {
+    images.delete(id);
+    const url = objectUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+};
+
+/**
+ * Drops every image from memory, when the results are cleared or replaced.
+ */
+export const releaseAllImages = () => {
+  releaseImages(Array.from(new Set([...images.keys(), ...objectUrls.keys()])));
+};
@@ -0,0 +1,250 @@
+import { ExtractionJob, JobPageResult, ProductData } from '../types';
+import { dataUrlToBlob } from './imageProcessing';
+
+const DB_NAME = 'catalog-extractor';
+const DB_VERSION = 2;
+
+const JOBS_STORE = 'jobs';
+const PAGES_STORE = 'pages';
+const FILES_STORE = 'files';
+const IMAGES_STORE = 'images'; // Crops, referenced by imagem_produto_id and imagem_original_id
+
+interface StoredFile {
+  jobId: string;
+  name: string;
+  blob: Blob;
+}
+
+interface StoredImage {
+  id: string;
+  jobId: string;
+  blob: Blob;
+}
+
+// Finds the in-memory blob of an image ID (see imageStore)
+export type ImageLookup = (id: string) => Blob | null;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Moves the crops version 1 saved as data URLs inside the products into the images store.
+ */
+const moveLegacyCrops = (tx: IDBTransaction) => {
+  const images = tx.objectStore(IMAGES_STORE);
+  const cursorRequest = tx.objectStore(PAGES_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const page = cursor.value;
+    const products = page.products.map(({ imagem_produto_base64, ...product }: any) => {
+      if (!imagem_produto_base64) return product;
+      const id = crypto.randomUUID();
+      const stored: StoredImage = { id, jobId: page.jobId, blob: dataUrlToBlob(imagem_produto_base64) };
+      images.put(stored);
+      return { ...product, imagem_produto_id: id };
+    });
+    cursor.update({ ...page, products });
+    cursor.continue();
+  };
+};
+
+/**
+ * The stored images of a product: its crop, and the crop before post-processing.
+ */
+const getProductImageIds = (product: ProductData): string[] => {
+  return [product.imagem_produto_id, product.imagem_original_id].filter((id): id is string => !!id);
+};
+
+/**
+ * Queues the crops of the products that aren't saved yet. Crops no longer in memory
+ * were saved by an earlier checkpoint.
+ */
+const putProductImages = (store: IDBObjectStore, jobId: string, products: ProductData[], lookup: ImageLookup, saved: Set<string> = new Set()) => {
+  for (const id of products.flatMap(getProductImageIds)) {
+    if (saved.has(id)) continue;
+    const blob = lookup(id);
+    if (blob) {
+      const stored: StoredImage = { id, jobId, blob };
+      store.put(stored);
+    }
+  }
+};
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves once a transaction is committed.
+ */
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Opens (and upgrades if needed) the database. The connection is shared.
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PAGES_STORE)) {
+          const pages = db.createObjectStore(PAGES_STORE, { keyPath: ['jobId', 'fileName', 'page'] });
+          pages.createIndex('jobId', 'jobId');
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          const files = db.createObjectStore(FILES_STORE, { keyPath: ['jobId', 'name'] });
+          files.createIndex('jobId', 'jobId');
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+          images.createIndex('jobId', 'jobId');
+          if (event.oldVersion === 1) moveLegacyCrops(request.transaction!);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Creates a job and stores its source PDFs so it can be resumed without re-uploading.
+ */
+export const createJob = async (job: ExtractionJob, files: File[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([JOBS_STORE, FILES_STORE], 'readwrite');
+  tx.objectStore(JOBS_STORE).put(job);
+  for (const file of files) {
+    const stored: StoredFile = { jobId: job.id, name: file.name, blob: file };
+    tx.objectStore(FILES_STORE).put(stored);
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Saves the job metadata (status, counters...).
+ */
+export const updateJob = async (job: ExtractionJob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readwrite');
+  tx.objectStore(JOBS_STORE).put(job);
+  await transactionDone(tx);
+};
+
+/**
+ * Checkpoints a processed page with its products' crops, in one transaction.
+ * Page renders are released after processing and never saved.
+ */
+export const saveJobPage = async (result: JobPageResult, lookup: ImageLookup): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PAGES_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(PAGES_STORE).put(result);
+  putProductImages(tx.objectStore(IMAGES_STORE), result.jobId, result.products, lookup);
+  await transactionDone(tx);
+};
+
+/**
+ * Replaces the stored products of every processed page with the edited result set.
+ * Pages stay marked as done even if all their products were deleted.
+ * New crops (re-cropped in the review panel) are saved and replaced ones deleted.
+ */
+export const saveJobResults = async (jobId: string, products: ProductData[], lookup: ImageLookup): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PAGES_STORE, IMAGES_STORE], 'readwrite');
+  const store = tx.objectStore(PAGES_STORE);
+  const pages: JobPageResult[] = await promisifyRequest(store.index('jobId').getAll(jobId));
+  for (const page of pages) {
+    const pageProducts = products.filter(p => p.origem.source_pdf === page.fileName && p.origem.page === page.page);
+    store.put({ ...page, products: pageProducts });
+  }
+
+  const images = tx.objectStore(IMAGES_STORE);
+  const saved = new Set((await promisifyRequest(images.index('jobId').getAllKeys(jobId))).map(String));
+  const used = new Set(products.flatMap(getProductImageIds));
+  saved.forEach(id => { if (!used.has(id)) images.delete(id); });
+  putProductImages(images, jobId, products, lookup, saved);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads a saved crop, or null when no job has it.
+ */
+export const getJobImage = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const stored: StoredImage | undefined = await promisifyRequest(db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(id));
+  return stored ? stored.blob : null;
+};
+
+export const getJob = async (jobId: string): Promise<ExtractionJob | undefined> => {
+  const db = await openDb();
+  return promisifyRequest(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).get(jobId));
+};
+
+/**
+ * Lists all saved jobs, most recent first.
+ */
+export const listJobs = async (): Promise<ExtractionJob[]> => {
+  const db = await openDb();
+  const jobs: ExtractionJob[] = await promisifyRequest(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll());
+  return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Returns the processed pages of a job in file/page order.
+ */
+export const getJobPages = async (job: ExtractionJob): Promise<JobPageResult[]> => {
+  const db = await openDb();
+  const index = db.transaction(PAGES_STORE).objectStore(PAGES_STORE).index('jobId');
+  const pages: JobPageResult[] = await promisifyRequest(index.getAll(job.id));
+  return pages.sort((a, b) =>
+    (job.fileNames.indexOf(a.fileName) - job.fileNames.indexOf(b.fileName)) || (a.page - b.page)
+  );
+};
+
+/**
+ * Restores the source PDFs of a job as File objects, in the original order.
+ */
+export const getJobFiles = async (job: ExtractionJob): Promise<File[]> => {
+  const db = await openDb();
+  const index = db.transaction(FILES_STORE).objectStore(FILES_STORE).index('jobId');
+  const stored: StoredFile[] = await promisifyRequest(index.getAll(job.id));
+  return job.fileNames
+    .map(name => stored.find(s => s.name === name))
+    .filter((s): s is StoredFile => !!s)
+    .map(s => new File([s.blob], s.name, { type: 'application/pdf' }));
+};
+
+/**
+ * Deletes a job with all its pages, files and crops.
+ */
+export const deleteJob = async (jobId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([JOBS_STORE, PAGES_STORE, FILES_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(JOBS_STORE).delete(jobId);
+  for (const storeName of [PAGES_STORE, FILES_STORE, IMAGES_STORE]) {
+    const store = tx.objectStore(storeName);
+    const keys = await promisifyRequest(store.index('jobId').getAllKeys(jobId));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(tx);
+};
@@ -0,0 +1,211 @@
+/**
+ * Builds the Nuvemshop bulk product import file (Produtos > Importar e exportar).
+ * Variants are rows that repeat the parent's "Identificador URL" with an empty "Nome".
+ */
+
+import { ProductData } from '../types';
+import { normalizeCode } from './dedupUtils';
+import { formatCanonicalNumber, parseMeasurement } from './validation';
+import { formatProductPrice } from './pricing';
+
+export const NUVEMSHOP_HEADERS = [
+  'Identificador URL',
+  'Nome',
+  'Categorias',
+  'Nome da variação 1',
+  'Valor da variação 1',
+  'Nome da variação 2',
+  'Valor da variação 2',
+  'Nome da variação 3',
+  'Valor da variação 3',
+  'Preço',
+  'Preço promocional',
+  'Peso (kg)',
+  'Altura (cm)',
+  'Largura (cm)',
+  'Comprimento (cm)',
+  'Estoque',
+  'SKU',
+  'Código de barras',
+  'Mostrar na loja',
+  'Frete grátis',
+  'Descrição',
+  'Tags',
+  'Título para SEO',
+  'Descrição para SEO',
+  'Marca',
+  'Produto Físico',
+  'MPN (Cód. Exclusivo, Modelo Fabricante)',
+  'Sexo',
+  'Faixa etária',
+  'Custo',
+];
+
+// Nuvemshop cuts longer SEO fields
+const SEO_TITLE_MAX = 70;
+const SEO_DESCRIPTION_MAX = 320;
+
+export interface NuvemshopExportOptions {
+  variantProperty: string; // e.g. "Cor" or "Tamanho"
+  price: string; // Applied to every row; empty uses each product's extracted price
+  stock: string; // Empty means unlimited stock
+  showInStore: boolean;
+}
+
+export const DEFAULT_NUVEMSHOP_OPTIONS: NuvemshopExportOptions = {
+  variantProperty: 'Variação',
+  price: '',
+  stock: '',
+  showInStore: true,
+};
+
+// A product with its variants; single products have one variant and no property value
+export interface NuvemshopProductGroup {
+  name: string;
+  variants: { product: ProductData; value: string | null }[];
+}
+
+/**
+ * Builds a URL slug: "Calça Jeans 42" -> "calca-jeans-42".
+ */
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+const truncate = (text: string, max: number): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > max ? singleLine.substring(0, max - 1).trimEnd() + '…' : singleLine;
+};
+
+/**
+ * Longest run of whole words shared at the start of every name.
+ */
+const getCommonPrefix = (names: string[]): string => {
+  const words = names.map(n => n.trim().split(/\s+/));
+  const prefix: string[] = [];
+  for (let i = 0; i < words[0].length; i++) {
+    const word = words[0][i];
+    if (!words.every(w => w[i] !== undefined && w[i].toLowerCase() === word.toLowerCase())) break;
+    prefix.push(word);
+  }
+  return prefix.join(' ');
+};
+
+/**
+ * Groups products sharing a modelo as variants of one product.
+ * The parent name is the common start of their names and each variant value is the rest
+ * ("Camiseta Básica Azul" + "Camiseta Básica Verde" -> "Camiseta Básica": Azul, Verde).
+ */
+export const groupVariants = (data: ProductData[]): NuvemshopProductGroup[] => {
+  const groups: ProductData[][] = [];
+  const byModel = new Map<string, ProductData[]>();
+
+  for (const product of data) {
+    const model = normalizeCode(product.modelo);
+    const group = model ? byModel.get(model) : undefined;
+    if (group) {
+      group.push(product);
+    } else {
+      const newGroup = [product];
+      groups.push(newGroup);
+      if (model) byModel.set(model, newGroup);
+    }
+  }
+
+  return groups.map(products => {
+    if (products.length === 1) {
+      const [product] = products;
+      return { name: product.nome || product.modelo || product.sku || '', variants: [{ product, value: null }] };
+    }
+
+    const names = products.map(p => p.nome || '');
+    const prefix = names.every(Boolean) ? getCommonPrefix(names) : '';
+    const name = prefix || products[0].modelo || '';
+    return {
+      name,
+      variants: products.map((product, i) => {
+        const rest = names[i].substring(prefix.length).trim();
+        return { product, value: rest || product.sku || product.codigo || String(i + 1) };
+      }),
+    };
+  });
+};
+
+/**
+ * Groups variants and gives every group a unique slug, adding a numeric suffix to repeats.
+ */
+export const groupWithSlugs = (data: ProductData[]): { group: NuvemshopProductGroup; slug: string }[] => {
+  const used = new Map<string, number>();
+  return groupVariants(data).map(group => {
+    const base = slugify(group.name) || 'produto';
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    return { group, slug: count > 1 ? `${base}-${count}` : base };
+  });
+};
+
+const formatMeasure = (value: string | null, kind: 'weight' | 'length'): string => {
+  if (!value) return '';
+  const number = parseMeasurement(value, kind);
+  return number === null ? '' : formatCanonicalNumber(number);
+};
+
+/**
+ * Builds the import rows (without the header).
+ */
+export const buildNuvemshopRows = (data: ProductData[], options: NuvemshopExportOptions): string[][] => {
+  const rows: string[][] = [];
+
+  for (const { group, slug } of groupWithSlugs(data)) {
+    const hasVariants = group.variants.some(v => v.value !== null);
+
+    group.variants.forEach(({ product, value }, i) => {
+      const isParent = i === 0;
+      const description = product.descricao || '';
+      const row: Record<string, string> = {
+        'Identificador URL': slug,
+        'Nome': isParent ? group.name : '',
+        'Categorias': isParent ? product.categoria || '' : '',
+        'Nome da variação 1': hasVariants ? options.variantProperty : '',
+        'Valor da variação 1': value || '',
+        'Preço': options.price || formatProductPrice(product),
+        'Peso (kg)': formatMeasure(product.peso_kg, 'weight'),
+        'Altura (cm)': formatMeasure(product.altura_cm, 'length'),
+        'Largura (cm)': formatMeasure(product.largura_cm, 'length'),
+        'Comprimento (cm)': formatMeasure(product.comprimento_cm, 'length'),
+        'Estoque': options.stock,
+        'SKU': product.sku || product.codigo || '',
+        'Código de barras': (product.codigo_barras || '').replace(/\D/g, ''),
+        'Mostrar na loja': isParent ? (options.showInStore ? 'SIM' : 'NÃO') : '',
+        'Frete grátis': isParent ? 'NÃO' : '',
+        'Descrição': isParent ? description : '',
+        'Título para SEO': isParent ? truncate(group.name, SEO_TITLE_MAX) : '',
+        'Descrição para SEO': isParent ? truncate(description, SEO_DESCRIPTION_MAX) : '',
+        'Produto Físico': isParent ? 'SIM' : '',
+        'MPN (Cód. Exclusivo, Modelo Fabricante)': isParent ? product.mpn || '' : '',
+        'Sexo': isParent ? product.sexo || '' : '',
+        'Faixa etária': isParent ? product.faixa_etaria || '' : '',
+      };
+      rows.push(NUVEMSHOP_HEADERS.map(header => row[header] || ''));
+    });
+  }
+
+  return rows;
+};
+
+const toCell = (value: string): string => {
+  return /[";\n\r]/.test(value) ? '"' + value.replace(/"/g, '""') + '"' : value;
+};
+
+/**
+ * Converts products to the Nuvemshop import CSV (semicolon separated, like the template).
+ */
+export const convertToNuvemshopCSV = (data: ProductData[], options: NuvemshopExportOptions): string => {
+  const rows = [NUVEMSHOP_HEADERS, ...buildNuvemshopRows(data, options)];
+  return rows.map(row => row.map(toCell).join(';')).join('\n');
+};
@@ -0,0 +1,141 @@
+/**
+ * Local OCR of scanned pages, which have no text layer. Tesseract runs in the browser
+ * on a render sharper than the one sent to the model, and its words are passed to the
+ * model as text, like the text layer of vector pages.
+ */
+
+import type { Page, Worker } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import porDataUrl from '@tesseract.js-data/por/4.0.0_best_int/por.traineddata.gz?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { TextSpan } from '../types';
+import { createAbortError } from './scheduler';
+
+// Render scale for OCR: small print needs ~300 DPI (1.0 = 72 DPI)
+export const OCR_SCALE = 4.0;
+
+// Catalogs are mostly Portuguese, with English technical terms.
+// The language data is bundled with the app instead of fetched from Tesseract's CDN.
+const OCR_LANGUAGES: Record<string, string> = { por: porDataUrl, eng: engDataUrl };
+
+// A minimal module using a SIMD instruction, to pick the faster core where it runs
+const SIMD_TEST_MODULE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+// Words below this confidence (0-100) are mostly noise from photos and drawings
+const MIN_WORD_CONFIDENCE = 40;
+
+// Pages with less text than this are treated as scanned (a stray page number doesn't count)
+const MIN_TEXT_LAYER_CHARS = 20;
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Whether the text layer has enough text to stand for the page, or it needs OCR.
+ */
+export const hasTextLayer = (spans: TextSpan[]): boolean => {
+  return spans.reduce((total, span) => total + span.text.length, 0) >= MIN_TEXT_LAYER_CHARS;
+};
+
+/**
+ * Converts Tesseract's result into one span per word, with a 0-1000 box like box_2d.
+ * @param width Width in pixels of the image that was recognized.
+ * @param height Height in pixels of the image that was recognized.
+ */
+export const buildOcrSpans = (page: Pick<Page, 'blocks'>, width: number, height: number): TextSpan[] => {
+  const toScale = (value: number, size: number) => Math.round(Math.max(0, Math.min(1000, (value / size) * 1000)));
+  const spans: TextSpan[] = [];
+
+  for (const block of page.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const text = word.text.trim();
+          if (!text || word.confidence < MIN_WORD_CONFIDENCE) continue;
+          spans.push({
+            text,
+            box: [
+              toScale(word.bbox.y0, height),
+              toScale(word.bbox.x0, width),
+              toScale(word.bbox.y1, height),
+              toScale(word.bbox.x1, width),
+            ],
+            confidence: Math.round(word.confidence),
+          });
+        }
+      }
+    }
+  }
+  return spans;
+};
+
+const getImageSize = async (image: Blob): Promise<{ width: number; height: number }> => {
+  const bitmap = await createImageBitmap(image);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+const fetchLanguage = async (code: string, url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load the ${code} OCR data: HTTP ${response.status}`);
+  return { code, data: new Uint8Array(await response.arrayBuffer()) };
+};
+
+/**
+ * Starts a Tesseract worker from the bundled worker script, core and language data.
+ */
+const createOcrWorker = async (): Promise<Worker> => {
+  const { createWorker } = await import('tesseract.js');
+  const languages = await Promise.all(Object.entries(OCR_LANGUAGES).map(([code, url]) => fetchLanguage(code, url)));
+  return createWorker(languages, undefined, {
+    workerPath: workerUrl,
+    corePath: WebAssembly.validate(SIMD_TEST_MODULE) ? coreSimdUrl : coreUrl,
+    // A blob worker would resolve the bundled paths against its blob: URL
+    workerBlobURL: false,
+  });
+};
+
+/**
+ * Recognizes the words of a page render. The Tesseract worker (and its language data)
+ * is loaded on first use and shared by every page; it recognizes one page at a time.
+ * Aborting terminates the worker, since Tesseract can't cancel a page it is reading;
+ * the next page loads a new one.
+ * @param image The page rendered at OCR_SCALE.
+ */
+export const recognizePage = async (image: Blob, signal?: AbortSignal): Promise<TextSpan[]> => {
+  signal?.throwIfAborted();
+  if (!workerPromise) {
+    workerPromise = createOcrWorker();
+    // A failed load is retried by the next page
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  const recognition = workerPromise.then(worker => Promise.all([
+    worker.recognize(image, {}, { blocks: true }),
+    getImageSize(image),
+  ]));
+  const [{ data }, size] = await new Promise<Awaited<typeof recognition>>((resolve, reject) => {
+    const onAbort = () => {
+      terminateOcr();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    recognition.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+  return buildOcrSpans(data, size.width, size.height);
+};
+
+/**
+ * Releases the Tesseract worker, at the end of a run.
+ */
+export const terminateOcr = async (): Promise<void> => {
+  if (!workerPromise) return;
+  const pending = workerPromise;
+  workerPromise = null;
+  try {
+    await (await pending).terminate();
+  } catch {
+    // The worker never loaded; nothing to release
+  }
+};
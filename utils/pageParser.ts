@@ -1,42 +1,149 @@
 
 import * as pdfjsLib from 'pdfjs-dist/build/pdf';
-import { ImageInfo } from '../types';
+import { TextSpan } from '../types';
+import { Matrix, boxIoU, computeCropRegion, findImagePlacements } from './boxGeometry';
+import { buildTextSpans } from './textLayer';
 
 // Configuração do Worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.js`;
 
 const DEFAULT_SCALE = 1.5;
 
+// An embedded image must cover the product box at least this well (IoU) to be used as its photo
+const MIN_IMAGE_IOU = 0.5;
+
+// Smaller embedded images are icons or bullets; the rendered crop is sharper
+const MIN_IMAGE_SIZE = 100;
+
+// Type of canvas available: DOM canvases on the main thread, OffscreenCanvas in the render worker
+type PageCanvas = HTMLCanvasElement | OffscreenCanvas;
+
 // PDF.js Operator List Mapping
 let OPS: any = null;
 
 /**
- * Helper to convert CMYK buffer to RGB
- * CMYK is 4 bytes per pixel, RGB is 3 (or 4 for RGBA)
+ * Canvas factory for PDF.js inside the render worker, where there is no document to create canvases from.
+ */
+class OffscreenCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+    }
+
+    reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+        if (canvasAndContext.canvas) {
+            canvasAndContext.canvas.width = 0;
+            canvasAndContext.canvas.height = 0;
+        }
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
+
+const isWorkerScope = (): boolean => typeof document === 'undefined';
+
+const createCanvas = (width: number, height: number): PageCanvas => {
+    if (isWorkerScope()) return new OffscreenCanvas(Math.floor(width), Math.floor(height));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+// Frees the canvas memory right away instead of waiting for GC
+const releaseCanvas = (canvas: PageCanvas) => {
+    canvas.width = 1;
+    canvas.height = 1;
+};
+
+const canvasToBlob = (canvas: PageCanvas, type: string, quality?: number): Promise<Blob> => {
+    if (!('toBlob' in canvas)) return canvas.convertToBlob({ type, quality });
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the canvas')), type, quality);
+    });
+};
+
+/**
+ * Waits for a PDF.js render task, cancelling it when the signal aborts.
+ */
+const runRenderTask = async (task: any, signal?: AbortSignal): Promise<void> => {
+    const cancel = () => task.cancel();
+    signal?.addEventListener('abort', cancel);
+    try {
+        await task.promise;
+    } finally {
+        signal?.removeEventListener('abort', cancel);
+    }
+};
+
+/**
+ * Copies a decoded PDF image object into RGBA pixels. PDF.js has already converted
+ * CMYK and 8-bit gray to RGB, and applied the image's SMask or Mask as alpha.
+ * @returns The pixels, or null for an unknown layout.
  */
-const convertCMYKtoRGB = (cmykData: Uint8Array | Uint8ClampedArray): Uint8ClampedArray => {
-    const pixelCount = cmykData.length / 4;
-    const rgbData = new Uint8ClampedArray(pixelCount * 4); // RGBA output
-
-    for (let i = 0, j = 0; i < cmykData.length; i += 4, j += 4) {
-        const c = cmykData[i] / 255;
-        const m = cmykData[i + 1] / 255;
-        const y = cmykData[i + 2] / 255;
-        const k = cmykData[i + 3] / 255;
-
-        // Simple CMYK to RGB formula
-        // Note: In strict color management, this needs ICC profiles, 
-        // but for web display this approximation is standard.
-        let r = 255 * (1 - c) * (1 - k);
-        let g = 255 * (1 - m) * (1 - k);
-        let b = 255 * (1 - y) * (1 - k);
-
-        rgbData[j] = Math.round(r);
-        rgbData[j + 1] = Math.round(g);
-        rgbData[j + 2] = Math.round(b);
-        rgbData[j + 3] = 255; // Alpha
+const toImageData = (imgObj: any): ImageData | null => {
+    const { width, height, data } = imgObj;
+    const imgData = new ImageData(width, height);
+    const pixels = imgData.data;
+
+    if (imgObj.kind === pdfjsLib.ImageKind.GRAYSCALE_1BPP) {
+        // 1 bit per pixel, rows padded to whole bytes; set bits are white
+        const rowBytes = (width + 7) >> 3;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const value = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7)) ? 255 : 0;
+                const d = (y * width + x) * 4;
+                pixels[d] = pixels[d + 1] = pixels[d + 2] = value;
+                pixels[d + 3] = 255;
+            }
+        }
+    } else if (imgObj.kind === pdfjsLib.ImageKind.RGB_24BPP || data.length === width * height * 3) {
+        for (let p = 0, d = 0; p < data.length; p += 3, d += 4) {
+            pixels[d] = data[p];
+            pixels[d + 1] = data[p + 1];
+            pixels[d + 2] = data[p + 2];
+            pixels[d + 3] = 255;
+        }
+    } else if (imgObj.kind === pdfjsLib.ImageKind.RGBA_32BPP || data.length === width * height * 4) {
+        // Keeps the transparency of masked images
+        pixels.set(data);
+    } else if (data.length === width * height) {
+        // 8-bit gray
+        for (let p = 0, d = 0; p < data.length; p++, d += 4) {
+            pixels[d] = pixels[d + 1] = pixels[d + 2] = data[p];
+            pixels[d + 3] = 255;
+        }
+    } else {
+        return null;
     }
-    return rgbData;
+    return imgData;
+};
+
+/**
+ * Draws a decoded PDF image object onto a new canvas of its native size. Images decoded
+ * by the PDF.js worker arrive as an ImageBitmap, the others as raw pixels.
+ */
+const drawImageObject = (imgObj: any): PageCanvas | null => {
+    const imgData = imgObj.bitmap ? null : toImageData(imgObj);
+    if (!imgObj.bitmap && !imgData) return null;
+
+    const canvas = createCanvas(imgObj.width, imgObj.height);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) {
+        releaseCanvas(canvas);
+        return null;
+    }
+    if (imgData) {
+        ctx.putImageData(imgData, 0, 0);
+    } else {
+        ctx.drawImage(imgObj.bitmap, 0, 0);
+    }
+    return canvas;
 };
 
 /**
@@ -44,96 +151,81 @@ const convertCMYKtoRGB = (cmykData: Uint8Array | Uint8ClampedArray): Uint8Clampe
  */
 export const loadPdfDocument = async (file: File): Promise<pdfjsLib.PDFDocumentProxy> => {
   const arrayBuffer = await file.arrayBuffer();
-  const loadingTask = pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer) });
+  const loadingTask = pdfjsLib.getDocument({
+    data: new Uint8Array(arrayBuffer),
+    // Workers have no DOM: canvases are offscreen and glyphs are drawn as paths
+    ...(isWorkerScope() ? { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true, isOffscreenCanvasSupported: true } : {}),
+  });
   return loadingTask.promise;
 };
 
 /**
- * Renders a single page to a base64 image string for AI analysis.
+ * Renders a single page to a JPEG for AI analysis.
  */
-export const renderSinglePage = async (
+export const renderPageBlob = async (
   pdf: pdfjsLib.PDFDocumentProxy,
   pageNumber: number,
-  filename: string,
-  scale: number = DEFAULT_SCALE
-): Promise<ImageInfo> => {
+  scale: number = DEFAULT_SCALE,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  signal?.throwIfAborted();
   const page = await pdf.getPage(pageNumber);
   const viewport = page.getViewport({ scale: scale });
   
-  const canvas = document.createElement('canvas');
+  const canvas = createCanvas(viewport.width, viewport.height);
   const context = canvas.getContext('2d', { willReadFrequently: true });
   
   if (!context) {
     throw new Error('Could not get canvas context');
   }
 
-  canvas.height = viewport.height;
-  canvas.width = viewport.width;
-
-  await page.render({ canvasContext: context, viewport: viewport }).promise;
+  try {
+    await runRenderTask(page.render({ canvasContext: context, viewport: viewport }), signal);
+    return await canvasToBlob(canvas, 'image/jpeg', 0.85);
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
 
-  const base64 = canvas.toDataURL('image/jpeg', 0.85);
-  
-  // Cleanup
-  canvas.width = 1;
-  canvas.height = 1; 
-  
-  return {
-    filename: `${filename}-page-${pageNumber}`,
-    page: pageNumber,
-    hash: `${filename}-${pageNumber}`,
-    base64: base64
-  };
+/**
+ * Reads the text layer of a page, with each span positioned on the 0-1000 scale.
+ * Scanned pages have no text layer and return an empty list.
+ */
+export const extractPageText = async (pdf: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<TextSpan[]> => {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  return buildTextSpans(content.items, page.getViewport({ scale: 1 }));
 };
 
 /**
  * "Text Suppressor" Engine + High Quality Crop
- * Renders a specific region of the PDF with text layers disabled.
+ * Renders a specific region of the PDF with text layers disabled, as a lossless PNG.
+ * @returns The crop, or null if it failed. Cancellation is rethrown.
  */
-export const renderHighQualityCrop = async (
+export const renderCropBlob = async (
   pdf: pdfjsLib.PDFDocumentProxy,
   pageNumber: number,
   box_2d: [number, number, number, number],
-  scale: number = 4.0
-): Promise<string | null> => {
+  scale: number = 4.0,
+  signal?: AbortSignal
+): Promise<Blob | null> => {
   try {
+      signal?.throwIfAborted();
       const page = await pdf.getPage(pageNumber);
       
-      const ymin = Math.max(0, Math.min(1000, box_2d[0]));
-      const xmin = Math.max(0, Math.min(1000, box_2d[1]));
-      const ymax = Math.max(0, Math.min(1000, box_2d[2]));
-      const xmax = Math.max(0, Math.min(1000, box_2d[3]));
-
       const unscaledViewport = page.getViewport({ scale: 1.0 });
-      
-      const cropX = (xmin / 1000) * unscaledViewport.width;
-      const cropY = (ymin / 1000) * unscaledViewport.height;
-      const cropWidth = ((xmax - xmin) / 1000) * unscaledViewport.width;
-      const cropHeight = ((ymax - ymin) / 1000) * unscaledViewport.height;
-
-      if (cropWidth <= 0 || cropHeight <= 0) return null;
 
-      // Safety Cap
-      const MAX_CANVAS_DIM = 4096;
-      let finalScale = scale;
-      
-      if ((cropWidth * finalScale) > MAX_CANVAS_DIM) {
-          finalScale = MAX_CANVAS_DIM / cropWidth;
-      }
-      if ((cropHeight * finalScale) > MAX_CANVAS_DIM) {
-          finalScale = MAX_CANVAS_DIM / cropHeight;
-      }
+      // Box -> page rectangle, with the canvas safety cap applied
+      const region = computeCropRegion(box_2d, unscaledViewport.width, unscaledViewport.height, scale);
+      if (!region) return null;
 
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d', { alpha: true, willReadFrequently: true });
+      const canvas = createCanvas(region.canvasWidth, region.canvasHeight);
+      const ctx = canvas.getContext('2d', { alpha: true, willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
       if (!ctx) return null;
 
-      canvas.width = Math.floor(cropWidth * finalScale);
-      canvas.height = Math.floor(cropHeight * finalScale);
-
-      ctx.translate(-cropX * finalScale, -cropY * finalScale);
+      ctx.translate(-region.x * region.scale, -region.y * region.scale);
 
-      const viewport = page.getViewport({ scale: finalScale });
+      const viewport = page.getViewport({ scale: region.scale });
 
       // TEXT SUPPRESSION LOGIC
       const opList = await page.getOperatorList();
@@ -161,23 +253,23 @@ export const renderHighQualityCrop = async (
           }
       }
 
-      await page.render({
-          canvasContext: ctx,
-          viewport: viewport,
-      }).promise;
+      try {
+          await runRenderTask(page.render({
+              canvasContext: ctx,
+              viewport: viewport,
+          }), signal);
 
-      // Export Lossless PNG
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
+          // Export Lossless PNG
+          ctx.imageSmoothingEnabled = true;
+          ctx.imageSmoothingQuality = 'high';
 
-      const base64 = canvas.toDataURL('image/png');
-
-      canvas.width = 1;
-      canvas.height = 1;
-      
-      return base64;
+          return await canvasToBlob(canvas, 'image/png');
+      } finally {
+          releaseCanvas(canvas);
+      }
 
   } catch (e) {
+      if (signal?.aborted) throw e;
       console.error("Error in High Quality Crop:", e);
       return null;
   }
@@ -185,115 +277,54 @@ export const renderHighQualityCrop = async (
 
 /**
  * "God Mode" Extraction
- * Attempts to extract the raw bitmap image object directly from the PDF stream.
+ * Attempts to extract the raw bitmap image object directly from the PDF stream, as a PNG.
+ * The operator list is walked with the transformation matrix to find where each image is
+ * painted, and the image covering the box best (by IoU) is picked.
+ * @returns The image, or null when no embedded image fits the box. Cancellation is rethrown.
  */
-export const extractBestImageForBox = async (
+export const extractImageBlob = async (
     pdf: pdfjsLib.PDFDocumentProxy,
     pageNumber: number,
-    box_2d: [number, number, number, number]
-): Promise<string | null> => {
+    box_2d: [number, number, number, number],
+    signal?: AbortSignal
+): Promise<Blob | null> => {
     try {
+        signal?.throwIfAborted();
         const page = await pdf.getPage(pageNumber);
         const opList = await page.getOperatorList();
-        const commonObjs = page.commonObjs;
-        const objs = page.objs;
-
-        const ymin = box_2d[0];
-        const xmin = box_2d[1];
-        const ymax = box_2d[2];
-        const xmax = box_2d[3];
-        
-        const boxWidth = xmax - xmin;
-        const boxHeight = ymax - ymin;
-        // Normalized Page Size roughly 1000x1000 units for simple math
-        // In reality we check overlap ratio
-        
+        const viewport = page.getViewport({ scale: 1.0 });
+
         if (!OPS) OPS = (pdfjsLib as any).OPS;
-        
-        let bestImage: string | null = null;
-        let bestScore = -1;
-
-        for (let i = 0; i < opList.fnArray.length; i++) {
-            if (opList.fnArray[i] === OPS.paintImageXObject) {
-                const imgName = opList.argsArray[i][0];
-                
-                let imgObj = null;
-                if (commonObjs.has(imgName)) {
-                    imgObj = commonObjs.get(imgName);
-                } else if (objs.has(imgName)) {
-                    imgObj = objs.get(imgName);
-                }
-
-                if (imgObj && imgObj.width > 100 && imgObj.height > 100) {
-                    
-                    // Heuristics
-                    const imgAspect = imgObj.width / imgObj.height;
-                    const boxAspect = boxWidth / boxHeight;
-                    const aspectDiff = Math.abs(imgAspect - boxAspect);
-                    const resolution = imgObj.width * imgObj.height;
-
-                    // STRICT "Background vs Object" Check
-                    // We estimate if the image is significantly larger than the box
-                    // Since we don't have the full transformation matrix here (it's complex in PDF.js),
-                    // We use aspect ratio as a proxy for fit.
-                    
-                    // If the aspect ratio is wildly different (> 0.5 difference), 
-                    // it's likely a background or a sprite sheet.
-                    // TIGHTENED from 0.8 to 0.5
-                    if (aspectDiff > 0.5) continue; 
-
-                    let score = 0;
-                    score += (1 - aspectDiff) * 100;
-                    if (resolution > 1000000) score += 50; // Boost for HD
-
-                    if (score > bestScore) {
-                        bestScore = score;
-                        
-                        const canvas = document.createElement('canvas');
-                        canvas.width = imgObj.width;
-                        canvas.height = imgObj.height;
-                        const ctx = canvas.getContext('2d');
-                        if (!ctx) continue;
-
-                        const imgData = ctx.createImageData(imgObj.width, imgObj.height);
-                        
-                        // Handle Data Types
-                        if (imgObj.kind === 4) { 
-                             // CMYK Conversion
-                             const rgbData = convertCMYKtoRGB(imgObj.data);
-                             imgData.data.set(rgbData);
-                        } else if (imgObj.data.length === imgObj.width * imgObj.height * 3) {
-                            // RGB (24-bit) to RGBA (32-bit)
-                            const data = imgObj.data;
-                            for (let p = 0, d = 0; p < data.length; p += 3, d += 4) {
-                                imgData.data[d] = data[p];
-                                imgData.data[d + 1] = data[p + 1];
-                                imgData.data[d + 2] = data[p + 2];
-                                imgData.data[d + 3] = 255;
-                            }
-                        } else if (imgObj.data.length === imgObj.width * imgObj.height * 4) {
-                            // RGBA (32-bit)
-                            imgData.data.set(imgObj.data);
-                        } else {
-                            // Unsupported format (Grayscale etc), skip
-                            continue;
-                        }
-                        
-                        ctx.putImageData(imgData, 0, 0);
-                        bestImage = canvas.toDataURL('image/png');
-                    }
-                }
+
+        const getImageObject = (image: any) => {
+            // Inline images carry their data; XObjects are resolved by ID
+            if (typeof image !== 'string') return image;
+            if (page.commonObjs.has(image)) return page.commonObjs.get(image);
+            return page.objs.has(image) ? page.objs.get(image) : null;
+        };
+
+        const candidates = findImagePlacements(opList.fnArray, opList.argsArray, OPS, viewport.transform as Matrix, viewport.width, viewport.height)
+            .map(placement => ({ imgObj: getImageObject(placement.image), iou: boxIoU(placement.box, box_2d) }))
+            .filter(({ imgObj, iou }) => imgObj && imgObj.width >= MIN_IMAGE_SIZE && imgObj.height >= MIN_IMAGE_SIZE && iou >= MIN_IMAGE_IOU)
+            // Best fit first; the same photo placed twice keeps the sharper copy
+            .sort((a, b) => (b.iou - a.iou) || (b.imgObj.width * b.imgObj.height - a.imgObj.width * a.imgObj.height));
+
+        // No candidate left: the caller falls back to the rendered crop
+        for (const { imgObj } of candidates) {
+            signal?.throwIfAborted();
+            const canvas = drawImageObject(imgObj);
+            if (!canvas) continue;
+            try {
+                return await canvasToBlob(canvas, 'image/png');
+            } finally {
+                releaseCanvas(canvas);
             }
         }
-        
-        // TIGHT Threshold: Only return if we are fairly confident.
-        // Otherwise, fallback to the Crop method which is safer for alignment.
-        if (bestScore < 70) return null;
-
-        return bestImage;
+        return null;
 
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.warn("Native extraction fallback invoked due to error:", e);
         return null;
     }
-}
+};
@@ -0,0 +1,125 @@
+/**
+ * Price list data (unit price, quantity breaks) and the markup/discount rule
+ * applied to the results before exporting.
+ */
+
+import { PriceTier, ProductData } from '../types';
+import { SpecificationColumn } from './specifications';
+import { parseLocaleNumber } from './validation';
+
+export type PriceRuleMode = 'none' | 'markup' | 'discount';
+
+export interface PriceRule {
+  mode: PriceRuleMode;
+  percent: number;
+  endWith90: boolean; // Rounds each price up to the next x.90
+}
+
+export const DEFAULT_PRICE_RULE: PriceRule = { mode: 'none', percent: 0, endWith90: false };
+
+export const PRICE_TIERS_HEADER = 'Faixas de preço';
+
+/**
+ * Reads a price as a number. Accepts numbers and printed prices in Brazilian or
+ * international notation, with or without a currency ("R$ 1.234,56", "US$ 12.90", "9,90").
+ * A single dot followed by three digits is a thousands separator ("R$ 1.500" is 1500):
+ * prices don't have three decimals.
+ * @returns The price, or null if it can't be read or is negative.
+ */
+export const parsePrice = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  let text = value.replace(/[a-z]{0,3}\$|€|£|\b[a-z]{3}\b/gi, '').trim();
+  if (/^-?\d{1,3}\.\d{3}$/.test(text)) text = text.replace('.', '');
+  const number = parseLocaleNumber(text);
+  return number !== null && number >= 0 ? number : null;
+};
+
+/**
+ * Formats a price for import files: dot decimal separator and 2 decimals ("1234.50").
+ */
+export const formatPrice = (value: number): string => value.toFixed(2);
+
+/**
+ * Cleans the quantity breaks returned by the model: rows without a valid quantity or price
+ * are dropped, repeated quantities keep the first, and the list is sorted by quantity.
+ */
+export const normalizePriceTiers = (raw: unknown): PriceTier[] => {
+  if (!Array.isArray(raw)) return [];
+  const tiers = new Map<number, PriceTier>();
+  for (const row of raw) {
+    if (!row || typeof row !== 'object') continue;
+    const minQuantity = parsePrice(row.min_quantity);
+    const price = parsePrice(row.price);
+    if (minQuantity === null || minQuantity <= 0 || price === null || tiers.has(minQuantity)) continue;
+    tiers.set(minQuantity, { min_quantity: minQuantity, price });
+  }
+  return Array.from(tiers.values()).sort((a, b) => a.min_quantity - b.min_quantity);
+};
+
+/**
+ * "10+: 9.90 | 50+: 8.50"
+ */
+export const formatPriceTiers = (tiers: PriceTier[]): string => {
+  return tiers.map(tier => `${tier.min_quantity}+: ${formatPrice(tier.price)}`).join(' | ');
+};
+
+/**
+ * Column with the quantity breaks, added to the CSV/XLSX exports when any product has them.
+ */
+export const getPriceTierColumns = (data: ProductData[]): SpecificationColumn[] => {
+  if (!data.some(product => product.faixas_preco?.length)) return [];
+  return [{
+    header: PRICE_TIERS_HEADER,
+    value: product => product.faixas_preco?.length ? formatPriceTiers(product.faixas_preco) : null,
+  }];
+};
+
+/**
+ * The product price as a number (grid edits store it as text).
+ */
+export const getProductPrice = (product: ProductData): number | null => parsePrice(product.preco);
+
+/**
+ * The product price formatted for import files, or '' when it has none.
+ */
+export const formatProductPrice = (product: ProductData): string => {
+  const price = getProductPrice(product);
+  return price === null ? '' : formatPrice(price);
+};
+
+export const isPriceRuleActive = (rule: PriceRule): boolean => {
+  return (rule.mode !== 'none' && rule.percent > 0) || rule.endWith90;
+};
+
+/**
+ * Applies the rule to one price, rounded to cents.
+ */
+export const applyPriceRuleToPrice = (price: number, rule: PriceRule): number => {
+  const percent = Math.min(Math.max(rule.percent, 0), rule.mode === 'discount' ? 100 : Infinity);
+  const factor = rule.mode === 'markup' ? 1 + percent / 100 : rule.mode === 'discount' ? 1 - percent / 100 : 1;
+  let result = Math.round(price * factor * 100) / 100;
+  if (rule.endWith90 && result > 0) {
+    const whole = Math.floor(result);
+    result = result <= whole + 0.9 ? whole + 0.9 : whole + 1.9;
+    result = Math.round(result * 100) / 100;
+  }
+  return result;
+};
+
+/**
+ * Returns a copy of the data with the rule applied to every price and quantity break.
+ * Products without a readable price are left as they are.
+ */
+export const applyPriceRule = (data: ProductData[], rule: PriceRule): ProductData[] => {
+  if (!isPriceRuleActive(rule)) return data;
+  return data.map(product => {
+    const price = getProductPrice(product);
+    if (price === null && !product.faixas_preco?.length) return product;
+    return {
+      ...product,
+      preco: price === null ? product.preco : applyPriceRuleToPrice(price, rule),
+      faixas_preco: product.faixas_preco?.map(tier => ({ ...tier, price: applyPriceRuleToPrice(tier.price, rule) })),
+    };
+  });
+};
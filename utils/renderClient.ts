@@ -0,0 +1,198 @@
+/**
+ * Page rendering off the main thread. PDFs are opened in a dedicated worker that renders
+ * pages and crops with OffscreenCanvas, decodes embedded images and encodes JPEG/PNG,
+ * sending Blobs back to the image store. Every call can be cancelled with an AbortSignal.
+ * Browsers without OffscreenCanvas render on the main thread through the same interface.
+ * The image post-processor (see imageCleanup.ts) runs in the same worker.
+ */
+
+import { ImageInfo, ImageProcessingOptions, ProductData, TextSpan } from '../types';
+import { createAbortError, isAbortError } from './scheduler';
+import { getImageBlob, storeImage } from './imageStore';
+
+type Box = [number, number, number, number];
+
+// Messages to the render worker, besides cancellation
+export type RenderCommand =
+  | { type: 'open'; docId: string; file: File }
+  | { type: 'renderPage'; docId: string; page: number; scale: number }
+  | { type: 'renderCrop'; docId: string; page: number; box: Box; scale: number }
+  | { type: 'extractImage'; docId: string; page: number; box: Box }
+  | { type: 'pageText'; docId: string; page: number }
+  | { type: 'processImage'; image: Blob; options: ImageProcessingOptions }
+  | { type: 'close'; docId: string };
+
+export type RenderRequest = (RenderCommand & { id: number }) | { type: 'cancel'; id: number };
+
+export type RenderResponse =
+  | { id: number; ok: true; result: any }
+  | { id: number; ok: false; error: string; aborted: boolean };
+
+// The part of Worker the client uses, so tests can stand in for it
+export interface RenderWorkerPort {
+  postMessage: (request: RenderRequest) => void;
+  addEventListener: (type: 'message', listener: (event: MessageEvent<RenderResponse>) => void) => void;
+  terminate: () => void;
+}
+
+/**
+ * An open PDF, rendered in the worker or on the main thread.
+ * Renders and crops are kept in the image store and returned by ID.
+ */
+export interface PageRenderer {
+  numPages: number;
+  renderPage: (pageNumber: number, filename: string, scale: number, signal?: AbortSignal) => Promise<ImageInfo>;
+  renderCrop: (pageNumber: number, box: Box, scale: number, signal?: AbortSignal) => Promise<string | null>;
+  extractImage: (pageNumber: number, box: Box, signal?: AbortSignal) => Promise<string | null>;
+  getPageText: (pageNumber: number, signal?: AbortSignal) => Promise<TextSpan[]>;
+  destroy: () => Promise<void>;
+}
+
+const toImageInfo = (filename: string, pageNumber: number, blob: Blob): ImageInfo => ({
+  filename: `${filename}-page-${pageNumber}`,
+  page: pageNumber,
+  hash: `${filename}-${pageNumber}`,
+  imageId: storeImage(blob),
+});
+
+const storeCrop = (blob: Blob | null): string | null => blob ? storeImage(blob) : null;
+
+/**
+ * Sends commands to a render worker and matches the replies to them.
+ * Aborting a call tells the worker to stop it and rejects with an AbortError right away.
+ */
+export const createRenderConnection = (worker: RenderWorkerPort) => {
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+
+  worker.addEventListener('message', (event) => {
+    const response = event.data;
+    const call = pending.get(response.id);
+    if (!call) return;
+    pending.delete(response.id);
+    if ('error' in response) {
+      call.reject(response.aborted ? createAbortError() : new Error(response.error));
+    } else {
+      call.resolve(response.result);
+    }
+  });
+
+  return <T>(command: RenderCommand, signal?: AbortSignal): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const id = nextId++;
+      const onAbort = () => {
+        pending.delete(id);
+        worker.postMessage({ type: 'cancel', id });
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pending.set(id, {
+        resolve: (result) => { signal?.removeEventListener('abort', onAbort); resolve(result); },
+        reject: (error) => { signal?.removeEventListener('abort', onAbort); reject(error); },
+      });
+      worker.postMessage({ ...command, id });
+    });
+  };
+};
+
+type RenderCall = ReturnType<typeof createRenderConnection>;
+
+/**
+ * Opens a PDF in the render worker.
+ */
+export const openWorkerRenderer = async (call: RenderCall, file: File, signal?: AbortSignal): Promise<PageRenderer> => {
+  const docId = crypto.randomUUID();
+  const numPages = await call<number>({ type: 'open', docId, file }, signal);
+
+  return {
+    numPages,
+    renderPage: async (page, filename, scale, pageSignal) => {
+      const blob = await call<Blob>({ type: 'renderPage', docId, page, scale }, pageSignal);
+      return toImageInfo(filename, page, blob);
+    },
+    renderCrop: async (page, box, scale, cropSignal) => storeCrop(await call<Blob | null>({ type: 'renderCrop', docId, page, box, scale }, cropSignal)),
+    extractImage: async (page, box, imageSignal) => storeCrop(await call<Blob | null>({ type: 'extractImage', docId, page, box }, imageSignal)),
+    getPageText: (page, textSignal) => call<TextSpan[]>({ type: 'pageText', docId, page }, textSignal),
+    destroy: () => call<void>({ type: 'close', docId }),
+  };
+};
+
+/**
+ * Opens a PDF on the main thread, for browsers without OffscreenCanvas.
+ * PDF.js is only loaded here and in the worker.
+ */
+export const openMainThreadRenderer = async (file: File): Promise<PageRenderer> => {
+  const { extractImageBlob, extractPageText, loadPdfDocument, renderCropBlob, renderPageBlob } = await import('./pageParser');
+  const pdf = await loadPdfDocument(file);
+
+  return {
+    numPages: pdf.numPages,
+    renderPage: async (page, filename, scale, signal) => toImageInfo(filename, page, await renderPageBlob(pdf, page, scale, signal)),
+    renderCrop: async (page, box, scale, signal) => storeCrop(await renderCropBlob(pdf, page, box, scale, signal)),
+    extractImage: async (page, box, signal) => storeCrop(await extractImageBlob(pdf, page, box, signal)),
+    getPageText: (page, signal) => {
+      signal?.throwIfAborted();
+      return extractPageText(pdf, page);
+    },
+    destroy: () => pdf.destroy(),
+  };
+};
+
+let connection: { worker: RenderWorkerPort; call: RenderCall } | null = null;
+
+export const isRenderWorkerSupported = (): boolean => {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+};
+
+/**
+ * The shared render worker, started on first use. It stays up between runs.
+ */
+const getRenderCall = (): RenderCall => {
+  if (!connection) {
+    const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' }) as unknown as RenderWorkerPort;
+    connection = { worker, call: createRenderConnection(worker) };
+  }
+  return connection.call;
+};
+
+/**
+ * Opens a PDF for rendering, in the shared render worker when the browser supports it.
+ * destroy() releases each document.
+ */
+export const openPageRenderer = async (file: File, signal?: AbortSignal): Promise<PageRenderer> => {
+  if (!isRenderWorkerSupported()) return openMainThreadRenderer(file);
+  return openWorkerRenderer(getRenderCall(), file, signal);
+};
+
+// The image fields of a product, as set by postProcessCrop
+export type ProductImageFields = Pick<ProductData, 'imagem_produto_id' | 'imagem_original_id' | 'imagem_produto_tipo'>;
+
+/**
+ * Runs the image post-processor on a crop, in the render worker when supported.
+ * The processed image becomes the product image and the crop is kept as the original,
+ * for the before/after preview. When processing is off or fails, the crop is used as is.
+ */
+export const postProcessCrop = async (cropId: string, options: ImageProcessingOptions | undefined, signal?: AbortSignal): Promise<ProductImageFields> => {
+  const unprocessed: ProductImageFields = { imagem_produto_id: cropId, imagem_original_id: null, imagem_produto_tipo: null };
+  if (!options?.enabled) return unprocessed;
+  try {
+    const image = await getImageBlob(cropId);
+    if (!image) return unprocessed;
+    let processed: Blob;
+    if (isRenderWorkerSupported()) {
+      processed = await getRenderCall()<Blob>({ type: 'processImage', image, options }, signal);
+    } else {
+      const { processImageBlob } = await import('./imageCleanup');
+      processed = await processImageBlob(image, options, signal);
+    }
+    return { imagem_produto_id: storeImage(processed), imagem_original_id: cropId, imagem_produto_tipo: processed.type || options.format };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('Could not post-process the crop, keeping it as is:', err);
+    return unprocessed;
+  }
+};
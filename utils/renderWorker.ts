@@ -0,0 +1,71 @@
+/**
+ * Render worker: keeps the PDFs opened by utils/renderClient.ts and runs the
+ * rendering, image extraction and encoding of pageParser.ts off the main thread,
+ * as well as the crop post-processing of imageCleanup.ts.
+ */
+
+import { extractImageBlob, extractPageText, loadPdfDocument, renderCropBlob, renderPageBlob } from './pageParser';
+import { processImageBlob } from './imageCleanup';
+import type { RenderCommand, RenderRequest, RenderResponse } from './renderClient';
+
+const documents = new Map<string, Promise<any>>();
+
+// Running commands, by request id, so they can be cancelled
+const controllers = new Map<number, AbortController>();
+
+const getDocument = (docId: string) => {
+  const pdf = documents.get(docId);
+  if (!pdf) throw new Error(`Document ${docId} is not open`);
+  return pdf;
+};
+
+const runCommand = async (command: RenderCommand, signal: AbortSignal): Promise<any> => {
+  switch (command.type) {
+    case 'open': {
+      const pdf = loadPdfDocument(command.file);
+      documents.set(command.docId, pdf);
+      try {
+        return (await pdf).numPages;
+      } catch (err) {
+        documents.delete(command.docId);
+        throw err;
+      }
+    }
+    case 'renderPage':
+      return renderPageBlob(await getDocument(command.docId), command.page, command.scale, signal);
+    case 'renderCrop':
+      return renderCropBlob(await getDocument(command.docId), command.page, command.box, command.scale, signal);
+    case 'extractImage':
+      return extractImageBlob(await getDocument(command.docId), command.page, command.box, signal);
+    case 'pageText':
+      return extractPageText(await getDocument(command.docId), command.page);
+    case 'processImage':
+      return processImageBlob(command.image, command.options, signal);
+    case 'close': {
+      const pdf = documents.get(command.docId);
+      documents.delete(command.docId);
+      if (pdf) await (await pdf).destroy();
+      return undefined;
+    }
+  }
+};
+
+self.onmessage = async (event: MessageEvent<RenderRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+  let response: RenderResponse;
+  try {
+    response = { id: request.id, ok: true, result: await runCommand(request, controller.signal) };
+  } catch (err: any) {
+    response = { id: request.id, ok: false, error: err?.message || String(err), aborted: controller.signal.aborted };
+  } finally {
+    controllers.delete(request.id);
+  }
+  self.postMessage(response);
+};
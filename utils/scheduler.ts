@@ -0,0 +1,185 @@
+/**
+ * Concurrency, rate limiting, retry and pause/cancel helpers for the page processing queue.
+ */
+
+/**
+ * The error every cancelled step rejects with, like fetch() does.
+ */
+export const createAbortError = () => new DOMException('The run was cancelled', 'AbortError');
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * Waits `ms`, rejecting with an AbortError as soon as the signal aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export interface RateLimiter {
+  // Resolves when a new request may be sent
+  acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Creates a sliding-window limiter allowing at most `requestsPerMinute` acquisitions per 60s.
+ * A value <= 0 disables the limit.
+ */
+export const createRateLimiter = (requestsPerMinute: number, windowMs: number = 60_000): RateLimiter => {
+  const timestamps: number[] = [];
+  // Serializes waiters so requests are granted in call order
+  let queue: Promise<void> = Promise.resolve();
+
+  const waitForSlot = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    if (requestsPerMinute <= 0) return;
+
+    while (true) {
+      const now = Date.now();
+      while (timestamps.length > 0 && now - timestamps[0] >= windowMs) {
+        timestamps.shift();
+      }
+      if (timestamps.length < requestsPerMinute) {
+        timestamps.push(now);
+        return;
+      }
+      await sleep(windowMs - (now - timestamps[0]), signal);
+    }
+  };
+
+  const acquire = (signal?: AbortSignal) => {
+    const slot = queue.then(() => waitForSlot(signal));
+    queue = slot.catch(() => {});
+    return slot;
+  };
+
+  return { acquire };
+};
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry: (error: any) => boolean;
+  // Called before waiting; attempt starts at 1
+  onRetry?: (error: any, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal; // Stops waiting for the next attempt
+}
+
+/**
+ * Computes the exponential backoff delay for a retry attempt (1-based), with jitter.
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number = 60_000): number => {
+  const exponential = baseDelayMs * Math.pow(2, attempt - 1);
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(maxDelayMs, exponential + jitter);
+};
+
+/**
+ * Runs `fn`, retrying with exponential backoff while `shouldRetry` accepts the error.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await fn();
+    } catch (error) {
+      attempt++;
+      if (attempt > options.maxRetries || isAbortError(error) || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const delay = getBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+};
+
+export interface PauseGate {
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  // Resolves right away when running, otherwise on resume or when the signal aborts
+  wait: (signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Creates a gate that holds the queue while paused. Items already running are not interrupted.
+ */
+export const createPauseGate = (): PauseGate => {
+  let resumed: Promise<void> | null = null;
+  let release: () => void = () => {};
+
+  const pause = () => {
+    if (resumed) return;
+    resumed = new Promise(resolve => { release = resolve; });
+  };
+
+  const resume = () => {
+    resumed = null;
+    release();
+  };
+
+  const wait = async (signal?: AbortSignal) => {
+    if (!resumed || signal?.aborted) return;
+    await new Promise<void>(resolve => {
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+      resumed!.then(resolve);
+    });
+  };
+
+  return { pause, resume, isPaused: () => resumed !== null, wait };
+};
+
+export interface ConcurrencyOptions {
+  gate?: PauseGate; // Holds new items while paused
+  signal?: AbortSignal; // Stops scheduling new items
+}
+
+/**
+ * Processes items with at most `concurrency` workers running at the same time.
+ * Workers are expected to handle recoverable errors themselves: any error
+ * they throw stops scheduling new items and is rethrown once in-flight items settle.
+ * Items left when the signal aborts are not started.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  { gate, signal }: ConcurrencyOptions = {}
+): Promise<void> => {
+  let nextIndex = 0;
+  let fatalError: any = null;
+
+  const runLane = async () => {
+    while (fatalError === null && nextIndex < items.length) {
+      await gate?.wait(signal);
+      if (signal?.aborted || fatalError !== null || nextIndex >= items.length) break;
+      const index = nextIndex++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        if (fatalError === null) fatalError = error;
+      }
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: laneCount }, runLane));
+
+  if (fatalError !== null) throw fatalError;
+};
@@ -0,0 +1,101 @@
+/**
+ * Technical specification rows (spec tables: power, voltage, RPM...) and how
+ * they are written to the CSV/XLSX exports.
+ */
+
+import { ProductData, Specification } from '../types';
+
+// 'columns': one column per chosen key; 'json': a single column with every row as a JSON object
+export type SpecificationExportMode = 'columns' | 'json';
+
+export interface SpecificationExportOptions {
+  mode: SpecificationExportMode;
+  keys: string[]; // Keys flattened into columns, in column order
+}
+
+// A spec key found in the results, with how many products have it
+export interface SpecificationKey {
+  key: string;
+  count: number;
+}
+
+export interface SpecificationColumn {
+  header: string;
+  value: (product: ProductData) => string | null;
+}
+
+export const DEFAULT_SPECIFICATION_EXPORT: SpecificationExportOptions = { mode: 'json', keys: [] };
+
+export const SPECIFICATIONS_HEADER = 'Especificações';
+
+// Keys match regardless of case, accents and spacing ("Potência" = "potencia ")
+const normalizeKey = (key: string): string => {
+  return key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim();
+};
+
+/**
+ * Cleans the rows returned by the model. Accepts a list of {key, value} or a plain
+ * key/value object; rows without a key or value are dropped, repeated keys keep the first.
+ */
+export const normalizeSpecifications = (raw: unknown): Specification[] => {
+  const entries: [unknown, unknown][] = Array.isArray(raw)
+    ? raw.filter(row => row && typeof row === 'object').map(row => [row.key, row.value])
+    : raw && typeof raw === 'object' ? Object.entries(raw) : [];
+
+  const seen = new Set<string>();
+  const specs: Specification[] = [];
+  for (const [rawKey, rawValue] of entries) {
+    const key = toText(rawKey).replace(/:$/, '');
+    const value = toText(rawValue);
+    if (!key || !value || seen.has(normalizeKey(key))) continue;
+    seen.add(normalizeKey(key));
+    specs.push({ key, value });
+  }
+  return specs;
+};
+
+/**
+ * Lists the spec keys of a result set, most common first (ties keep first appearance).
+ */
+export const collectSpecificationKeys = (data: ProductData[]): SpecificationKey[] => {
+  const keys = new Map<string, SpecificationKey>();
+  for (const product of data) {
+    for (const spec of product.especificacoes || []) {
+      const normalized = normalizeKey(spec.key);
+      const entry = keys.get(normalized) || { key: spec.key, count: 0 };
+      entry.count++;
+      keys.set(normalized, entry);
+    }
+  }
+  return Array.from(keys.values()).sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Reads the value of one spec key from a product.
+ */
+export const getSpecificationValue = (product: ProductData, key: string): string | null => {
+  const normalized = normalizeKey(key);
+  return product.especificacoes?.find(spec => normalizeKey(spec.key) === normalized)?.value ?? null;
+};
+
+/**
+ * Builds the spec columns appended to the CSV/XLSX exports. Nothing is added when no product has specs.
+ */
+export const getSpecificationColumns = (data: ProductData[], options: SpecificationExportOptions): SpecificationColumn[] => {
+  if (!data.some(product => product.especificacoes?.length)) return [];
+
+  if (options.mode === 'columns') {
+    return options.keys.map(key => ({ header: key, value: product => getSpecificationValue(product, key) }));
+  }
+  return [{
+    header: SPECIFICATIONS_HEADER,
+    value: product => product.especificacoes?.length
+      ? JSON.stringify(Object.fromEntries(product.especificacoes.map(spec => [spec.key, spec.value])))
+      : null,
+  }];
+};
@@ -0,0 +1,105 @@
+/**
+ * Stitching of products split across consecutive pages: a photo and header on one
+ * page with the spec or price table on the next, or a table broken by a page end.
+ * Pages are still extracted one at a time; the previous page is summarized into the
+ * prompt, and records continuing it are merged into its last product.
+ */
+
+import { ProductData } from '../types';
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+import { mergeProducts } from './dedupUtils';
+import { formatPrice, normalizePriceTiers } from './pricing';
+
+// Fields that name a product; a record with none of them can't stand on its own
+const IDENTITY_FIELDS = ['nome', 'modelo', 'codigo', 'sku', 'codigo_barras'];
+
+const isBlank = (value: unknown): boolean => {
+  return value === null || value === undefined || String(value).trim() === '';
+};
+
+/**
+ * The identity fields kept in the schema; a custom schema may have none of them.
+ */
+const getIdentityFields = (fields: ProductFieldDefinition[]): string[] => {
+  return IDENTITY_FIELDS.filter(name => fields.some(field => field.name === name));
+};
+
+/**
+ * Whether a record is the rest of a product started on the previous page:
+ * flagged by the model, or rows without anything naming the product.
+ * Without identity fields in the schema, only the model's flag counts.
+ */
+export const isContinuationFragment = (product: ProductData, fields: ProductFieldDefinition[] = PRODUCT_FIELDS): boolean => {
+  if (product.continuacao_da_pagina_anterior === true) return true;
+  const identity = getIdentityFields(fields);
+  return identity.length > 0 && identity.every(name => isBlank((product as any)[name]));
+};
+
+/**
+ * Summarizes the end of a page for the next page's prompt: the last product, the
+ * spec keys and price breaks read so far and the fields the page's products had,
+ * which stand in for the headers of a table broken by the page end.
+ */
+export const buildPageContext = (products: ProductData[], fields: ProductFieldDefinition[] = PRODUCT_FIELDS): string | null => {
+  const last = products[products.length - 1];
+  if (!last) return null;
+
+  const identity = getIdentityFields(fields)
+    .filter(name => !isBlank((last as any)[name]))
+    .map(name => `${name}: ${(last as any)[name]}`);
+  const lines = [`- Last product: ${identity.join('; ') || 'unnamed'}`];
+  if (last.especificacoes?.length) {
+    lines.push(`- Its spec table rows so far: ${last.especificacoes.map(spec => spec.key).join(', ')}`);
+  }
+  if (last.faixas_preco?.length) {
+    lines.push(`- Its price breaks so far: ${last.faixas_preco.map(tier => `${tier.min_quantity}+ = ${formatPrice(tier.price)}`).join(', ')}`);
+  }
+  if (last.continua_na_proxima_pagina) {
+    lines.push('- It was cut off at the bottom of the page.');
+  }
+  const columns = fields.filter(field => products.some(p => !isBlank((p as any)[field.name]))).map(field => field.name);
+  if (columns.length > 0) {
+    lines.push(`- Fields found on the page's products (columns of its tables): ${columns.join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Merges a fragment into the product it continues. Fields keep the earlier page's value,
+ * spec rows and price breaks are combined, and every page stays in origens/imagens.
+ */
+export const mergeContinuation = (
+  product: ProductData,
+  fragment: ProductData,
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS
+): ProductData => {
+  const merged = mergeProducts([product, fragment], {}, fields);
+  const tiers = normalizePriceTiers([...(product.faixas_preco || []), ...(fragment.faixas_preco || [])]);
+  return {
+    ...merged,
+    ...(tiers.length > 0 ? { faixas_preco: tiers } : {}),
+    continuacao_da_pagina_anterior: product.continuacao_da_pagina_anterior,
+    // The last piece tells whether the product goes on further
+    continua_na_proxima_pagina: fragment.continua_na_proxima_pagina,
+  };
+};
+
+/**
+ * Merges the fragments at the start of a page into the last product of the previous page.
+ * @param tail The last product of the previous page, or null when it wasn't processed.
+ * @param products The page's products, in reading order.
+ * @returns The merged product (null when nothing was stitched) and the page's remaining products.
+ */
+export const stitchPageStart = (
+  tail: ProductData | null,
+  products: ProductData[],
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS
+): { merged: ProductData | null; rest: ProductData[] } => {
+  let merged: ProductData | null = null;
+  let index = 0;
+  while (tail && index < products.length && isContinuationFragment(products[index], fields)) {
+    merged = mergeContinuation(merged || tail, products[index], fields);
+    index++;
+  }
+  return { merged, rest: products.slice(index) };
+};
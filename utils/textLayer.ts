@@ -0,0 +1,149 @@
+/**
+ * The PDF text layer of a page: sent to the model next to the render as exact
+ * text, and used afterwards to check the code fields the model read from the image.
+ */
+
+import { FieldEvidence, ProductData, TextSpan } from '../types';
+
+// Fields holding codes, where a misread character makes the value useless
+export const CODE_FIELDS = ['codigo', 'sku', 'codigo_barras', 'ncm', 'mpn'];
+
+// Longer text layers are cut so the prompt stays small
+const MAX_PROMPT_CHARS = 8000;
+
+// Shorter codes match too much unrelated text to be checked
+const MIN_CODE_LENGTH = 3;
+
+// Codes printed with spaces ("789 1234 567895") span a few tokens
+const MAX_TOKENS_PER_CODE = 4;
+
+// Differing characters allowed for a text layer value to be suggested as the correct one
+const MAX_MISREAD_CHARS = 2;
+
+// What PDF.js page.getViewport() provides to place text items on the page
+export interface TextViewport {
+  width: number;
+  height: number;
+  convertToViewportRectangle: (rect: number[]) => number[];
+}
+
+/**
+ * Converts PDF.js text items (page.getTextContent().items) into spans with a
+ * 0-1000 box, like box_2d. Blank items and marked content are dropped.
+ */
+export const buildTextSpans = (items: any[], viewport: TextViewport): TextSpan[] => {
+  const toScale = (value: number, size: number) => Math.round(Math.max(0, Math.min(1000, (value / size) * 1000)));
+
+  return items
+    .filter(item => typeof item.str === 'string' && item.str.trim() !== '')
+    .map(item => {
+      const [, , c, d, x, y] = item.transform;
+      const height = item.height || Math.hypot(c, d);
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + item.width, y + height]);
+      return {
+        text: item.str.trim(),
+        box: [
+          toScale(Math.min(y1, y2), viewport.height),
+          toScale(Math.min(x1, x2), viewport.width),
+          toScale(Math.max(y1, y2), viewport.height),
+          toScale(Math.max(x1, x2), viewport.width),
+        ] as [number, number, number, number],
+      };
+    });
+};
+
+/**
+ * Formats the text layer for the prompt, in reading order, one "[y, x] text" line per span.
+ */
+export const formatTextLayer = (spans: TextSpan[]): string => {
+  const lines = [...spans]
+    .sort((a, b) => (a.box[0] - b.box[0]) || (a.box[1] - b.box[1]))
+    .map(span => `[${span.box[0]}, ${span.box[1]}] ${span.text}`);
+
+  let text = '';
+  for (const line of lines) {
+    if (text.length + line.length > MAX_PROMPT_CHARS) break;
+    text += line + '\n';
+  }
+  return text.trimEnd();
+};
+
+const normalizeCode = (text: string): string => text.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+interface CodeCandidate {
+  span: TextSpan;
+  text: string; // As printed
+  code: string; // Normalized
+}
+
+/**
+ * Every run of up to MAX_TOKENS_PER_CODE consecutive tokens of each span, as a possible code.
+ */
+const getCodeCandidates = (spans: TextSpan[]): CodeCandidate[] => {
+  const candidates: CodeCandidate[] = [];
+  for (const span of spans) {
+    const tokens = span.text.split(/[\s:;,()]+/).filter(Boolean);
+    for (let start = 0; start < tokens.length; start++) {
+      for (let end = start + 1; end <= Math.min(tokens.length, start + MAX_TOKENS_PER_CODE); end++) {
+        const text = tokens.slice(start, end).join(' ');
+        candidates.push({ span, text, code: normalizeCode(text) });
+      }
+    }
+  }
+  return candidates;
+};
+
+const countDifferences = (a: string, b: string): number => {
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) count++;
+  }
+  return count;
+};
+
+/**
+ * Looks for each code field of a product in the text layer. Values found are recorded
+ * with their span; values not found are flagged, suggesting the text layer code that
+ * differs from them by a character or two, if any.
+ * @returns Evidence by field name, or undefined when the page has no text layer.
+ */
+export const checkCodesAgainstText = (
+  product: ProductData,
+  spans: TextSpan[],
+  page: number
+): Record<string, FieldEvidence> | undefined => {
+  if (spans.length === 0) return undefined;
+  const candidates = getCodeCandidates(spans);
+  const evidence: Record<string, FieldEvidence> = {};
+
+  for (const field of CODE_FIELDS) {
+    const value = (product as any)[field];
+    if (typeof value !== 'string' && typeof value !== 'number') continue;
+    const text = String(value).trim();
+    const code = normalizeCode(text);
+    if (code.length < MIN_CODE_LENGTH) continue;
+
+    const match = candidates.find(candidate => candidate.code === code);
+    if (match) {
+      evidence[field] = { value: text, matched: true, page, text: match.span.text, box: match.span.box };
+      continue;
+    }
+
+    // Same length and only a few characters apart: most likely a misread of the image
+    const closest = candidates
+      .filter(candidate => candidate.code.length === code.length)
+      .map(candidate => ({ candidate, differences: countDifferences(candidate.code, code) }))
+      .filter(({ differences }) => differences <= MAX_MISREAD_CHARS)
+      .sort((a, b) => a.differences - b.differences)[0]?.candidate;
+    evidence[field] = {
+      value: text,
+      matched: false,
+      page,
+      text: closest ? closest.span.text : null,
+      box: closest ? closest.span.box : null,
+      ...(closest ? { suggestion: closest.text } : {}),
+    };
+  }
+
+  return Object.keys(evidence).length > 0 ? evidence : undefined;
+};
@@ -0,0 +1,197 @@
+import { ProductData } from '../types';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'gtin_length'      // Barcode is not 8, 12, 13 or 14 digits
+  | 'gtin_checksum'    // Barcode check digit doesn't match
+  | 'ncm_format'       // NCM is not 8 digits
+  | 'number_invalid'   // Weight/dimension can't be read as a number
+  | 'value_normalized' // Value is valid but not in canonical form ("1,5 kg" -> "1.5")
+  | 'text_mismatch'    // Code not in the PDF text layer, which has a near-identical one
+  | 'text_missing';    // Code not in the PDF text layer at all
+
+// A problem found in one field of a product
+export interface ValidationIssue {
+  field: string;
+  code: IssueCode;
+  severity: IssueSeverity;
+  value: string;
+  // Canonical value to replace the current one, when it can be fixed automatically
+  suggestion?: string;
+}
+
+type MeasureKind = 'weight' | 'length';
+
+// Conversion factor from each unit to the canonical one (kg or cm)
+const UNIT_FACTORS: Record<MeasureKind, Record<string, number>> = {
+  weight: { kg: 1, kgs: 1, quilo: 1, quilos: 1, g: 0.001, gr: 0.001, grs: 0.001, gramas: 0.001, mg: 0.000001, lb: 0.45359237, lbs: 0.45359237 },
+  length: { cm: 1, mm: 0.1, m: 100, mt: 100, mts: 100, metros: 100, pol: 2.54, in: 2.54, '"': 2.54 },
+};
+
+const MEASURE_FIELDS: Record<string, MeasureKind> = {
+  peso_kg: 'weight',
+  altura_cm: 'length',
+  largura_cm: 'length',
+  comprimento_cm: 'length',
+};
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * Checks a GTIN-8/12/13/14 (EAN/UPC) check digit.
+ */
+export const isValidGtin = (digits: string): boolean => {
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length)) return false;
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  // Weights alternate 3,1,3... starting from the digit next to the check digit
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Parses a number written in Brazilian or international notation.
+ * "1.234,5" and "1,234.5" are 1234.5; a lone comma is always the decimal separator.
+ * @returns The number, or null if the text isn't a plain number.
+ */
+export const parseLocaleNumber = (text: string): number | null => {
+  let value = text.trim().replace(/\s/g, '');
+  if (!/^-?[\d.,]+$/.test(value) || !/\d/.test(value)) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    // The separator that comes last is the decimal one
+    const thousands = lastComma > lastDot ? '.' : ',';
+    value = value.split(thousands).join('');
+    value = value.replace(',', '.');
+  } else if (lastComma >= 0) {
+    if (value.indexOf(',') !== lastComma) return null;
+    value = value.replace(',', '.');
+  } else if (value.indexOf('.') !== lastDot) {
+    // "1.234.567": dots can only be thousands separators
+    value = value.split('.').join('');
+  }
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Parses a weight or length with an optional unit ("1,5 kg", "500g", "12 mm")
+ * into the canonical unit (kg or cm). A missing unit means the canonical one.
+ * @returns The value in kg/cm, or null if it can't be read.
+ */
+export const parseMeasurement = (text: string, kind: MeasureKind): number | null => {
+  const match = text.trim().toLowerCase().match(/^(-?[\d.,\s]*\d)\s*([a-z"]*)\.?$/);
+  if (!match) return null;
+  const number = parseLocaleNumber(match[1]);
+  if (number === null) return null;
+  const unit = match[2];
+  if (!unit) return number;
+  const factor = UNIT_FACTORS[kind][unit];
+  return factor === undefined ? null : number * factor;
+};
+
+/**
+ * Formats a canonical number with a dot and at most 3 decimals ("1.5", "0.25", "30").
+ */
+export const formatCanonicalNumber = (value: number): string => {
+  return String(Math.round(value * 1000) / 1000);
+};
+
+const validateBarcode = (value: string): ValidationIssue[] => {
+  const digits = value.replace(/[\s.-]/g, '');
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length)) {
+    return [{ field: 'codigo_barras', code: 'gtin_length', severity: 'error', value }];
+  }
+  if (!isValidGtin(digits)) {
+    return [{ field: 'codigo_barras', code: 'gtin_checksum', severity: 'error', value }];
+  }
+  if (digits !== value) {
+    return [{ field: 'codigo_barras', code: 'value_normalized', severity: 'warning', value, suggestion: digits }];
+  }
+  return [];
+};
+
+const validateNcm = (value: string): ValidationIssue[] => {
+  const digits = value.replace(/[\s.-]/g, '');
+  if (!/^\d{8}$/.test(digits)) {
+    return [{ field: 'ncm', code: 'ncm_format', severity: 'error', value }];
+  }
+  if (digits !== value) {
+    return [{ field: 'ncm', code: 'value_normalized', severity: 'warning', value, suggestion: digits }];
+  }
+  return [];
+};
+
+const validateMeasure = (field: string, value: string, kind: MeasureKind): ValidationIssue[] => {
+  const number = parseMeasurement(value, kind);
+  if (number === null || number < 0) {
+    return [{ field, code: 'number_invalid', severity: 'error', value }];
+  }
+  const canonical = formatCanonicalNumber(number);
+  if (canonical !== value) {
+    return [{ field, code: 'value_normalized', severity: 'warning', value, suggestion: canonical }];
+  }
+  return [];
+};
+
+/**
+ * Codes the text layer didn't confirm. Evidence of a value edited since is ignored.
+ */
+const validateEvidence = (product: ProductData): ValidationIssue[] => {
+  return Object.entries(product.evidencias || {})
+    .filter(([field, evidence]) => !evidence.matched && String((product as any)[field] ?? '').trim() === evidence.value)
+    .map(([field, evidence]) => evidence.suggestion !== undefined
+      ? { field, code: 'text_mismatch' as const, severity: 'warning' as const, value: evidence.value, suggestion: evidence.suggestion }
+      : { field, code: 'text_missing' as const, severity: 'warning' as const, value: evidence.value });
+};
+
+// Models may send codes and measures as JSON numbers
+const toText = (value: unknown): string => value === null || value === undefined ? '' : String(value).trim();
+
+/**
+ * Lists the problems of one product. Empty fields are not reported.
+ */
+export const validateProduct = (product: ProductData): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const barcode = toText(product.codigo_barras);
+  if (barcode) issues.push(...validateBarcode(barcode));
+  const ncm = toText(product.ncm);
+  if (ncm) issues.push(...validateNcm(ncm));
+  for (const [field, kind] of Object.entries(MEASURE_FIELDS)) {
+    const value = toText((product as any)[field]);
+    if (value) issues.push(...validateMeasure(field, value, kind));
+  }
+  // Last, so the text layer value wins when fixes are applied
+  issues.push(...validateEvidence(product));
+  return issues;
+};
+
+/**
+ * Validates a result set. The issues of each product are at the same index.
+ */
+export const validateProducts = (data: ProductData[]): ValidationIssue[][] => {
+  return data.map(validateProduct);
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]): boolean => {
+  return issues.some(issue => issue.severity === 'error');
+};
+
+/**
+ * Applies every automatic fix (canonical numbers, digits-only codes) to a product.
+ * Returns the same object if there was nothing to fix.
+ */
+export const normalizeProduct = (product: ProductData): ProductData => {
+  const fixes = validateProduct(product).filter(issue => issue.suggestion !== undefined);
+  if (fixes.length === 0) return product;
+  const normalized: ProductData = { ...product };
+  fixes.forEach(issue => { (normalized as any)[issue.field] = issue.suggestion; });
+  return normalized;
+};
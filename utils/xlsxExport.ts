@@ -0,0 +1,408 @@
+/**
+ * Excel workbook export, written as raw SpreadsheetML parts into a JSZip archive.
+ * Sheets: products (with thumbnails anchored in their cells), a per-page summary
+ * and the validation issues.
+ */
+
+import JSZip from 'jszip';
+import { ProductData } from '../types';
+import { IssueCode, ValidationIssue, parseLocaleNumber, parseMeasurement, validateProducts } from './validation';
+import { getFieldHeader } from './extractionSchema';
+import { DEFAULT_SPECIFICATION_EXPORT, SpecificationExportOptions, getSpecificationColumns } from './specifications';
+import { getPriceTierColumns, parsePrice } from './pricing';
+import { PRODUCT_FIELDS, ProductFieldDefinition } from '../services/extractionProvider';
+
+type CellValue = string | number | null;
+
+interface Column {
+  header: string;
+  width: number;
+  // Stored as text so Excel keeps leading zeros and long digit strings
+  text?: boolean;
+  value: (product: ProductData, index: number) => CellValue;
+}
+
+interface SheetOptions {
+  widths: number[];
+  textColumns?: boolean[];
+  rowHeight?: number;
+  drawingRelId?: string;
+}
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// A product's crop, loaded from the image store for an export
+export interface ExportImage {
+  fileName: string; // Name in the ZIP's images/ folder
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Thumbnail box inside the image cell, in pixels
+const THUMB_SIZE = 80;
+const THUMB_MARGIN = 4;
+const EMU_PER_PIXEL = 9525;
+
+// Style indexes in styles.xml
+const STYLE_TEXT = 1;
+const STYLE_HEADER = 2;
+
+const ISSUE_DESCRIPTIONS: Record<IssueCode, string> = {
+  gtin_length: 'Código de barras não tem 8, 12, 13 ou 14 dígitos',
+  gtin_checksum: 'Dígito verificador do código de barras inválido',
+  ncm_format: 'NCM não tem 8 dígitos',
+  number_invalid: 'Valor não numérico',
+  value_normalized: 'Valor fora do formato padrão',
+  text_mismatch: 'Código difere do texto do PDF',
+  text_missing: 'Código não encontrado no texto do PDF',
+};
+
+const measure = (value: string | null, kind: 'weight' | 'length'): CellValue => {
+  if (!value) return null;
+  return parseMeasurement(value, kind) ?? value;
+};
+
+// Width and cell type of the built-in fields; other fields get defaults from their type
+const FIELD_COLUMNS: Record<string, Partial<Column>> = {
+  nome: { width: 40 },
+  modelo: { width: 14, text: true },
+  descricao: { width: 50 },
+  codigo: { width: 14, text: true },
+  sku: { width: 14, text: true },
+  codigo_barras: { width: 16, text: true },
+  ncm: { width: 11, text: true },
+  categoria: { width: 24 },
+  peso_kg: { width: 10, value: p => measure(p.peso_kg, 'weight') },
+  altura_cm: { width: 10, value: p => measure(p.altura_cm, 'length') },
+  largura_cm: { width: 10, value: p => measure(p.largura_cm, 'length') },
+  comprimento_cm: { width: 12, value: p => measure(p.comprimento_cm, 'length') },
+  preco: { width: 11, value: p => parsePrice(p.preco) ?? p.preco ?? null },
+  moeda: { width: 8 },
+  unidade_venda: { width: 12 },
+  pedido_minimo: { width: 10 },
+  mpn: { width: 14, text: true },
+  faixa_etaria: { width: 12 },
+  sexo: { width: 10 },
+};
+
+const ORIGIN_COLUMNS: Column[] = [
+  { header: 'Origem PDF', width: 24, value: p => p.origem.source_pdf },
+  { header: 'Origem Pagina', width: 8, value: p => p.origem.page },
+];
+
+const toCellValue = (value: unknown, field: ProductFieldDefinition): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  if (field.type === 'number' || field.type === 'integer') return parseLocaleNumber(text) ?? text;
+  return text;
+};
+
+const toColumn = (field: ProductFieldDefinition): Column => ({
+  header: getFieldHeader(field),
+  width: 16,
+  value: p => toCellValue((p as any)[field.name], field),
+  ...FIELD_COLUMNS[field.name],
+});
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are invalid in XML
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+};
+
+/**
+ * Converts a zero-based column index to its letters (0 -> A, 27 -> AB).
+ */
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toCellXml = (value: CellValue, ref: string, style: number): string => {
+  const s = style ? ` s="${style}"` : '';
+  if (value === null || value === '') return style ? `<c r="${ref}"${s}/>` : '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+/**
+ * Builds a worksheet whose first row is a frozen, filterable header.
+ */
+const buildSheetXml = (rows: CellValue[][], { widths, textColumns = [], rowHeight, drawingRelId }: SheetOptions): string => {
+  const lastRef = `${columnName(Math.max(widths.length - 1, 0))}${Math.max(rows.length, 1)}`;
+  const cols = widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"${textColumns[i] ? ` style="${STYLE_TEXT}"` : ''}/>`);
+  const rowXml = rows.map((row, r) => {
+    const height = r > 0 && rowHeight ? ` ht="${rowHeight}" customHeight="1"` : '';
+    const cells = row.map((value, c) => toCellXml(value, `${columnName(c)}${r + 1}`, r === 0 ? STYLE_HEADER : textColumns[c] ? STYLE_TEXT : 0));
+    return `<row r="${r + 1}"${height}>${cells.join('')}</row>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<dimension ref="A1:${lastRef}"/>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${cols.join('')}</cols>`,
+    `<sheetData>${rowXml.join('')}</sheetData>`,
+    rows.length > 1 ? `<autoFilter ref="A1:${lastRef}"/>` : '',
+    drawingRelId ? `<drawing r:id="${drawingRelId}"/>` : '',
+    '</worksheet>',
+  ].join('');
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+};
+
+/**
+ * Reads the pixel size from a PNG, JPEG or WebP header, without decoding the image.
+ */
+export const getImageSize = (bytes: Uint8Array): ImageSize | null => {
+  // PNG: width and height follow the signature in the IHDR chunk
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  // JPEG: walk the segments until a start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return {
+          height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+          width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        };
+      }
+      offset += 2 + length;
+    }
+  }
+  // WebP: RIFF container, then a VP8 (lossy), VP8L (lossless) or VP8X (extended) chunk
+  if (bytes.length >= 30 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+    const chunk = readAscii(bytes, 12, 4);
+    if (chunk === 'VP8 ') {
+      return {
+        width: ((bytes[27] << 8) | bytes[26]) & 0x3fff,
+        height: ((bytes[29] << 8) | bytes[28]) & 0x3fff,
+      };
+    }
+    if (chunk === 'VP8L') {
+      return {
+        width: 1 + (((bytes[22] & 0x3f) << 8) | bytes[21]),
+        height: 1 + (((bytes[24] & 0x0f) << 10) | (bytes[23] << 2) | ((bytes[22] & 0xc0) >> 6)),
+      };
+    }
+    if (chunk === 'VP8X') {
+      return {
+        width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+        height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Anchors a picture inside one cell, scaled to fit the thumbnail box and centered.
+ */
+const buildPictureAnchor = (id: number, column: number, row: number, size: ImageSize | null): string => {
+  const scale = size ? Math.min(THUMB_SIZE / size.width, THUMB_SIZE / size.height) : 1;
+  const width = size ? Math.max(1, Math.round(size.width * scale)) : THUMB_SIZE;
+  const height = size ? Math.max(1, Math.round(size.height * scale)) : THUMB_SIZE;
+  const colOff = (THUMB_MARGIN + (THUMB_SIZE - width) / 2) * EMU_PER_PIXEL;
+  const rowOff = (THUMB_MARGIN + (THUMB_SIZE - height) / 2) * EMU_PER_PIXEL;
+  const cx = width * EMU_PER_PIXEL;
+  const cy = height * EMU_PER_PIXEL;
+
+  return [
+    '<xdr:oneCellAnchor>',
+    `<xdr:from><xdr:col>${column}</xdr:col><xdr:colOff>${Math.round(colOff)}</xdr:colOff><xdr:row>${row}</xdr:row><xdr:rowOff>${Math.round(rowOff)}</xdr:rowOff></xdr:from>`,
+    `<xdr:ext cx="${cx}" cy="${cy}"/>`,
+    '<xdr:pic>',
+    `<xdr:nvPicPr><xdr:cNvPr id="${id + 1}" name="Imagem ${id}"/><xdr:cNvPicPr><a:picLocks noChangeAspect="1"/></xdr:cNvPicPr></xdr:nvPicPr>`,
+    `<xdr:blipFill><a:blip r:embed="rId${id}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>`,
+    `<xdr:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr>`,
+    '</xdr:pic>',
+    '<xdr:clientData/>',
+    '</xdr:oneCellAnchor>',
+  ].join('');
+};
+
+const relationshipsXml = (relationships: { id: string; type: string; target: string }[]): string => {
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...relationships.map(rel => `<Relationship Id="${rel.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${rel.type}" Target="${rel.target}"/>`),
+    '</Relationships>',
+  ].join('');
+};
+
+const STYLES_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="3">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+  '</cellXfs>',
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+  '</styleSheet>',
+].join('');
+
+/**
+ * Summarizes the products of each catalog page. Merged duplicates count on every page they were found on.
+ */
+const buildPageSummaryRows = (data: ProductData[], issues: ValidationIssue[][]): CellValue[][] => {
+  const pages = new Map<string, { pdf: string; page: number; products: number; images: number; errors: number; warnings: number }>();
+  data.forEach((product, index) => {
+    for (const origin of product.origens || [product.origem]) {
+      const key = `${origin.source_pdf}\u0000${origin.page}`;
+      const summary = pages.get(key) || { pdf: origin.source_pdf, page: origin.page, products: 0, images: 0, errors: 0, warnings: 0 };
+      summary.products++;
+      if (product.imagem_produto_id) summary.images++;
+      summary.errors += issues[index].filter(issue => issue.severity === 'error').length;
+      summary.warnings += issues[index].filter(issue => issue.severity === 'warning').length;
+      pages.set(key, summary);
+    }
+  });
+
+  const sorted = Array.from(pages.values()).sort((a, b) => a.pdf.localeCompare(b.pdf) || a.page - b.page);
+  return [
+    ['PDF', 'Página', 'Produtos', 'Com imagem', 'Erros', 'Avisos'],
+    ...sorted.map(s => [s.pdf, s.page, s.products, s.images, s.errors, s.warnings]),
+  ];
+};
+
+const buildIssueRows = (data: ProductData[], issues: ValidationIssue[][]): CellValue[][] => {
+  const rows: CellValue[][] = [['Linha', 'Nome', 'Campo', 'Gravidade', 'Problema', 'Valor', 'Sugestão']];
+  issues.forEach((productIssues, index) => {
+    for (const issue of productIssues) {
+      // Row number of the product in the Produtos sheet
+      rows.push([index + 2, data[index].nome, issue.field, issue.severity === 'error' ? 'Erro' : 'Aviso', ISSUE_DESCRIPTIONS[issue.code], issue.value, issue.suggestion ?? null]);
+    }
+  });
+  return rows;
+};
+
+/**
+ * Builds the .xlsx workbook. images holds the crop of each product (null when it has none),
+ * named as in the ZIP export so both exports use the same names.
+ */
+export const buildXlsxWorkbook = (
+  data: ProductData[],
+  images: (ExportImage | null)[],
+  fields: ProductFieldDefinition[] = PRODUCT_FIELDS,
+  specs: SpecificationExportOptions = DEFAULT_SPECIFICATION_EXPORT
+): JSZip => {
+  const parts = new Map<string, string | Uint8Array>();
+  const issues = validateProducts(data);
+  const hasImages = images.some(Boolean);
+
+  // Products sheet: thumbnail, the CSV columns, then the image file name
+  const extraColumns: Column[] = [...getSpecificationColumns(data, specs), ...getPriceTierColumns(data)].map(col => ({ ...col, width: 20 }));
+  const columns = [...fields.map(toColumn), ...extraColumns, ...ORIGIN_COLUMNS];
+  const productRows: CellValue[][] = [
+    ['Imagem', ...columns.map(col => col.header), 'Nome do Arquivo de Imagem'],
+    ...data.map((product, index) => [
+      null,
+      ...columns.map(col => col.value(product, index)),
+      images[index] ? `images/${images[index]!.fileName}` : null,
+    ]),
+  ];
+  const productSheet = buildSheetXml(productRows, {
+    widths: [hasImages ? 13 : 8, ...columns.map(col => col.width), 30],
+    textColumns: [false, ...columns.map(col => !!col.text), false],
+    // Row height is in points (3/4 of a pixel)
+    rowHeight: hasImages ? ((THUMB_SIZE + THUMB_MARGIN * 2) * 3) / 4 : undefined,
+    drawingRelId: hasImages ? 'rId1' : undefined,
+  });
+
+  const sheets = [
+    { name: 'Produtos', xml: productSheet },
+    { name: 'Páginas', xml: buildSheetXml(buildPageSummaryRows(data, issues), { widths: [30, 8, 10, 12, 8, 8] }) },
+    { name: 'Validação', xml: buildSheetXml(buildIssueRows(data, issues), { widths: [8, 40, 16, 10, 44, 24, 18] }) },
+  ];
+
+  const overrides: string[] = [
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    ...sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`),
+  ];
+
+  sheets.forEach((sheet, i) => parts.set(`xl/worksheets/sheet${i + 1}.xml`, sheet.xml));
+
+  if (hasImages) {
+    const anchors: string[] = [];
+    const mediaRels: { id: string; type: string; target: string }[] = [];
+    images.forEach((image, index) => {
+      if (!image) return;
+      const { fileName, bytes, mimeType } = image;
+      const id = mediaRels.length + 1;
+
+      parts.set(`xl/media/${fileName}`, bytes);
+      // PNG crops keep the ZIP export's .jpg name, so the real type is declared per part
+      overrides.push(`<Override PartName="/xl/media/${escapeXml(fileName)}" ContentType="${mimeType}"/>`);
+      mediaRels.push({ id: `rId${id}`, type: 'image', target: `../media/${escapeXml(fileName)}` });
+      anchors.push(buildPictureAnchor(id, 0, index + 1, getImageSize(bytes)));
+    });
+
+    parts.set('xl/drawings/drawing1.xml', [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+      ...anchors,
+      '</xdr:wsDr>',
+    ].join(''));
+    parts.set('xl/drawings/_rels/drawing1.xml.rels', relationshipsXml(mediaRels));
+    parts.set('xl/worksheets/_rels/sheet1.xml.rels', relationshipsXml([{ id: 'rId1', type: 'drawing', target: '../drawings/drawing1.xml' }]));
+    overrides.push('<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>');
+  }
+
+  parts.set('xl/workbook.xml', [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    '<sheets>',
+    ...sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`),
+    '</sheets>',
+    '</workbook>',
+  ].join(''));
+  parts.set('xl/_rels/workbook.xml.rels', relationshipsXml([
+    ...sheets.map((_, i) => ({ id: `rId${i + 1}`, type: 'worksheet', target: `worksheets/sheet${i + 1}.xml` })),
+    { id: `rId${sheets.length + 1}`, type: 'styles', target: 'styles.xml' },
+  ]));
+  parts.set('xl/styles.xml', STYLES_XML);
+  parts.set('_rels/.rels', relationshipsXml([{ id: 'rId1', type: 'officeDocument', target: 'xl/workbook.xml' }]));
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    ...overrides,
+    '</Types>',
+  ].join('');
+
+  // [Content_Types].xml goes first and without folder entries, as Excel writes it
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', contentTypes, { createFolders: false });
+  parts.forEach((content, path) => zip.file(path, content, { createFolders: false }));
+  return zip;
+};